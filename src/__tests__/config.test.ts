@@ -28,12 +28,16 @@ describe('Config', () => {
     expect(defaultConfig.maxFileSize).toBe(10 * 1024 * 1024);
     expect(defaultConfig.maxSearchResults).toBe(100);
     expect(defaultConfig.maxRecentNotes).toBe(100);
+    expect(defaultConfig.watch).toBe(true);
+    expect(defaultConfig.watchDebounceMs).toBe(300);
+    expect(defaultConfig.templateFolder).toBe('_Meta/Templates');
     expect(defaultConfig.searchWeights).toEqual({
       title: 3.0,
       tags: 2.5,
       frontmatter: 2.0,
       content: 1.0,
-      recency: 1.5
+      recency: 1.5,
+      recencyHalfLifeDays: 30
     });
   });
 });
@@ -5,6 +5,7 @@ import { mkdir, rm } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { existsSync } from 'fs';
+import Database from 'better-sqlite3';
 
 describe('DatabaseStorage', () => {
   let testVaultPath: string;
@@ -200,6 +201,330 @@ describe('DatabaseStorage', () => {
     });
   });
 
+  describe('deleteNote', () => {
+    test('removes the note, its tags, frontmatter and FTS entry', async () => {
+      const note: Note = {
+        path: 'doomed.md',
+        title: 'Doomed',
+        content: 'Ephemeral content',
+        frontmatter: { tags: ['temp'], project: 'alpha' }
+      };
+
+      await storage.upsertNote(note);
+      await storage.deleteNote('doomed.md');
+
+      expect(await storage.getNote('doomed.md')).toBeNull();
+      expect((await storage.getNotesByTag('temp')).length).toBe(0);
+      expect((await storage.searchNotes('Ephemeral')).length).toBe(0);
+    });
+
+    test('leaves other notes untouched', async () => {
+      await storage.upsertNotes([
+        { path: 'keep.md', title: 'Keep', content: 'Shared words', frontmatter: { tags: ['shared'] } },
+        { path: 'drop.md', title: 'Drop', content: 'Shared words', frontmatter: { tags: ['shared'] } }
+      ]);
+
+      await storage.deleteNote('drop.md');
+
+      const results = await storage.searchNotes('Shared');
+      expect(results.map(n => n.path)).toEqual(['keep.md']);
+      expect((await storage.getNotesByTag('shared')).length).toBe(1);
+    });
+
+    test('ignores unknown paths', async () => {
+      await expect(storage.deleteNote('missing.md')).resolves.toBeUndefined();
+    });
+
+    test('removes the old path when a note is renamed', async () => {
+      const note: Note = {
+        path: 'Work/old.md',
+        title: 'old',
+        content: 'Renamed content',
+        frontmatter: { tags: ['moved'], project: 'alpha' }
+      };
+      await storage.upsertNote(note);
+
+      await storage.upsertNote({ ...note, path: 'Work/new.md', title: 'new' });
+      await storage.deleteNote('Work/old.md');
+
+      expect(await storage.getNote('Work/old.md')).toBeNull();
+      expect((await storage.getNote('Work/new.md'))?.frontmatter.project).toBe('alpha');
+      expect((await storage.searchNotes('Renamed')).map(n => n.path)).toEqual(['Work/new.md']);
+      expect((await storage.getNotesByTag('moved')).map(n => n.path)).toEqual(['Work/new.md']);
+    });
+
+    test('does not duplicate FTS entries when a note is upserted repeatedly', async () => {
+      const note: Note = { path: 'test.md', title: 'Repeat', content: 'Repeated content', frontmatter: {} };
+
+      await storage.upsertNote(note);
+      await storage.upsertNote(note);
+      await storage.deleteNote('test.md');
+
+      expect((await storage.searchNotes('Repeated')).length).toBe(0);
+    });
+  });
+
+  describe('deleteNotes', () => {
+    test('removes several notes in one transaction', async () => {
+      await storage.upsertNotes([
+        { path: 'a.md', title: 'A', content: 'Bulk', frontmatter: { tags: ['bulk'] } },
+        { path: 'b.md', title: 'B', content: 'Bulk', frontmatter: { tags: ['bulk'] } },
+        { path: 'c.md', title: 'C', content: 'Bulk', frontmatter: { tags: ['bulk'] } }
+      ]);
+
+      await storage.deleteNotes(['a.md', 'c.md']);
+
+      expect(await storage.getNotePaths()).toEqual(['b.md']);
+      expect((await storage.searchNotes('Bulk')).map(n => n.path)).toEqual(['b.md']);
+      expect((await storage.getNotesByTag('bulk')).length).toBe(1);
+    });
+  });
+
+  describe('replaceNotes', () => {
+    test('removes and stores notes in one transaction', async () => {
+      await storage.upsertNotes([
+        { path: 'old.md', title: 'Old', content: 'Moved', frontmatter: { tags: ['moved'] } },
+        { path: 'b.md', title: 'B', content: 'Other', frontmatter: {} }
+      ]);
+
+      await storage.replaceNotes(['old.md'], [{ path: 'new.md', title: 'New', content: 'Moved', frontmatter: { tags: ['moved'] } }]);
+
+      expect((await storage.getNotePaths()).sort()).toEqual(['b.md', 'new.md']);
+      expect((await storage.searchNotes('Moved')).map(n => n.path)).toEqual(['new.md']);
+      expect((await storage.getNotesByTag('moved')).map(n => n.path)).toEqual(['new.md']);
+    });
+  });
+
+  describe('getNotePaths', () => {
+    test('returns the path of every stored note', async () => {
+      await storage.upsertNotes([
+        { path: 'Work/a.md', title: 'A', content: 'A', frontmatter: {} },
+        { path: 'b.md', title: 'B', content: 'B', frontmatter: {} }
+      ]);
+
+      expect((await storage.getNotePaths()).sort()).toEqual(['Work/a.md', 'b.md']);
+    });
+
+    test('applies search filters when options are given', async () => {
+      await storage.upsertNotes([
+        { path: 'Work/a.md', title: 'A', content: 'A', frontmatter: { tags: ['work/alpha'], category: 'work' } },
+        { path: 'Work/b.md', title: 'B', content: 'B', frontmatter: { tags: ['misc'], category: 'work' } },
+        { path: 'Archive/c.md', title: 'C', content: 'C', frontmatter: { tags: ['work'], category: 'work' } },
+        { path: 'Life/d.md', title: 'D', content: 'D', frontmatter: { category: 'life' } }
+      ]);
+
+      expect((await storage.getNotePaths({})).sort()).toEqual(['Life/d.md', 'Work/a.md', 'Work/b.md']);
+      expect(await storage.getNotePaths({ tags: ['work'] })).toEqual(['Work/a.md']);
+      expect((await storage.getNotePaths({ tags: ['work'], includeArchive: true })).sort()).toEqual(['Archive/c.md', 'Work/a.md']);
+      expect((await storage.getNotePaths({ path: 'Work/**', category: 'work' })).sort()).toEqual(['Work/a.md', 'Work/b.md']);
+    });
+  });
+
+  describe('getFingerprints', () => {
+    test('stores and returns file fingerprints', async () => {
+      await storage.upsertNotes([
+        { path: 'a.md', title: 'A', content: 'A', frontmatter: {}, fingerprint: { mtimeMs: 1700000000000.5, size: 42, hash: 'abc' } },
+        { path: 'b.md', title: 'B', content: 'B', frontmatter: {} }
+      ]);
+
+      const fingerprints = await storage.getFingerprints();
+      expect(fingerprints.size).toBe(1);
+      expect(fingerprints.get('a.md')).toEqual({ mtimeMs: 1700000000000.5, size: 42, hash: 'abc' });
+      expect((await storage.getNote('a.md'))?.fingerprint).toEqual({ mtimeMs: 1700000000000.5, size: 42, hash: 'abc' });
+    });
+
+    test('replaces and removes fingerprints with the note', async () => {
+      const note: Note = { path: 'a.md', title: 'A', content: 'A', frontmatter: {}, fingerprint: { mtimeMs: 1, size: 1 } };
+      await storage.upsertNote(note);
+      await storage.upsertNote({ ...note, fingerprint: { mtimeMs: 2, size: 3 } });
+      expect((await storage.getFingerprints()).get('a.md')).toEqual({ mtimeMs: 2, size: 3 });
+
+      await storage.deleteNote('a.md');
+      expect((await storage.getFingerprints()).size).toBe(0);
+    });
+  });
+
+  describe('Schema Versioning', () => {
+    test('keeps the index across restarts with the same schema version', async () => {
+      await storage.upsertNote({ path: 'a.md', title: 'A', content: 'Persistent', frontmatter: {} });
+      await storage.close();
+
+      storage = new DatabaseStorage(testVaultPath);
+      await storage.initialize();
+      expect(await storage.getNote('a.md')).not.toBeNull();
+    });
+
+    test('rebuilds the index when the stored schema version differs', async () => {
+      await storage.upsertNote({ path: 'a.md', title: 'A', content: 'Outdated', frontmatter: {}, fingerprint: { mtimeMs: 1, size: 1 } });
+      await storage.close();
+
+      const raw = new Database(join(testVaultPath, '.obsidian-mcp', 'notes.db'));
+      raw.pragma('user_version = 0');
+      raw.close();
+
+      storage = new DatabaseStorage(testVaultPath);
+      await storage.initialize();
+      expect(await storage.getNotePaths()).toEqual([]);
+      expect((await storage.getFingerprints()).size).toBe(0);
+      expect((await storage.searchNotes('Outdated')).length).toBe(0);
+    });
+  });
+
+  describe('getLinks', () => {
+    beforeEach(async () => {
+      await storage.upsertNotes([
+        {
+          path: 'a.md',
+          title: 'a',
+          content: '[[B]] [[Folder/C|See C]]',
+          frontmatter: {},
+          links: [
+            { target: 'B', kind: 'wikilink', line: 1 },
+            { target: 'Folder/C', alias: 'See C', kind: 'wikilink', line: 1 }
+          ]
+        },
+        {
+          path: 'b.md',
+          title: 'b',
+          content: '![[c#Intro]]',
+          frontmatter: {},
+          links: [{ target: 'c', subpath: '#Intro', kind: 'embed', line: 3 }]
+        }
+      ]);
+    });
+
+    test('returns links round-tripped on the note', async () => {
+      const note = await storage.getNote('a.md');
+      expect(note?.links).toEqual([
+        { target: 'B', kind: 'wikilink', line: 1 },
+        { target: 'Folder/C', alias: 'See C', kind: 'wikilink', line: 1 }
+      ]);
+    });
+
+    test('filters by source and by target name', async () => {
+      expect((await storage.getLinks({ source: 'b.md' }))).toEqual([
+        { source: 'b.md', target: 'c', subpath: '#Intro', kind: 'embed', line: 3 }
+      ]);
+      const toC = await storage.getLinks({ targetName: 'c' });
+      expect(toC.map(link => link.source).sort()).toEqual(['a.md', 'b.md']);
+      expect((await storage.getLinks()).length).toBe(3);
+    });
+
+    test('replaces links on update and removes them on delete', async () => {
+      await storage.upsertNote({ path: 'a.md', title: 'a', content: 'no links', frontmatter: {}, links: [] });
+      expect(await storage.getLinks({ source: 'a.md' })).toEqual([]);
+
+      await storage.deleteNote('b.md');
+      expect(await storage.getLinks()).toEqual([]);
+    });
+  });
+
+  describe('Inline Tags', () => {
+    beforeEach(async () => {
+      await storage.upsertNotes([
+        { path: 'fm.md', title: 'fm', content: 'Alpha', frontmatter: { tags: ['project/alpha'] } },
+        { path: 'inline.md', title: 'inline', content: 'Alpha #project/alpha', frontmatter: {}, inlineTags: ['project/alpha'] },
+        { path: 'both.md', title: 'both', content: 'Alpha #project', frontmatter: { tags: ['project'] }, inlineTags: ['project', 'extra'] }
+      ]);
+    });
+
+    test('round-trips inline tags separately from frontmatter tags', async () => {
+      const note = await storage.getNote('both.md');
+      expect(note?.frontmatter.tags).toEqual(['project']);
+      expect(note?.inlineTags?.sort()).toEqual(['extra', 'project']);
+    });
+
+    test('matches both sources by default', async () => {
+      expect((await storage.getNotesByTag('project')).map(n => n.path).sort()).toEqual(['both.md', 'fm.md', 'inline.md']);
+      expect((await storage.searchNotes('', { tags: ['extra'] })).map(n => n.path)).toEqual(['both.md']);
+    });
+
+    test('restricts matches to one source', async () => {
+      expect((await storage.getNotesByTag('project/alpha', 'inline')).map(n => n.path)).toEqual(['inline.md']);
+      expect((await storage.getNotesByTag('project/alpha', 'frontmatter')).map(n => n.path)).toEqual(['fm.md']);
+      const results = await storage.searchNotes('', { tags: ['extra'], tagSource: 'frontmatter' });
+      expect(results).toEqual([]);
+    });
+  });
+
+  describe('getTagCounts', () => {
+    beforeEach(async () => {
+      await storage.upsertNotes([
+        { path: 'a.md', title: 'a', content: 'A', frontmatter: { modified: '2025-01-01', tags: ['work/puppet', 'work/puppet/ci'] } },
+        { path: 'b.md', title: 'b', content: 'B', frontmatter: { modified: '2025-03-01', tags: ['work'] }, inlineTags: ['work/golang'] },
+        { path: 'c.md', title: 'c', content: 'C', frontmatter: { tags: ['personal'] }, inlineTags: ['personal'] }
+      ]);
+    });
+
+    test('returns direct and rolled-up counts for every tag and ancestor', async () => {
+      expect(await storage.getTagCounts()).toEqual([
+        { tag: 'personal', directCount: 1, totalCount: 1, lastModified: null },
+        { tag: 'work', directCount: 1, totalCount: 2, lastModified: '2025-03-01' },
+        { tag: 'work/golang', directCount: 1, totalCount: 1, lastModified: '2025-03-01' },
+        { tag: 'work/puppet', directCount: 1, totalCount: 1, lastModified: '2025-01-01' },
+        { tag: 'work/puppet/ci', directCount: 1, totalCount: 1, lastModified: '2025-01-01' }
+      ]);
+    });
+
+    test('restricts counts to one tag source', async () => {
+      const counts = await storage.getTagCounts('inline');
+      expect(counts.map(count => count.tag)).toEqual(['personal', 'work', 'work/golang']);
+      expect(counts.find(count => count.tag === 'work')).toMatchObject({ directCount: 0, totalCount: 1 });
+    });
+  });
+
+  describe('queryTasks', () => {
+    beforeEach(async () => {
+      await storage.upsertNotes([
+        {
+          path: 'Work/meeting.md', title: 'meeting', content: '', frontmatter: { tags: ['work'] },
+          tasks: [
+            { line: 5, text: 'Later 📅 2025-03-01', description: 'Later', status: 'open', priority: 'normal', tags: [], due: '2025-03-01' },
+            { line: 6, text: 'Urgent #ops ⏫ 📅 2025-01-15', description: 'Urgent #ops', status: 'open', priority: 'high', heading: 'Actions', tags: ['ops/oncall'], due: '2025-01-15' },
+            { line: 7, text: 'Finished ✅ 2025-01-02', description: 'Finished', status: 'done', priority: 'normal', tags: [], done: '2025-01-02' }
+          ]
+        },
+        {
+          path: 'Dailies/today.md', title: 'today', content: '', frontmatter: {},
+          tasks: [{ line: 1, text: 'Undated', description: 'Undated', status: 'open', priority: 'low', tags: [] }]
+        },
+        {
+          path: 'Archive/old.md', title: 'old', content: '', frontmatter: {},
+          tasks: [{ line: 1, text: 'Old', description: 'Old', status: 'open', priority: 'normal', tags: [] }]
+        }
+      ]);
+    });
+
+    test('returns tasks ordered by due date with undated last, excluding the archive', async () => {
+      const tasks = await storage.queryTasks({});
+      expect(tasks.map(task => task.description)).toEqual(['Urgent #ops', 'Later', 'Undated', 'Finished']);
+      expect(tasks[0]).toMatchObject({ path: 'Work/meeting.md', line: 6, heading: 'Actions', tags: ['ops/oncall'] });
+    });
+
+    test('filters by status, priority and due range', async () => {
+      expect((await storage.queryTasks({ status: 'done' })).map(task => task.line)).toEqual([7]);
+      expect((await storage.queryTasks({ priority: 'low' })).map(task => task.path)).toEqual(['Dailies/today.md']);
+      expect((await storage.queryTasks({ dueFrom: '2025-02-01' })).map(task => task.line)).toEqual([5]);
+      expect((await storage.queryTasks({ dueTo: '2025-02-01' })).map(task => task.line)).toEqual([6]);
+    });
+
+    test('filters by task or note tag and by path', async () => {
+      expect((await storage.queryTasks({ tag: 'ops' })).map(task => task.line)).toEqual([6]);
+      expect((await storage.queryTasks({ tag: 'work' })).length).toBe(3);
+      expect((await storage.queryTasks({ path: 'Dailies/**' })).length).toBe(1);
+    });
+
+    test('includes archived notes and applies the limit on request', async () => {
+      expect((await storage.queryTasks({ includeArchive: true })).length).toBe(5);
+      expect((await storage.queryTasks({ limit: 2 })).length).toBe(2);
+    });
+
+    test('round-trips tasks on the note', async () => {
+      const note = await storage.getNote('Dailies/today.md');
+      expect(note?.tasks).toEqual([{ line: 1, text: 'Undated', description: 'Undated', status: 'open', priority: 'low', tags: [] }]);
+    });
+  });
+
   describe('getNote', () => {
     test('returns null for non-existent note', async () => {
       const note = await storage.getNote('nonexistent.md');
@@ -404,6 +729,241 @@ describe('DatabaseStorage', () => {
     });
   });
 
+  describe('Query Language', () => {
+    beforeEach(async () => {
+      await storage.upsertNotes([
+        {
+          path: 'Work/Meetings/standup.md',
+          title: 'Standup',
+          content: 'Discussed the puppet rollout schedule',
+          frontmatter: { tags: ['work/puppet'], type: 'meeting', status: 'active', created: '2024-03-01', modified: '2024-03-01' }
+        },
+        {
+          path: 'Work/plan.md',
+          title: 'Rollout Plan',
+          content: 'An exact phrase about the rollout',
+          frontmatter: { tags: ['work'], type: 'project', status: 'archived', modified: '2023-12-01' }
+        },
+        {
+          path: 'Personal/ideas.md',
+          title: 'Ideas',
+          content: 'Gardening thoughts',
+          frontmatter: { tags: ['personal'], type: 'note', status: 'idea', modified: '2024-05-01' }
+        }
+      ]);
+    });
+
+    const search = async (query: string) => (await storage.searchNotes(query)).map(note => note.path).sort();
+
+    test('filters by fields', async () => {
+      expect(await search('tag:work')).toEqual(['Work/Meetings/standup.md', 'Work/plan.md']);
+      expect(await search('tag:work/puppet type:meeting')).toEqual(['Work/Meetings/standup.md']);
+      expect(await search('path:Work/** -status:archived')).toEqual(['Work/Meetings/standup.md']);
+      expect(await search('modified:>2024-01-01')).toEqual(['Personal/ideas.md', 'Work/Meetings/standup.md']);
+    });
+
+    test('treats notes without a date as not matching it', async () => {
+      expect(await search('created:2024-03-01')).toEqual(['Work/Meetings/standup.md']);
+      expect(await search('-created:2024-03-01')).toEqual(['Personal/ideas.md', 'Work/plan.md']);
+    });
+
+    test('combines text, phrases, OR and negation', async () => {
+      expect(await search('"exact phrase" OR gardening')).toEqual(['Personal/ideas.md', 'Work/plan.md']);
+      expect(await search('path:Work/** (rollout OR gardening) -type:meeting')).toEqual(['Work/plan.md']);
+      expect(await search('rollout -puppet')).toEqual(['Work/plan.md']);
+    });
+
+    test('rejects invalid queries', async () => {
+      await expect(storage.searchNotes('status:done')).rejects.toThrow('status must be one of');
+    });
+  });
+
+
+  describe('Match Snippets', () => {
+    beforeEach(async () => {
+      await storage.upsertNotes([
+        {
+          path: 'Work/rollout.md',
+          title: 'Puppet Rollout',
+          content: 'Intro line\n\nWe deploy puppet on Monday\nNothing here\nThe puppet agents follow',
+          frontmatter: { tags: ['work/puppet', 'ops'], modified: '2024-03-01' },
+          lineOffset: 3
+        },
+        {
+          path: 'Personal/garden.md',
+          title: 'Garden',
+          content: 'Tomatoes',
+          frontmatter: { tags: ['personal'], modified: '2024-02-01' }
+        }
+      ]);
+    });
+
+    test('reports title, content lines and tags that match the words', async () => {
+      const [note] = await storage.searchNotes('puppet', {});
+
+      expect(note.path).toBe('Work/rollout.md');
+      expect(note.matches).toEqual([
+        { field: 'title', text: 'Puppet Rollout', highlights: [[0, 6]] },
+        { field: 'content', line: 6, text: 'We deploy puppet on Monday', highlights: [[10, 16]] },
+        { field: 'content', line: 8, text: 'The puppet agents follow', highlights: [[4, 10]] },
+        { field: 'tag', text: 'work/puppet', highlights: [[5, 11]] }
+      ]);
+    });
+
+    test('highlights phrases and tags under a tag filter', async () => {
+      const [note] = await storage.searchNotes('"puppet agents" tag:work', {});
+
+      expect(note.matches).toEqual([
+        { field: 'content', line: 8, text: 'The puppet agents follow', highlights: [[4, 17]] },
+        { field: 'tag', text: 'work/puppet', highlights: [[0, 4]] }
+      ]);
+    });
+
+    test('shortens long lines around the match', async () => {
+      await storage.upsertNote({
+        path: 'long.md',
+        title: 'Long',
+        content: `${'lorem '.repeat(40)}kubernetes${' ipsum'.repeat(40)}`,
+        frontmatter: {}
+      });
+
+      const [note] = await storage.searchNotes('kubernetes', {});
+      const [match] = note.matches!;
+
+      expect(match.text.startsWith('…')).toBe(true);
+      expect(match.text.endsWith('…')).toBe(true);
+      expect(match.text.length).toBe(162);
+      expect(match.text.slice(match.highlights[0][0], match.highlights[0][1])).toBe('kubernetes');
+    });
+
+    test('leaves matches out when nothing is searched for', async () => {
+      const notes = await storage.searchNotes('', { type: 'note' });
+      expect(notes.every(note => note.matches === undefined)).toBe(true);
+    });
+  });
+
+
+  describe('Scoring', () => {
+    const today = new Date().toISOString().slice(0, 10);
+
+    beforeEach(async () => {
+      await storage.upsertNotes([
+        { path: 'title.md', title: 'Kubernetes', content: 'Cluster setup', frontmatter: { modified: '2024-01-01' } },
+        { path: 'content.md', title: 'Setup', content: 'Notes about kubernetes and other things', frontmatter: { modified: '2024-01-01' } },
+        { path: 'tagged.md', title: 'Cluster', content: 'Node pools', frontmatter: { tags: ['tech/kubernetes'], modified: '2024-01-01' } },
+        { path: 'meeting.md', title: 'Sync', content: 'Agenda', frontmatter: { type: 'meeting', modified: '2024-01-01' } },
+        { path: 'filler-1.md', title: 'Garden', content: 'Tomatoes', frontmatter: { modified: '2024-01-01' } },
+        { path: 'filler-2.md', title: 'Books', content: 'Reading list', frontmatter: { modified: '2024-01-01' } },
+        { path: 'filler-3.md', title: 'Travel', content: 'Packing list', frontmatter: { modified: '2024-01-01' } }
+      ]);
+    });
+
+    test('ranks title matches above tag and content matches, with a score on each result', async () => {
+      const results = await storage.searchNotes('kubernetes', {});
+
+      expect(results.map(note => note.path)).toEqual(['title.md', 'tagged.md', 'content.md']);
+      expect(results[0].score!).toBeGreaterThan(results[1].score!);
+      expect(results[1].score!).toBeGreaterThan(results[2].score!);
+      expect(results[2].score!).toBeGreaterThan(0);
+    });
+
+    test('searches frontmatter values', async () => {
+      expect((await storage.searchNotes('meeting', {})).map(note => note.path)).toEqual(['meeting.md']);
+    });
+
+    test('applies the configured column weights', async () => {
+      await storage.close();
+      storage = new DatabaseStorage(testVaultPath, { title: 1, tags: 1, frontmatter: 1, content: 10, recency: 1 });
+      await storage.initialize();
+
+      expect((await storage.searchNotes('kubernetes', {}))[0].path).toBe('content.md');
+    });
+
+    test('boosts recently modified notes', async () => {
+      await storage.upsertNote({ path: 'recent.md', title: 'Kubernetes', content: 'Cluster setup', frontmatter: { modified: today } });
+
+      const [first, second] = await storage.searchNotes('kubernetes', {});
+      expect(first.path).toBe('recent.md');
+      expect(second.path).toBe('title.md');
+      expect(first.score! / second.score!).toBeCloseTo(1.5, 1);
+    });
+
+    test('leaves the score out when there is no text to rank by', async () => {
+      const results = await storage.searchNotes('', { limit: 3 });
+      expect(results.every(note => note.score === undefined)).toBe(true);
+    });
+  });
+
+  describe('Search Modes', () => {
+    beforeEach(async () => {
+      await storage.upsertNotes([
+        {
+          path: 'lang.md',
+          title: 'Languages',
+          content: 'Notes on C++ templates and node.js streams, plus a follow-up on AND gates',
+          frontmatter: { tags: ['dev'], modified: '2024-02-01' }
+        },
+        {
+          path: 'roadmap.md',
+          title: 'Roadmap',
+          content: 'Deploy the puppet agents after the winter freeze',
+          frontmatter: { tags: ['work'], modified: '2024-03-01' }
+        },
+        {
+          path: 'cleanup.md',
+          title: 'Cleanup',
+          content: 'TODO: fix the unbalanced parser, see https://example.com',
+          frontmatter: { tags: ['dev'], modified: '2024-01-01' }
+        }
+      ]);
+    });
+
+    const search = async (query: string, mode?: 'plain' | 'advanced') =>
+      (await storage.searchNotes(query, { mode })).map(note => note.path);
+
+    test('searches FTS5 operators and punctuation as text in plain mode', async () => {
+      expect(await search('C++')).toEqual(['lang.md']);
+      expect(await search('node.js')).toEqual(['lang.md']);
+      expect(await search('follow-up')).toEqual(['lang.md']);
+      expect(await search('"AND" gates')).toEqual(['lang.md']);
+    });
+
+    test('searches what it cannot parse as text in plain mode', async () => {
+      expect(await search('"unbalanced')).toEqual(['cleanup.md']);
+      expect(await search('AND')).toEqual(['lang.md']);
+      expect(await search('TODO: fix')).toEqual(['cleanup.md']);
+      expect(await search('https://example.com')).toEqual(['cleanup.md']);
+      expect(await search('(deploy')).toEqual(['roadmap.md']);
+      expect(await search('title:roadmap')).toEqual([]);
+      expect(await search('winter - freeze')).toEqual(['roadmap.md']);
+      expect(await search('winter — freeze & agents / puppet')).toEqual(['roadmap.md']);
+      expect(await search('freeze -')).toEqual(['roadmap.md']);
+    });
+
+    test('still rejects invalid values of known fields in plain mode', async () => {
+      await expect(storage.searchNotes('type:essay')).rejects.toThrow('type must be one of');
+    });
+
+    test('passes FTS5 syntax through in advanced mode', async () => {
+      expect(await search('title:roadmap', 'advanced')).toEqual(['roadmap.md']);
+      expect(await search('NEAR(deploy freeze, 10)', 'advanced')).toEqual(['roadmap.md']);
+      expect(await search('NEAR(deploy freeze, 3)', 'advanced')).toEqual([]);
+      expect(await search('temp* OR puppet', 'advanced')).toHaveLength(2);
+    });
+
+    test('applies filters to advanced queries', async () => {
+      const results = await storage.searchNotes('temp* OR puppet', { mode: 'advanced', tags: ['work'] });
+      expect(results.map(note => note.path)).toEqual(['roadmap.md']);
+    });
+
+    test('reports invalid advanced queries clearly', async () => {
+      await expect(storage.searchNotes('"unbalanced', { mode: 'advanced' })).rejects.toThrow('unterminated quote at position 0');
+      await expect(storage.searchNotes('(deploy', { mode: 'advanced' })).rejects.toThrow('missing ")"');
+      await expect(storage.searchNotes('tag:work', { mode: 'advanced' })).rejects.toThrow('"tag" is not a searchable column');
+      await expect(storage.searchNotes('deploy AND', { mode: 'advanced' })).rejects.toThrow('Invalid advanced query: syntax error');
+    });
+  });
+
   describe('getNotesByTag', () => {
     beforeEach(async () => {
       const notes: Note[] = [
@@ -444,6 +1004,11 @@ describe('DatabaseStorage', () => {
       const results = await storage.getNotesByTag('nonexistent');
       expect(results.length).toBe(0);
     });
+
+    test('matches tags case-insensitively', async () => {
+      const results = await storage.getNotesByTag('WORK');
+      expect(results.map(n => n.path).sort()).toEqual(['work1.md', 'work2.md']);
+    });
   });
 
   describe('getRecentNotes', () => {
@@ -491,6 +1056,111 @@ describe('DatabaseStorage', () => {
     });
   });
 
+  describe('Note Chunks', () => {
+    const chunk = (line: number, text: string) => ({ line, text, vector: new Float32Array([line, 0.5]) });
+
+    test('stores chunks with their source hash per embedder', async () => {
+      await storage.upsertNotes([
+        { path: 'a.md', title: 'A', content: 'One', frontmatter: {} },
+        { path: 'b.md', title: 'B', content: 'Two', frontmatter: {} }
+      ]);
+      await storage.setNoteChunks('a.md', 'test-embedder', 'hash-a', [chunk(1, 'One'), { ...chunk(3, 'Three'), heading: 'Later' }]);
+
+      expect(await storage.getChunkSources('test-embedder')).toEqual(new Map([['a.md', 'hash-a']]));
+      expect(await storage.getChunkVectors()).toEqual([
+        { path: 'a.md', position: 0, line: 1, vector: new Float32Array([1, 0.5]) },
+        { path: 'a.md', position: 1, line: 3, heading: 'Later', vector: new Float32Array([3, 0.5]) }
+      ]);
+      expect(await storage.getChunkText('a.md', 1)).toBe('Three');
+      expect(await storage.getChunkText('a.md', 2)).toBeNull();
+    });
+
+    test('reads the vectors of the given notes only', async () => {
+      await storage.upsertNotes([
+        { path: 'a.md', title: 'A', content: 'One', frontmatter: {} },
+        { path: 'b.md', title: 'B', content: 'Two', frontmatter: {} }
+      ]);
+      await storage.setNoteChunks('a.md', 'test-embedder', 'hash', [chunk(1, 'One')]);
+      await storage.setNoteChunks('b.md', 'test-embedder', 'hash', [chunk(2, 'Two')]);
+
+      expect((await storage.getChunkVectors(['b.md', 'missing.md'])).map(c => c.path)).toEqual(['b.md']);
+    });
+
+    test('replaces the chunks of a note', async () => {
+      await storage.upsertNote({ path: 'a.md', title: 'A', content: 'One', frontmatter: {} });
+      await storage.setNoteChunks('a.md', 'test-embedder', 'old', [chunk(1, 'One'), chunk(2, 'Two')]);
+      await storage.setNoteChunks('a.md', 'test-embedder', 'new', [chunk(5, 'Five')]);
+
+      expect((await storage.getChunkVectors()).map(c => c.line)).toEqual([5]);
+      expect(await storage.getChunkText('a.md', 0)).toBe('Five');
+      expect((await storage.getChunkSources('test-embedder')).get('a.md')).toBe('new');
+    });
+
+    test('drops chunks made by another embedder', async () => {
+      await storage.upsertNote({ path: 'a.md', title: 'A', content: 'One', frontmatter: {} });
+      await storage.setNoteChunks('a.md', 'old-embedder', 'hash', [chunk(1, 'One')]);
+
+      expect((await storage.getChunkSources('new-embedder')).size).toBe(0);
+      expect(await storage.getChunkVectors()).toEqual([]);
+    });
+
+    test('removes chunks with their note', async () => {
+      await storage.upsertNotes([
+        { path: 'a.md', title: 'A', content: 'One', frontmatter: {} },
+        { path: 'b.md', title: 'B', content: 'Two', frontmatter: {} }
+      ]);
+      await storage.setNoteChunks('a.md', 'test-embedder', 'hash', [chunk(1, 'One')]);
+      await storage.setNoteChunks('b.md', 'test-embedder', 'hash', [chunk(1, 'Two')]);
+
+      await storage.deleteNote('a.md');
+      expect((await storage.getChunkVectors()).map(c => c.path)).toEqual(['b.md']);
+
+      await storage.clear();
+      expect(await storage.getChunkVectors()).toEqual([]);
+    });
+  });
+
+  describe('Journal', () => {
+    const entry = {
+      tool: 'append_to_note',
+      timestamp: '2025-01-10T09:00:00.000Z',
+      files: [
+        { path: 'a.md', before: 'old', after: 'new' },
+        { path: 'b.md', before: null, after: 'created' }
+      ]
+    };
+
+    test('stores entries and lists them newest first', async () => {
+      const first = await storage.addJournalEntry(entry);
+      const second = await storage.addJournalEntry({ ...entry, tool: 'delete_note' });
+
+      expect(second).toBeGreaterThan(first);
+      expect((await storage.getJournalEntries(10)).map(e => e.tool)).toEqual(['delete_note', 'append_to_note']);
+      expect(await storage.getJournalEntry(first)).toEqual({ id: first, ...entry });
+      expect(await storage.getJournalEntry(999)).toBeNull();
+    });
+
+    test('marks entries as undone', async () => {
+      const id = await storage.addJournalEntry(entry);
+      await storage.markJournalEntryUndone(id, 42);
+      expect((await storage.getJournalEntry(id))?.undoneBy).toBe(42);
+    });
+
+    test('survives clearing the index and schema rebuilds', async () => {
+      const id = await storage.addJournalEntry(entry);
+      await storage.clear();
+      await storage.close();
+
+      const raw = new Database(join(testVaultPath, '.obsidian-mcp', 'notes.db'));
+      raw.pragma('user_version = 0');
+      raw.close();
+
+      storage = new DatabaseStorage(testVaultPath);
+      await storage.initialize();
+      expect((await storage.getJournalEntry(id))?.files).toEqual(entry.files);
+    });
+  });
+
   describe('clear', () => {
     test('removes all notes from storage', async () => {
       const notes: Note[] = [
@@ -572,5 +1242,11 @@ describe('DatabaseStorage', () => {
       const results = await storage.searchNotes('', { tags: ['project', 'meeting'] });
       expect(results.length).toBe(2);
     });
+
+    test('matches the tags filter case-insensitively, as the tag: field does', async () => {
+      const results = await storage.searchNotes('', { tags: ['WORK'] });
+      expect(results.map(n => n.path).sort()).toEqual(['note1.md', 'note2.md']);
+      expect((await storage.searchNotes('tag:WORK')).map(n => n.path).sort()).toEqual(['note1.md', 'note2.md']);
+    });
   });
 });
@@ -0,0 +1,87 @@
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { HashingEmbedder, loadEmbedder, normalize, tokenize } from '../embeddings.js';
+
+function cosine(a: Float32Array, b: Float32Array): number {
+  return a.reduce((sum, value, index) => sum + value * b[index], 0);
+}
+
+describe('embeddings', () => {
+  test('tokenizes into lower-case words without stop words', () => {
+    expect(tokenize('How do we deploy the Puppet-agent, v2?')).toEqual(['deploy', 'puppet', 'agent', 'v2']);
+    expect(tokenize('Größe der Änderung')).toEqual(['größe', 'der', 'änderung']);
+  });
+
+  test('normalizes vectors to unit length', () => {
+    expect(normalize(new Float32Array([3, 4]))).toEqual(new Float32Array([0.6, 0.8]));
+    expect(normalize(new Float32Array([0, 0]))).toEqual(new Float32Array([0, 0]));
+  });
+
+  describe('HashingEmbedder', () => {
+    const embedder = new HashingEmbedder(256);
+
+    test('produces normalised vectors of the configured size, named after it', async () => {
+      const [vector] = await embedder.embed(['Puppet deployment checklist']);
+      expect(embedder.id).toBe('hashing-v1-256');
+      expect(vector).toHaveLength(256);
+      expect(cosine(vector, vector)).toBeCloseTo(1);
+    });
+
+    test('is deterministic', async () => {
+      const [first] = await embedder.embed(['Rolling back a release']);
+      const [second] = await new HashingEmbedder(256).embed(['Rolling back a release']);
+      expect(second).toEqual(first);
+    });
+
+    test('places texts sharing words and word forms closer than unrelated texts', async () => {
+      const [query, related, unrelated] = await embedder.embed([
+        'deploy puppet',
+        'Deployment notes for the puppet agents',
+        'Sourdough bread recipe with rye flour'
+      ]);
+      expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+      expect(cosine(query, related)).toBeGreaterThan(0.2);
+    });
+
+    test('embeds text without words as a zero vector', async () => {
+      const [vector] = await embedder.embed(['the ... of']);
+      expect(Array.from(vector).every(value => value === 0)).toBe(true);
+    });
+  });
+
+  describe('loadEmbedder', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'embedder-'));
+      await writeFile(join(dir, 'custom.mjs'), `
+        export function createEmbedder() {
+          return { id: 'custom-2', embed: async texts => texts.map(text => new Float32Array([text.length, 1])) };
+        }
+      `);
+      await writeFile(join(dir, 'missing.mjs'), 'export const nothing = 1;');
+      await writeFile(join(dir, 'invalid.mjs'), 'export async function createEmbedder() { return { id: 1 }; }');
+    });
+
+    afterAll(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    test('uses the hashing embedder when no module is given', async () => {
+      expect(await loadEmbedder()).toBeInstanceOf(HashingEmbedder);
+    });
+
+    test('loads an embedder from a module', async () => {
+      const embedder = await loadEmbedder(join(dir, 'custom.mjs'));
+      expect(embedder.id).toBe('custom-2');
+      expect(await embedder.embed(['abc'])).toEqual([new Float32Array([3, 1])]);
+    });
+
+    test('rejects modules that do not provide an embedder', async () => {
+      await expect(loadEmbedder(join(dir, 'missing.mjs'))).rejects.toThrow('must export a createEmbedder() function');
+      await expect(loadEmbedder(join(dir, 'invalid.mjs'))).rejects.toThrow('must return an object with an id and an embed() method');
+    });
+  });
+});
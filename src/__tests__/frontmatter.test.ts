@@ -0,0 +1,114 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  applyFrontmatterOperations,
+  findFrontmatterEnd,
+  replaceFrontmatter,
+  setFrontmatterDate,
+  validateFrontmatterOperation
+} from '../frontmatter.js';
+
+describe('Frontmatter helpers', () => {
+  describe('findFrontmatterEnd', () => {
+    test('returns the index of the closing delimiter', () => {
+      expect(findFrontmatterEnd(['---', 'a: 1', '---', 'Body'])).toBe(2);
+    });
+
+    test('returns -1 without frontmatter or without a closing delimiter', () => {
+      expect(findFrontmatterEnd(['Body', '---'])).toBe(-1);
+      expect(findFrontmatterEnd(['---', 'a: 1'])).toBe(-1);
+    });
+  });
+
+  describe('setFrontmatterDate', () => {
+    test('replaces the value and keeps its quote style', () => {
+      const raw = '---\ntitle:   spaced\nmodified: "2024-01-01"\ntags: [a]\n---\nBody';
+      expect(setFrontmatterDate(raw, 'modified', '2025-05-05')).toBe(
+        '---\ntitle:   spaced\nmodified: "2025-05-05"\ntags: [a]\n---\nBody'
+      );
+    });
+
+    test('quotes previously unquoted dates', () => {
+      expect(setFrontmatterDate('---\nmodified: 2024-01-01\n---\n', 'modified', '2025-05-05')).toBe(
+        "---\nmodified: '2025-05-05'\n---\n"
+      );
+    });
+
+    test('adds the field before the closing delimiter when missing', () => {
+      expect(setFrontmatterDate('---\r\ntitle: x\r\n---\r\nBody', 'modified', '2025-05-05')).toBe(
+        "---\r\ntitle: x\r\nmodified: '2025-05-05'\r\n---\r\nBody"
+      );
+    });
+
+    test('ignores keys that only share a prefix and files without frontmatter', () => {
+      expect(setFrontmatterDate('---\nmodified_by: me\n---\n', 'modified', '2025-05-05')).toBe(
+        "---\nmodified_by: me\nmodified: '2025-05-05'\n---\n"
+      );
+      expect(setFrontmatterDate('No frontmatter', 'modified', '2025-05-05')).toBe('No frontmatter');
+    });
+  });
+
+  describe('validateFrontmatterOperation', () => {
+    test('accepts valid operations', () => {
+      expect(validateFrontmatterOperation({ op: 'set', field: 'status', value: 'completed' })).toBeNull();
+      expect(validateFrontmatterOperation({ op: 'set', field: 'modified', value: '2025-01-31' })).toBeNull();
+      expect(validateFrontmatterOperation({ op: 'add', field: 'tags', value: ['a', 'b'] })).toBeNull();
+      expect(validateFrontmatterOperation({ op: 'unset', field: 'category' })).toBeNull();
+      expect(validateFrontmatterOperation({ op: 'set', field: 'owner', value: { name: 'x' } })).toBeNull();
+    });
+
+    test('rejects malformed operations', () => {
+      expect(validateFrontmatterOperation(null)).toContain('must be an object');
+      expect(validateFrontmatterOperation({ op: 'replace', field: 'x' })).toContain('Invalid op');
+      expect(validateFrontmatterOperation({ op: 'set', field: '' })).toContain('non-empty');
+      expect(validateFrontmatterOperation({ op: 'set', field: 'x' })).toContain('requires a value');
+      expect(validateFrontmatterOperation({ op: 'add', field: 'aliases', value: [{}] })).toContain('strings, numbers or booleans');
+    });
+
+    test('validates built-in fields', () => {
+      expect(validateFrontmatterOperation({ op: 'set', field: 'status', value: 'done' })).toBe('Invalid status: done');
+      expect(validateFrontmatterOperation({ op: 'set', field: 'type', value: 'essay' })).toBe('Invalid type: essay');
+      expect(validateFrontmatterOperation({ op: 'set', field: 'category', value: 'misc' })).toBe('Invalid category: misc');
+      expect(validateFrontmatterOperation({ op: 'set', field: 'created', value: '2025-02-30' })).toContain('YYYY-MM-DD');
+      expect(validateFrontmatterOperation({ op: 'add', field: 'status', value: 'active' })).toContain('not a list');
+      expect(validateFrontmatterOperation({ op: 'set', field: 'tags', value: 'single' })).toContain('array');
+    });
+  });
+
+  describe('applyFrontmatterOperations', () => {
+    test('applies operations in order without mutating the input', () => {
+      const data = { status: 'active', tags: ['a', 'b'], owner: 'me' };
+      const result = applyFrontmatterOperations(data, [
+        { op: 'set', field: 'status', value: 'completed' },
+        { op: 'add', field: 'tags', value: ['#c', 'a', 'c'] },
+        { op: 'remove', field: 'tags', value: 'b' },
+        { op: 'unset', field: 'owner' },
+        { op: 'add', field: 'aliases', value: 'Alias' }
+      ]);
+
+      expect(result).toEqual({ status: 'completed', tags: ['a', 'c'], aliases: ['Alias'] });
+      expect(data).toEqual({ status: 'active', tags: ['a', 'b'], owner: 'me' });
+    });
+
+    test('refuses to add to or remove from a scalar field', () => {
+      expect(() => applyFrontmatterOperations({ owner: 'me' }, [{ op: 'add', field: 'owner', value: 'you' }]))
+        .toThrow('"owner" is not a list');
+    });
+  });
+
+  describe('replaceFrontmatter', () => {
+    test('re-serialises the frontmatter and keeps the body exactly', () => {
+      const raw = '---\ncreated: 2025-01-02\ntags: [a]\n---\n\n# Body\n  indented  \n';
+      expect(replaceFrontmatter(raw, { created: new Date('2025-01-02'), tags: ['a', 'b'] })).toBe(
+        "---\ncreated: '2025-01-02'\ntags:\n  - a\n  - b\n---\n\n# Body\n  indented  \n"
+      );
+    });
+
+    test('adds frontmatter to notes without it', () => {
+      expect(replaceFrontmatter('Body', { status: 'idea' })).toBe('---\nstatus: idea\n---\nBody');
+    });
+
+    test('removes the block when no fields are left', () => {
+      expect(replaceFrontmatter('---\na: 1\n---\nBody', {})).toBe('Body');
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, test, expect } from '@jest/globals';
+import { checkAdvancedFtsQuery, describeFtsError, plainFtsQuery, quoteFtsTerm } from '../fts.js';
+import { QueryParseError, TextTerm } from '../query.js';
+
+const term = (text: string, prefix = false): TextTerm => ({ kind: 'text', text, phrase: false, prefix, position: 0 });
+
+describe('fts', () => {
+  describe('plain mode', () => {
+    test('quotes terms so their text is never read as syntax', () => {
+      expect(quoteFtsTerm(term('say "hi" NEAR'))).toBe('"say ""hi"" NEAR"');
+      expect(quoteFtsTerm(term('proj', true))).toBe('"proj"*');
+      expect(quoteFtsTerm(term('C++'))).toBe('"C++"');
+    });
+
+    test('joins terms with OR for ranking', () => {
+      expect(plainFtsQuery([term('node.js'), term('AND')])).toBe('"node.js" OR "AND"');
+    });
+  });
+
+  describe('advanced mode', () => {
+    test('accepts balanced quotes, escaped quotes and parentheses', () => {
+      expect(() => checkAdvancedFtsQuery('NEAR("a ""b""" c, 3) AND (title:x OR y*)')).not.toThrow();
+    });
+
+    test('reports unbalanced quotes and parentheses with their position', () => {
+      const position = (query: string) => {
+        try {
+          checkAdvancedFtsQuery(query);
+        } catch (error) {
+          if (error instanceof QueryParseError) return [error.reason, error.position];
+          throw error;
+        }
+        return null;
+      };
+
+      expect(position('foo "bar')).toEqual(['unterminated quote', 4]);
+      expect(position('"a ""b')).toEqual(['unterminated quote', 0]);
+      expect(position('(a (b)')).toEqual(['missing ")" for this "("', 0]);
+      expect(position('a) b')).toEqual(['unexpected ")"', 1]);
+    });
+
+    test('rewrites SQLite query errors and passes others through', () => {
+      expect((describeFtsError(new Error('no such column: tag'), 'tag:x') as Error).message)
+        .toBe('Invalid advanced query: "tag" is not a searchable column (use one of title:, content:, tags:, frontmatter:) in: tag:x');
+      expect((describeFtsError(new Error('fts5: syntax error near ""'), 'a AND') as Error).message)
+        .toBe('Invalid advanced query: syntax error near "" in: a AND');
+      const other = new Error('database is locked');
+      expect(describeFtsError(other, 'a')).toBe(other);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, test, expect } from '@jest/globals';
+import { LinkGraph } from '../graph.js';
+import { ResolvedLink } from '../types.js';
+
+function link(source: string, resolved: string | null): ResolvedLink {
+  return { source, target: resolved ?? 'missing', resolved, kind: 'wikilink', line: 1 };
+}
+
+describe('LinkGraph', () => {
+  // a -> b -> c -> d, e -> b, a -> b twice, plus a broken link and a self-link
+  const graph = new LinkGraph([
+    link('a.md', 'b.md'),
+    link('a.md', 'b.md'),
+    link('b.md', 'c.md'),
+    link('c.md', 'd.md'),
+    link('e.md', 'b.md'),
+    link('d.md', null),
+    link('d.md', 'd.md')
+  ]);
+
+  describe('neighborhood', () => {
+    test('follows links in both directions by default', () => {
+      const distances = graph.neighborhood('b.md', 1);
+      expect(Object.fromEntries(distances)).toEqual({ 'b.md': 0, 'a.md': 1, 'c.md': 1, 'e.md': 1 });
+    });
+
+    test('respects depth', () => {
+      const distances = graph.neighborhood('a.md', 3);
+      expect(distances.get('d.md')).toBe(3);
+      expect(distances.get('e.md')).toBe(2);
+    });
+
+    test('can follow only one direction', () => {
+      expect(Array.from(graph.neighborhood('b.md', 1, 'outgoing').keys())).toEqual(['b.md', 'c.md']);
+      expect(Array.from(graph.neighborhood('b.md', 1, 'incoming').keys()).sort()).toEqual(['a.md', 'b.md', 'e.md']);
+    });
+
+    test('does not traverse through disallowed notes', () => {
+      const distances = graph.neighborhood('a.md', 3, 'both', path => path !== 'c.md');
+      expect(distances.has('c.md')).toBe(false);
+      expect(distances.has('d.md')).toBe(false);
+    });
+  });
+
+  describe('shortestPath', () => {
+    test('finds the shortest chain', () => {
+      expect(graph.shortestPath('a.md', 'd.md')).toEqual(['a.md', 'b.md', 'c.md', 'd.md']);
+      expect(graph.shortestPath('e.md', 'a.md')).toEqual(['e.md', 'b.md', 'a.md']);
+    });
+
+    test('only follows links as written in outgoing mode', () => {
+      expect(graph.shortestPath('e.md', 'a.md', 'outgoing')).toBeNull();
+      expect(graph.shortestPath('d.md', 'a.md', 'outgoing')).toBeNull();
+    });
+
+    test('returns a single note for identical endpoints', () => {
+      expect(graph.shortestPath('a.md', 'a.md')).toEqual(['a.md']);
+    });
+
+    test('returns null for unconnected notes', () => {
+      expect(graph.shortestPath('a.md', 'z.md')).toBeNull();
+    });
+  });
+
+  describe('edges', () => {
+    test('collapses repeated links and ignores broken and self links', () => {
+      const edges = graph.edgesBetween(new Set(['a.md', 'b.md', 'd.md']));
+      expect(edges).toEqual([{ source: 'a.md', target: 'b.md', count: 2 }]);
+    });
+
+    test('finds the edge between adjacent notes in either direction', () => {
+      expect(graph.edgeBetween('b.md', 'a.md')).toEqual({ source: 'a.md', target: 'b.md', count: 2 });
+      expect(graph.edgeBetween('a.md', 'c.md')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, test, expect } from '@jest/globals';
+import { extractLinks, linkTargetName, LinkResolver, replaceLinkTargets } from '../links.js';
+import { NoteLink } from '../types.js';
+
+describe('Links', () => {
+  describe('extractLinks', () => {
+    test('parses plain wikilinks', () => {
+      expect(extractLinks('See [[Note]] here')).toEqual([
+        { target: 'Note', kind: 'wikilink', line: 1 }
+      ]);
+    });
+
+    test('parses aliases, headings and block references', () => {
+      const links = extractLinks('[[Note|Alias]] [[Note#Heading]] [[Note^block]] [[Note#^block|Alias]]');
+
+      expect(links).toEqual([
+        { target: 'Note', alias: 'Alias', kind: 'wikilink', line: 1 },
+        { target: 'Note', subpath: '#Heading', kind: 'wikilink', line: 1 },
+        { target: 'Note', subpath: '^block', kind: 'wikilink', line: 1 },
+        { target: 'Note', subpath: '#^block', alias: 'Alias', kind: 'wikilink', line: 1 }
+      ]);
+    });
+
+    test('parses embeds and folder paths', () => {
+      expect(extractLinks('![[Folder/Note.md]]')).toEqual([
+        { target: 'Folder/Note.md', kind: 'embed', line: 1 }
+      ]);
+    });
+
+    test('parses markdown links to local notes', () => {
+      const links = extractLinks('[Text](../Other%20Note.md#Section) and [Angle](<My Note.md>)');
+
+      expect(links).toEqual([
+        { target: '../Other Note.md', subpath: '#Section', alias: 'Text', kind: 'markdown', line: 1 },
+        { target: 'My Note.md', alias: 'Angle', kind: 'markdown', line: 1 }
+      ]);
+    });
+
+    test('ignores external URLs, attachments and same-note links', () => {
+      const body = '[site](https://example.com/a.md) ![[image.png]] [[#Heading]] [pdf](file.pdf) [mail](mailto:a@b.md)';
+      expect(extractLinks(body)).toEqual([]);
+    });
+
+    test('ignores links inside code', () => {
+      const body = '`[[Inline]]`\n```\n[[Fenced]]\n```\n[[Real]]';
+      expect(extractLinks(body).map(link => link.target)).toEqual(['Real']);
+    });
+
+    test('handles escaped pipes in tables', () => {
+      expect(extractLinks('| [[Note\\|Alias]] |')).toEqual([
+        { target: 'Note', alias: 'Alias', kind: 'wikilink', line: 1 }
+      ]);
+    });
+
+    test('applies the line offset', () => {
+      const links = extractLinks('first\n\n[[Third]]', 4);
+      expect(links[0].line).toBe(7);
+    });
+  });
+
+  describe('replaceLinkTargets', () => {
+    test('replaces only the target, keeping embeds, subpaths and aliases', () => {
+      const line = '![[Old#Heading|Alias]] and [[Old^block]] and [[Other]]';
+      const updated = replaceLinkTargets(line, 1, link => link.target === 'Old' ? 'New' : null);
+      expect(updated).toBe('![[New#Heading|Alias]] and [[New^block]] and [[Other]]');
+    });
+
+    test('keeps escaped table pipes', () => {
+      expect(replaceLinkTargets('| [[Old\\|Alias]] |', 1, () => 'New')).toBe('| [[New\\|Alias]] |');
+    });
+
+    test('passes the raw href of markdown links and keeps the fragment', () => {
+      const seen: string[] = [];
+      const updated = replaceLinkTargets('[Text](My%20Note.md#Top "Title") [x](<Some Note.md>)', 1, (link, rawTarget, syntax) => {
+        seen.push(`${syntax}:${rawTarget}`);
+        return link.target === 'My Note.md' ? 'Dir/Renamed.md' : 'Other.md';
+      });
+      expect(seen).toEqual(['markdown:My%20Note.md', 'markdown-angle:Some Note.md']);
+      expect(updated).toBe('[Text](Dir/Renamed.md#Top "Title") [x](<Other.md>)');
+    });
+
+    test('ignores links inside inline code', () => {
+      expect(replaceLinkTargets('`[[Old]]` [[Old]]', 1, () => 'New')).toBe('`[[Old]]` [[New]]');
+    });
+  });
+
+  describe('linkTargetName', () => {
+    test('returns the lowercased file name without extension', () => {
+      expect(linkTargetName('Folder/My Note.md')).toBe('my note');
+      expect(linkTargetName('My Note')).toBe('my note');
+      expect(linkTargetName('../Up/Note.MD')).toBe('note');
+    });
+  });
+
+  describe('LinkResolver', () => {
+    const paths = [
+      'Work/Meeting.md',
+      'Work/Alpha/Plan.md',
+      'Projects/Plan.md',
+      'Knowledge/Golang.md',
+      'Knowledge/Deep/Golang.md',
+      'Inbox.md'
+    ];
+    const resolver = new LinkResolver(paths);
+    const wikilink = (target: string): NoteLink => ({ target, kind: 'wikilink', line: 1 });
+
+    test('resolves by file name, case-insensitively and with optional extension', () => {
+      expect(resolver.resolve(wikilink('meeting'), 'Inbox.md')).toBe('Work/Meeting.md');
+      expect(resolver.resolve(wikilink('Meeting.md'), 'Inbox.md')).toBe('Work/Meeting.md');
+      expect(resolver.resolve(wikilink('INBOX'), 'Work/Meeting.md')).toBe('Inbox.md');
+    });
+
+    test('resolves full and partial paths', () => {
+      expect(resolver.resolve(wikilink('Projects/Plan'), 'Inbox.md')).toBe('Projects/Plan.md');
+      expect(resolver.resolve(wikilink('Alpha/Plan'), 'Inbox.md')).toBe('Work/Alpha/Plan.md');
+      expect(resolver.resolve(wikilink('Deep/Golang'), 'Inbox.md')).toBe('Knowledge/Deep/Golang.md');
+    });
+
+    test('prefers a note in the same folder for ambiguous names', () => {
+      expect(resolver.resolve(wikilink('Plan'), 'Work/Alpha/Other.md')).toBe('Work/Alpha/Plan.md');
+    });
+
+    test('falls back to the shortest path for ambiguous names', () => {
+      expect(resolver.resolve(wikilink('Plan'), 'Inbox.md')).toBe('Projects/Plan.md');
+      expect(resolver.resolve(wikilink('Golang'), 'Inbox.md')).toBe('Knowledge/Golang.md');
+    });
+
+    test('resolves markdown links relative to the source note', () => {
+      const link: NoteLink = { target: '../Projects/Plan.md', kind: 'markdown', line: 1 };
+      expect(resolver.resolve(link, 'Work/Meeting.md')).toBe('Projects/Plan.md');
+    });
+
+    test('returns null for broken links', () => {
+      expect(resolver.resolve(wikilink('Missing'), 'Inbox.md')).toBeNull();
+      expect(resolver.resolve(wikilink('Other/Plan'), 'Inbox.md')).toBeNull();
+    });
+  });
+});
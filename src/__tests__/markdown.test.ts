@@ -0,0 +1,75 @@
+import { describe, test, expect } from '@jest/globals';
+import { bodyLineOffset, forEachTextLine, maskInlineCode, parseHeading } from '../markdown.js';
+
+describe('Markdown helpers', () => {
+  describe('bodyLineOffset', () => {
+    test('counts frontmatter lines before the body', () => {
+      const raw = '---\ntags: [a]\n---\nBody';
+      expect(bodyLineOffset(raw, 'Body')).toBe(3);
+    });
+
+    test('returns 0 without frontmatter', () => {
+      expect(bodyLineOffset('Body', 'Body')).toBe(0);
+    });
+
+    test('returns 0 when the body is not a suffix of the file', () => {
+      expect(bodyLineOffset('---\na: 1\n---\nBody', 'Other')).toBe(0);
+    });
+  });
+
+  describe('forEachTextLine', () => {
+    test('reports file line numbers and skips fenced code blocks', () => {
+      const body = 'one\n```js\ncode\n```\ntwo\n~~~\nmore code\n~~~\nthree';
+      const seen: Array<[string, number]> = [];
+      forEachTextLine(body, 3, (line, lineNumber) => seen.push([line, lineNumber]));
+
+      expect(seen).toEqual([
+        ['one', 4],
+        ['two', 8],
+        ['three', 12]
+      ]);
+    });
+
+    test('only closes a fence with a matching marker', () => {
+      const body = '````\n```\nstill code\n````\ntext';
+      const seen: string[] = [];
+      forEachTextLine(body, 0, line => seen.push(line));
+
+      expect(seen).toEqual(['text']);
+    });
+
+    test('strips carriage returns', () => {
+      const seen: string[] = [];
+      forEachTextLine('a\r\nb', 0, line => seen.push(line));
+      expect(seen).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('maskInlineCode', () => {
+    test('blanks inline code while keeping offsets', () => {
+      const line = 'see `[[Not a link]]` and [[Link]]';
+      const masked = maskInlineCode(line);
+
+      expect(masked).toHaveLength(line.length);
+      expect(masked).not.toContain('Not a link');
+      expect(masked.indexOf('[[Link]]')).toBe(line.indexOf('[[Link]]'));
+    });
+
+    test('handles double-backtick spans', () => {
+      expect(maskInlineCode('``a ` b`` c').trim()).toBe('c');
+    });
+  });
+
+  describe('parseHeading', () => {
+    test('returns level and text, without closing hashes', () => {
+      expect(parseHeading('## Title')).toEqual({ level: 2, text: 'Title' });
+      expect(parseHeading('### Closed ###')).toEqual({ level: 3, text: 'Closed' });
+    });
+
+    test('rejects non-headings', () => {
+      expect(parseHeading('#tag')).toBeNull();
+      expect(parseHeading('    # indented code')).toBeNull();
+      expect(parseHeading('####### too deep')).toBeNull();
+    });
+  });
+});
@@ -62,6 +62,291 @@ describe('MemoryStorage', () => {
     });
   });
 
+  describe('deleteNote', () => {
+    test('removes the note and rebuilds search index', async () => {
+      await storage.upsertNotes([
+        { path: 'keep.md', title: 'Keep', content: 'Shared words', frontmatter: { tags: ['shared'] } },
+        { path: 'drop.md', title: 'Drop', content: 'Shared words', frontmatter: { tags: ['shared'] } }
+      ]);
+
+      await storage.deleteNote('drop.md');
+
+      expect(await storage.getNote('drop.md')).toBeNull();
+      const results = await storage.searchNotes('Shared');
+      expect(results.map(n => n.path)).toEqual(['keep.md']);
+      expect((await storage.getNotesByTag('shared')).length).toBe(1);
+    });
+
+    test('ignores unknown paths', async () => {
+      await expect(storage.deleteNote('missing.md')).resolves.toBeUndefined();
+    });
+
+    test('removes the old path when a note is renamed', async () => {
+      const note: Note = { path: 'Work/old.md', title: 'old', content: 'Renamed content', frontmatter: { tags: ['moved'] } };
+      await storage.upsertNote(note);
+
+      await storage.upsertNote({ ...note, path: 'Work/new.md', title: 'new' });
+      await storage.deleteNote('Work/old.md');
+
+      expect(await storage.getNotePaths()).toEqual(['Work/new.md']);
+      expect((await storage.searchNotes('Renamed')).map(n => n.path)).toEqual(['Work/new.md']);
+      expect((await storage.getNotesByTag('moved')).map(n => n.path)).toEqual(['Work/new.md']);
+    });
+  });
+
+  describe('deleteNotes', () => {
+    test('removes several notes at once', async () => {
+      await storage.upsertNotes([
+        { path: 'a.md', title: 'A', content: 'Bulk', frontmatter: {} },
+        { path: 'b.md', title: 'B', content: 'Bulk', frontmatter: {} },
+        { path: 'c.md', title: 'C', content: 'Bulk', frontmatter: {} }
+      ]);
+
+      await storage.deleteNotes(['a.md', 'c.md', 'missing.md']);
+
+      expect(await storage.getNotePaths()).toEqual(['b.md']);
+      expect((await storage.searchNotes('Bulk')).map(n => n.path)).toEqual(['b.md']);
+    });
+  });
+
+  describe('replaceNotes', () => {
+    test('removes and stores notes together', async () => {
+      await storage.upsertNotes([
+        { path: 'old.md', title: 'Old', content: 'Moved', frontmatter: {} },
+        { path: 'b.md', title: 'B', content: 'Other', frontmatter: {} }
+      ]);
+
+      await storage.replaceNotes(['old.md'], [{ path: 'new.md', title: 'New', content: 'Moved', frontmatter: {} }]);
+
+      expect((await storage.getNotePaths()).sort()).toEqual(['b.md', 'new.md']);
+      expect((await storage.searchNotes('Moved')).map(n => n.path)).toEqual(['new.md']);
+    });
+  });
+
+  describe('Note Chunks', () => {
+    const chunk = (line: number, text: string) => ({ line, text, vector: new Float32Array([line, 0.5]) });
+
+    test('stores chunks with their source hash per embedder', async () => {
+      await storage.upsertNotes([
+        { path: 'a.md', title: 'A', content: 'One', frontmatter: {} },
+        { path: 'b.md', title: 'B', content: 'Two', frontmatter: {} }
+      ]);
+      await storage.setNoteChunks('a.md', 'test-embedder', 'hash-a', [chunk(1, 'One'), { ...chunk(3, 'Three'), heading: 'Later' }]);
+
+      expect(await storage.getChunkSources('test-embedder')).toEqual(new Map([['a.md', 'hash-a']]));
+      expect(await storage.getChunkVectors()).toEqual([
+        { path: 'a.md', position: 0, line: 1, vector: new Float32Array([1, 0.5]) },
+        { path: 'a.md', position: 1, line: 3, heading: 'Later', vector: new Float32Array([3, 0.5]) }
+      ]);
+      expect(await storage.getChunkText('a.md', 1)).toBe('Three');
+      expect(await storage.getChunkText('a.md', 2)).toBeNull();
+    });
+
+    test('reads the vectors of the given notes only', async () => {
+      await storage.upsertNotes([
+        { path: 'a.md', title: 'A', content: 'One', frontmatter: {} },
+        { path: 'b.md', title: 'B', content: 'Two', frontmatter: {} }
+      ]);
+      await storage.setNoteChunks('a.md', 'test-embedder', 'hash', [chunk(1, 'One')]);
+      await storage.setNoteChunks('b.md', 'test-embedder', 'hash', [chunk(2, 'Two')]);
+
+      expect((await storage.getChunkVectors(['b.md', 'missing.md'])).map(c => c.path)).toEqual(['b.md']);
+    });
+
+    test('replaces the chunks of a note', async () => {
+      await storage.upsertNote({ path: 'a.md', title: 'A', content: 'One', frontmatter: {} });
+      await storage.setNoteChunks('a.md', 'test-embedder', 'old', [chunk(1, 'One'), chunk(2, 'Two')]);
+      await storage.setNoteChunks('a.md', 'test-embedder', 'new', [chunk(5, 'Five')]);
+
+      expect((await storage.getChunkVectors()).map(c => c.line)).toEqual([5]);
+      expect(await storage.getChunkText('a.md', 0)).toBe('Five');
+      expect((await storage.getChunkSources('test-embedder')).get('a.md')).toBe('new');
+    });
+
+    test('drops chunks made by another embedder', async () => {
+      await storage.upsertNote({ path: 'a.md', title: 'A', content: 'One', frontmatter: {} });
+      await storage.setNoteChunks('a.md', 'old-embedder', 'hash', [chunk(1, 'One')]);
+
+      expect((await storage.getChunkSources('new-embedder')).size).toBe(0);
+      expect(await storage.getChunkVectors()).toEqual([]);
+    });
+
+    test('removes chunks with their note', async () => {
+      await storage.upsertNotes([
+        { path: 'a.md', title: 'A', content: 'One', frontmatter: {} },
+        { path: 'b.md', title: 'B', content: 'Two', frontmatter: {} }
+      ]);
+      await storage.setNoteChunks('a.md', 'test-embedder', 'hash', [chunk(1, 'One')]);
+      await storage.setNoteChunks('b.md', 'test-embedder', 'hash', [chunk(1, 'Two')]);
+
+      await storage.deleteNote('a.md');
+      expect((await storage.getChunkVectors()).map(c => c.path)).toEqual(['b.md']);
+
+      await storage.clear();
+      expect(await storage.getChunkVectors()).toEqual([]);
+    });
+  });
+
+  describe('Journal', () => {
+    const entry = {
+      tool: 'append_to_note',
+      timestamp: '2025-01-10T09:00:00.000Z',
+      files: [{ path: 'a.md', before: 'old', after: 'new' }]
+    };
+
+    test('stores entries and lists them newest first', async () => {
+      const first = await storage.addJournalEntry(entry);
+      const second = await storage.addJournalEntry({ ...entry, tool: 'delete_note' });
+
+      expect((await storage.getJournalEntries(1)).map(e => e.id)).toEqual([second]);
+      expect(await storage.getJournalEntry(first)).toEqual({ id: first, ...entry });
+
+      await storage.markJournalEntryUndone(first, second);
+      expect((await storage.getJournalEntry(first))?.undoneBy).toBe(second);
+    });
+  });
+
+  describe('getFingerprints', () => {
+    test('returns fingerprints of stored notes', async () => {
+      await storage.upsertNotes([
+        { path: 'a.md', title: 'A', content: 'A', frontmatter: {}, fingerprint: { mtimeMs: 5, size: 10, hash: 'abc' } },
+        { path: 'b.md', title: 'B', content: 'B', frontmatter: {} }
+      ]);
+
+      const fingerprints = await storage.getFingerprints();
+      expect(Array.from(fingerprints.keys())).toEqual(['a.md']);
+      expect(fingerprints.get('a.md')).toEqual({ mtimeMs: 5, size: 10, hash: 'abc' });
+    });
+  });
+
+  describe('getNotePaths', () => {
+    test('applies search filters when options are given', async () => {
+      await storage.upsertNotes([
+        { path: 'Work/a.md', title: 'A', content: 'A', frontmatter: { tags: ['work/alpha'], category: 'work' } },
+        { path: 'Archive/c.md', title: 'C', content: 'C', frontmatter: { tags: ['work'], category: 'work' } },
+        { path: 'Life/d.md', title: 'D', content: 'D', frontmatter: { category: 'life' } }
+      ]);
+
+      expect((await storage.getNotePaths()).length).toBe(3);
+      expect(await storage.getNotePaths({ tags: ['work'] })).toEqual(['Work/a.md']);
+      expect(await storage.getNotePaths({ category: 'life' })).toEqual(['Life/d.md']);
+      expect((await storage.getNotePaths({ includeArchive: true })).length).toBe(3);
+    });
+  });
+
+  describe('getLinks', () => {
+    test('filters links by source and target name', async () => {
+      await storage.upsertNotes([
+        { path: 'a.md', title: 'a', content: '', frontmatter: {}, links: [{ target: 'Folder/C.md', kind: 'wikilink', line: 2 }] },
+        { path: 'b.md', title: 'b', content: '', frontmatter: {}, links: [{ target: 'a', kind: 'embed', line: 1 }] }
+      ]);
+
+      expect(await storage.getLinks({ source: 'a.md' })).toEqual([
+        { source: 'a.md', target: 'Folder/C.md', kind: 'wikilink', line: 2 }
+      ]);
+      expect((await storage.getLinks({ targetName: 'c' })).map(link => link.source)).toEqual(['a.md']);
+      expect((await storage.getLinks({ source: 'missing.md' }))).toEqual([]);
+      expect((await storage.getLinks()).length).toBe(2);
+    });
+  });
+
+  describe('Inline Tags', () => {
+    beforeEach(async () => {
+      await storage.upsertNotes([
+        { path: 'fm.md', title: 'fm', content: 'Alpha', frontmatter: { tags: ['project/alpha'] } },
+        { path: 'inline.md', title: 'inline', content: 'Alpha', frontmatter: {}, inlineTags: ['project/alpha'] }
+      ]);
+    });
+
+    test('matches both sources by default', async () => {
+      expect((await storage.getNotesByTag('project')).length).toBe(2);
+      expect((await storage.searchNotes('', { tags: ['project/alpha'] })).length).toBe(2);
+    });
+
+    test('restricts matches to one source', async () => {
+      expect((await storage.getNotesByTag('project', 'inline')).map(n => n.path)).toEqual(['inline.md']);
+      expect((await storage.searchNotes('', { tags: ['project'], tagSource: 'frontmatter' })).map(n => n.path)).toEqual(['fm.md']);
+    });
+  });
+
+  describe('getTagCounts', () => {
+    beforeEach(async () => {
+      await storage.upsertNotes([
+        { path: 'a.md', title: 'a', content: 'A', frontmatter: { modified: '2025-01-01', tags: ['work/puppet', 'work/puppet/ci'] } },
+        { path: 'b.md', title: 'b', content: 'B', frontmatter: { modified: '2025-03-01', tags: ['work'] }, inlineTags: ['work/golang'] },
+        { path: 'c.md', title: 'c', content: 'C', frontmatter: { tags: ['personal'] }, inlineTags: ['personal'] }
+      ]);
+    });
+
+    test('returns direct and rolled-up counts for every tag and ancestor', async () => {
+      expect(await storage.getTagCounts()).toEqual([
+        { tag: 'personal', directCount: 1, totalCount: 1, lastModified: null },
+        { tag: 'work', directCount: 1, totalCount: 2, lastModified: '2025-03-01' },
+        { tag: 'work/golang', directCount: 1, totalCount: 1, lastModified: '2025-03-01' },
+        { tag: 'work/puppet', directCount: 1, totalCount: 1, lastModified: '2025-01-01' },
+        { tag: 'work/puppet/ci', directCount: 1, totalCount: 1, lastModified: '2025-01-01' }
+      ]);
+    });
+
+    test('restricts counts to one tag source', async () => {
+      const counts = await storage.getTagCounts('inline');
+      expect(counts.map(count => count.tag)).toEqual(['personal', 'work', 'work/golang']);
+      expect(counts.find(count => count.tag === 'work')).toMatchObject({ directCount: 0, totalCount: 1 });
+    });
+  });
+
+  describe('queryTasks', () => {
+    beforeEach(async () => {
+      await storage.upsertNotes([
+        {
+          path: 'Work/meeting.md', title: 'meeting', content: '', frontmatter: { tags: ['work'] },
+          tasks: [
+            { line: 5, text: 'Later 📅 2025-03-01', description: 'Later', status: 'open', priority: 'normal', tags: [], due: '2025-03-01' },
+            { line: 6, text: 'Urgent #ops ⏫ 📅 2025-01-15', description: 'Urgent #ops', status: 'open', priority: 'high', heading: 'Actions', tags: ['ops/oncall'], due: '2025-01-15' },
+            { line: 7, text: 'Finished ✅ 2025-01-02', description: 'Finished', status: 'done', priority: 'normal', tags: [], done: '2025-01-02' }
+          ]
+        },
+        {
+          path: 'Dailies/today.md', title: 'today', content: '', frontmatter: {},
+          tasks: [{ line: 1, text: 'Undated', description: 'Undated', status: 'open', priority: 'low', tags: [] }]
+        },
+        {
+          path: 'Archive/old.md', title: 'old', content: '', frontmatter: {},
+          tasks: [{ line: 1, text: 'Old', description: 'Old', status: 'open', priority: 'normal', tags: [] }]
+        }
+      ]);
+    });
+
+    test('returns tasks ordered by due date with undated last, excluding the archive', async () => {
+      const tasks = await storage.queryTasks({});
+      expect(tasks.map(task => task.description)).toEqual(['Urgent #ops', 'Later', 'Undated', 'Finished']);
+      expect(tasks[0]).toMatchObject({ path: 'Work/meeting.md', line: 6, heading: 'Actions', tags: ['ops/oncall'] });
+    });
+
+    test('filters by status, priority and due range', async () => {
+      expect((await storage.queryTasks({ status: 'done' })).map(task => task.line)).toEqual([7]);
+      expect((await storage.queryTasks({ priority: 'low' })).map(task => task.path)).toEqual(['Dailies/today.md']);
+      expect((await storage.queryTasks({ dueFrom: '2025-02-01' })).map(task => task.line)).toEqual([5]);
+      expect((await storage.queryTasks({ dueTo: '2025-02-01' })).map(task => task.line)).toEqual([6]);
+    });
+
+    test('filters by task or note tag and by path', async () => {
+      expect((await storage.queryTasks({ tag: 'ops' })).map(task => task.line)).toEqual([6]);
+      expect((await storage.queryTasks({ tag: 'work' })).length).toBe(3);
+      expect((await storage.queryTasks({ path: 'Dailies/**' })).length).toBe(1);
+    });
+
+    test('includes archived notes and applies the limit on request', async () => {
+      expect((await storage.queryTasks({ includeArchive: true })).length).toBe(5);
+      expect((await storage.queryTasks({ limit: 2 })).length).toBe(2);
+    });
+
+    test('round-trips tasks on the note', async () => {
+      const note = await storage.getNote('Dailies/today.md');
+      expect(note?.tasks).toEqual([{ line: 1, text: 'Undated', description: 'Undated', status: 'open', priority: 'low', tags: [] }]);
+    });
+  });
+
   describe('clear', () => {
     test('clears all notes and resets search index', async () => {
       const notes: Note[] = [
@@ -381,6 +666,199 @@ describe('MemoryStorage', () => {
     });
   });
 
+  describe('Query Language', () => {
+    beforeEach(async () => {
+      await storage.upsertNotes([
+        {
+          path: 'Work/Meetings/standup.md',
+          title: 'Standup',
+          content: 'Discussed the puppet rollout schedule',
+          frontmatter: { tags: ['work/puppet'], type: 'meeting', status: 'active', created: '2024-03-01', modified: '2024-03-01' }
+        },
+        {
+          path: 'Work/plan.md',
+          title: 'Rollout Plan',
+          content: 'An exact phrase about the rollout',
+          frontmatter: { tags: ['work'], type: 'project', status: 'archived', modified: '2023-12-01' }
+        },
+        {
+          path: 'Personal/ideas.md',
+          title: 'Ideas',
+          content: 'Gardening thoughts',
+          frontmatter: { tags: ['personal'], type: 'note', status: 'idea', modified: '2024-05-01' }
+        }
+      ]);
+    });
+
+    const search = async (query: string) => (await storage.searchNotes(query)).map(note => note.path).sort();
+
+    test('filters by fields', async () => {
+      expect(await search('tag:work')).toEqual(['Work/Meetings/standup.md', 'Work/plan.md']);
+      expect(await search('tag:work/puppet type:meeting')).toEqual(['Work/Meetings/standup.md']);
+      expect(await search('path:Work/** -status:archived')).toEqual(['Work/Meetings/standup.md']);
+      expect(await search('modified:>2024-01-01')).toEqual(['Personal/ideas.md', 'Work/Meetings/standup.md']);
+    });
+
+    test('treats notes without a date as not matching it', async () => {
+      expect(await search('created:2024-03-01')).toEqual(['Work/Meetings/standup.md']);
+      expect(await search('-created:2024-03-01')).toEqual(['Personal/ideas.md', 'Work/plan.md']);
+    });
+
+    test('combines text, phrases, OR and negation', async () => {
+      expect(await search('"exact phrase" OR gardening')).toEqual(['Personal/ideas.md', 'Work/plan.md']);
+      expect(await search('path:Work/** (rollout OR gardening) -type:meeting')).toEqual(['Work/plan.md']);
+      expect(await search('rollout -puppet')).toEqual(['Work/plan.md']);
+    });
+
+    test('rejects invalid queries', async () => {
+      await expect(storage.searchNotes('status:done')).rejects.toThrow('status must be one of');
+    });
+  });
+
+
+
+  describe('Match Snippets', () => {
+    beforeEach(async () => {
+      await storage.upsertNotes([
+        {
+          path: 'Work/rollout.md',
+          title: 'Puppet Rollout',
+          content: 'Intro line\n\nWe deploy puppet on Monday\nNothing here\nThe puppet agents follow',
+          frontmatter: { tags: ['work/puppet', 'ops'], modified: '2024-03-01' },
+          lineOffset: 3
+        },
+        {
+          path: 'Personal/garden.md',
+          title: 'Garden',
+          content: 'Tomatoes',
+          frontmatter: { tags: ['personal'], modified: '2024-02-01' }
+        }
+      ]);
+    });
+
+    test('reports title, content lines and tags that match the words', async () => {
+      const [note] = await storage.searchNotes('puppet', {});
+
+      expect(note.path).toBe('Work/rollout.md');
+      expect(note.matches).toEqual([
+        { field: 'title', text: 'Puppet Rollout', highlights: [[0, 6]] },
+        { field: 'content', line: 6, text: 'We deploy puppet on Monday', highlights: [[10, 16]] },
+        { field: 'content', line: 8, text: 'The puppet agents follow', highlights: [[4, 10]] },
+        { field: 'tag', text: 'work/puppet', highlights: [[5, 11]] }
+      ]);
+    });
+
+    test('highlights phrases and tags under a tag filter', async () => {
+      const [note] = await storage.searchNotes('"puppet agents" tag:work', {});
+
+      expect(note.matches).toEqual([
+        { field: 'content', line: 8, text: 'The puppet agents follow', highlights: [[4, 17]] },
+        { field: 'tag', text: 'work/puppet', highlights: [[0, 4]] }
+      ]);
+    });
+
+    test('shortens long lines around the match', async () => {
+      await storage.upsertNote({
+        path: 'long.md',
+        title: 'Long',
+        content: `${'lorem '.repeat(40)}kubernetes${' ipsum'.repeat(40)}`,
+        frontmatter: {}
+      });
+
+      const [note] = await storage.searchNotes('kubernetes', {});
+      const [match] = note.matches!;
+
+      expect(match.text.startsWith('…')).toBe(true);
+      expect(match.text.endsWith('…')).toBe(true);
+      expect(match.text.length).toBe(162);
+      expect(match.text.slice(match.highlights[0][0], match.highlights[0][1])).toBe('kubernetes');
+    });
+
+    test('leaves matches out when nothing is searched for', async () => {
+      const notes = await storage.searchNotes('', { type: 'note' });
+      expect(notes.every(note => note.matches === undefined)).toBe(true);
+    });
+  });
+
+
+  describe('Scoring', () => {
+    const today = new Date().toISOString().slice(0, 10);
+
+    beforeEach(async () => {
+      await storage.upsertNotes([
+        { path: 'title.md', title: 'Kubernetes', content: 'Cluster setup', frontmatter: { modified: '2024-01-01' } },
+        { path: 'content.md', title: 'Setup', content: 'Notes about kubernetes and other things', frontmatter: { modified: '2024-01-01' } },
+        { path: 'tagged.md', title: 'Cluster', content: 'Node pools', frontmatter: { tags: ['tech/kubernetes'], modified: '2024-01-01' } },
+        { path: 'meeting.md', title: 'Sync', content: 'Agenda', frontmatter: { type: 'meeting', modified: '2024-01-01' } },
+        { path: 'filler-1.md', title: 'Garden', content: 'Tomatoes', frontmatter: { modified: '2024-01-01' } },
+        { path: 'filler-2.md', title: 'Books', content: 'Reading list', frontmatter: { modified: '2024-01-01' } },
+        { path: 'filler-3.md', title: 'Travel', content: 'Packing list', frontmatter: { modified: '2024-01-01' } }
+      ]);
+    });
+
+    test('ranks title matches above tag and content matches, with a score on each result', async () => {
+      const results = await storage.searchNotes('kubernetes', {});
+
+      expect(results.map(note => note.path)).toEqual(['title.md', 'tagged.md', 'content.md']);
+      expect(results[0].score!).toBeGreaterThan(results[1].score!);
+      expect(results[1].score!).toBeGreaterThan(results[2].score!);
+      expect(results[2].score!).toBeGreaterThan(0);
+    });
+
+    test('searches frontmatter values', async () => {
+      expect((await storage.searchNotes('meeting', {})).map(note => note.path)).toEqual(['meeting.md']);
+    });
+
+    test('applies the configured column weights', async () => {
+      const custom = new MemoryStorage({ title: 1, tags: 1, frontmatter: 1, content: 10 });
+      await custom.upsertNotes(await storage.getAllNotes());
+
+      expect((await custom.searchNotes('kubernetes', {}))[0].path).toBe('content.md');
+    });
+
+    test('boosts recently modified notes', async () => {
+      const boosted = new MemoryStorage({ title: 3, tags: 2.5, frontmatter: 2, content: 1, recency: 1.5 });
+      await boosted.upsertNotes(await storage.getAllNotes());
+      await boosted.upsertNote({ path: 'recent.md', title: 'Kubernetes', content: 'Cluster setup', frontmatter: { modified: today } });
+
+      const [first, second] = await boosted.searchNotes('kubernetes', {});
+      expect(first.path).toBe('recent.md');
+      expect(second.path).toBe('title.md');
+      expect(first.score! / second.score!).toBeCloseTo(1.5, 1);
+    });
+
+    test('leaves the score out when there is no text to rank by', async () => {
+      const results = await storage.searchNotes('', { limit: 3 });
+      expect(results.every(note => note.score === undefined)).toBe(true);
+    });
+  });
+
+  describe('Search Modes', () => {
+    test('searches what it cannot parse as text in plain mode', async () => {
+      await storage.upsertNotes([
+        { path: 'cleanup.md', title: 'Cleanup', content: 'TODO: fix the broken parser', frontmatter: {} },
+        { path: 'gates.md', title: 'Gates', content: 'Logic with AND gates', frontmatter: {} }
+      ]);
+
+      expect((await storage.searchNotes('"parser')).map(n => n.path)).toEqual(['cleanup.md']);
+      // Short words match fuzzily in memory, so other notes may come along
+      expect((await storage.searchNotes('AND')).map(n => n.path)).toContain('gates.md');
+      expect((await storage.searchNotes('TODO: fix')).map(n => n.path)).toEqual(['cleanup.md']);
+      expect((await storage.searchNotes('broken - parser')).map(n => n.path)).toEqual(['cleanup.md']);
+      expect((await storage.searchNotes('broken — parser & fix / todo')).map(n => n.path)).toEqual(['cleanup.md']);
+      expect((await storage.searchNotes('parser -')).map(n => n.path)).toEqual(['cleanup.md']);
+    });
+
+    test('rejects advanced queries, which need the SQLite index', async () => {
+      await expect(storage.searchNotes('title:roadmap', { mode: 'advanced' })).rejects.toThrow('not available with in-memory storage');
+    });
+
+    test('lists notes for an empty advanced query', async () => {
+      await storage.upsertNotes([{ path: 'a.md', title: 'A', content: 'text', frontmatter: {} }]);
+      expect(await storage.searchNotes('', { mode: 'advanced' })).toHaveLength(1);
+    });
+  });
+
   describe('Path Filtering', () => {
     beforeEach(async () => {
       const notes: Note[] = [
@@ -0,0 +1,47 @@
+import { describe, test, expect } from '@jest/globals';
+import { insertContent } from '../note-edit.js';
+
+describe('Note editing', () => {
+  describe('insertContent', () => {
+    const raw = '---\ntags: [log]\n---\n# Log\n\n## Monday\n- one\n\n## Tuesday\n- two\n';
+
+    test('appends at the end of the note', () => {
+      expect(insertContent(raw, '- three\n', { mode: 'append' })).toBe(raw + '- three\n');
+      expect(insertContent('No newline', 'more', { mode: 'append' })).toBe('No newline\nmore\n');
+    });
+
+    test('prepends right after the frontmatter', () => {
+      expect(insertContent(raw, 'Summary', { mode: 'prepend' })).toBe(
+        '---\ntags: [log]\n---\nSummary\n# Log\n\n## Monday\n- one\n\n## Tuesday\n- two\n'
+      );
+      expect(insertContent('Body', 'Top', { mode: 'prepend' })).toBe('Top\nBody');
+    });
+
+    test('inserts at the end of a heading section, before blank separator lines', () => {
+      expect(insertContent(raw, '- one more', { mode: 'heading', heading: 'monday' })).toBe(
+        '---\ntags: [log]\n---\n# Log\n\n## Monday\n- one\n- one more\n\n## Tuesday\n- two\n'
+      );
+    });
+
+    test('treats deeper headings as part of the section', () => {
+      expect(insertContent(raw, 'Footer', { mode: 'heading', heading: '# Log' })).toBe(raw + 'Footer\n');
+    });
+
+    test('creates a missing heading at the end of the note', () => {
+      expect(insertContent(raw, '- idea', { mode: 'heading', heading: 'Ideas', headingLevel: 3 })).toBe(
+        raw + '\n### Ideas\n- idea\n'
+      );
+    });
+
+    test('ignores headings inside code blocks', () => {
+      const withCode = '```\n## Fake\n```\nText';
+      expect(insertContent(withCode, 'x', { mode: 'heading', heading: 'Fake' })).toBe(withCode + '\n\n## Fake\nx\n');
+    });
+
+    test('keeps Windows line endings', () => {
+      expect(insertContent('---\r\na: 1\r\n---\r\nBody\r\n', 'New\nLines', { mode: 'prepend' })).toBe(
+        '---\r\na: 1\r\n---\r\nNew\r\nLines\r\nBody\r\n'
+      );
+    });
+  });
+});
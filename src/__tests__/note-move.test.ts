@@ -0,0 +1,89 @@
+import { describe, test, expect } from '@jest/globals';
+import { rewriteLinksForMove } from '../note-move.js';
+import { LinkResolver } from '../links.js';
+
+const paths = ['Inbox.md', 'Work/Plan.md', 'Work/Meeting.md', 'Projects/Plan.md', 'Ideas/Idea.md'];
+
+function resolvers(from: string, to: string): [LinkResolver, LinkResolver] {
+  return [new LinkResolver(paths), new LinkResolver(paths.map(path => path === from ? to : path))];
+}
+
+describe('rewriteLinksForMove', () => {
+  test('renames bare wikilinks and keeps aliases and suffixes', () => {
+    const [before, after] = resolvers('Ideas/Idea.md', 'Ideas/Concept.md');
+    const raw = '---\ntags: [a]\n---\nSee [[Idea]], ![[Idea#Heading]] and [[idea^block|the idea]].\n[[Inbox]]';
+
+    const result = rewriteLinksForMove(raw, 'Inbox.md', 'Ideas/Idea.md', 'Ideas/Concept.md', before, after);
+
+    expect(result.content).toBe('---\ntags: [a]\n---\nSee [[Concept]], ![[Concept#Heading]] and [[Concept^block|the idea]].\n[[Inbox]]');
+    expect(result.replacements).toBe(3);
+    expect(result.changes).toEqual([{
+      line: 4,
+      before: 'See [[Idea]], ![[Idea#Heading]] and [[idea^block|the idea]].',
+      after: 'See [[Concept]], ![[Concept#Heading]] and [[Concept^block|the idea]].'
+    }]);
+  });
+
+  test('keeps path-style wikilinks as paths, with or without extension', () => {
+    const [before, after] = resolvers('Ideas/Idea.md', 'Archive/Idea.md');
+    const raw = '[[Ideas/Idea]] [[Ideas/Idea.md|x]] [[Idea]]';
+
+    const result = rewriteLinksForMove(raw, 'Inbox.md', 'Ideas/Idea.md', 'Archive/Idea.md', before, after);
+
+    expect(result.content).toBe('[[Archive/Idea]] [[Archive/Idea.md|x]] [[Idea]]');
+    expect(result.replacements).toBe(2);
+  });
+
+  test('uses the full path when the new name is ambiguous', () => {
+    const [before, after] = resolvers('Ideas/Idea.md', 'Ideas/Plan.md');
+
+    const result = rewriteLinksForMove('[[Idea]]', 'Inbox.md', 'Ideas/Idea.md', 'Ideas/Plan.md', before, after);
+
+    expect(result.content).toBe('[[Ideas/Plan]]');
+  });
+
+  test('uses a longer path when the old name would resolve to another note', () => {
+    const [before, after] = resolvers('Work/Plan.md', 'Projects/Old/Plan.md');
+
+    const result = rewriteLinksForMove('[[Plan]]', 'Inbox.md', 'Work/Plan.md', 'Projects/Old/Plan.md', before, after);
+
+    expect(result.content).toBe('[[Projects/Old/Plan]]');
+  });
+
+  test('pins links that the moved note would otherwise take over', () => {
+    // A note moved next to Work/Meeting.md would win the same-folder preference for [[Idea]]
+    const [before, after] = resolvers('Projects/Plan.md', 'Work/Idea.md');
+
+    const result = rewriteLinksForMove('[[Idea]]', 'Work/Meeting.md', 'Projects/Plan.md', 'Work/Idea.md', before, after);
+
+    expect(result.content).toBe('[[Ideas/Idea]]');
+  });
+
+  test('rewrites relative markdown links, encoding spaces', () => {
+    const [before, after] = resolvers('Ideas/Idea.md', 'Work/Big Idea.md');
+    const raw = '[Idea](Ideas/Idea.md#Top) and [raw](<Ideas/Idea.md>)\r\nnext';
+
+    const result = rewriteLinksForMove(raw, 'Inbox.md', 'Ideas/Idea.md', 'Work/Big Idea.md', before, after);
+
+    expect(result.content).toBe('[Idea](Work/Big%20Idea.md#Top) and [raw](<Work/Big Idea.md>)\r\nnext');
+  });
+
+  test('updates relative links in the moved note itself', () => {
+    const [before, after] = resolvers('Work/Meeting.md', 'Projects/Sub/Meeting.md');
+    const raw = '[plan](../Projects/Plan.md) [[Inbox]]';
+
+    const result = rewriteLinksForMove(raw, 'Work/Meeting.md', 'Work/Meeting.md', 'Projects/Sub/Meeting.md', before, after);
+
+    expect(result.content).toBe('[plan](../Plan.md) [[Inbox]]');
+  });
+
+  test('leaves broken links and code blocks alone', () => {
+    const [before, after] = resolvers('Ideas/Idea.md', 'Ideas/Concept.md');
+    const raw = '[[Missing]]\n```\n[[Idea]]\n```';
+
+    const result = rewriteLinksForMove(raw, 'Inbox.md', 'Ideas/Idea.md', 'Ideas/Concept.md', before, after);
+
+    expect(result.content).toBe(raw);
+    expect(result.changes).toEqual([]);
+  });
+});
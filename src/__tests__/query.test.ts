@@ -0,0 +1,161 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  QueryNode,
+  QueryParseError,
+  compileQueryToPredicate,
+  compileQueryToSql,
+  parseQuery,
+  pathPatternToLike,
+  pathPatternToRegExp,
+  positiveTextTerms
+} from '../query.js';
+import { quoteFtsTerm } from '../fts.js';
+import { Note } from '../types.js';
+
+function parseError(query: string): QueryParseError {
+  try {
+    parseQuery(query);
+  } catch (error) {
+    if (error instanceof QueryParseError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${query}" to fail`);
+}
+
+describe('query', () => {
+  describe('parseQuery', () => {
+    test('returns null for an empty query', () => {
+      expect(parseQuery('')).toBeNull();
+      expect(parseQuery('   ')).toBeNull();
+    });
+
+    test('parses fields, negation, phrases and OR', () => {
+      expect(parseQuery('tag:work/puppet type:meeting path:Work/** modified:>2024-01-01 -status:archived "exact phrase" OR foo')).toEqual({
+        kind: 'or',
+        operands: [
+          {
+            kind: 'and',
+            operands: [
+              { kind: 'field', field: 'tag', value: 'work/puppet', operator: '=', position: 0 },
+              { kind: 'field', field: 'type', value: 'meeting', operator: '=', position: 16 },
+              { kind: 'field', field: 'path', value: 'Work/**', operator: '=', position: 29 },
+              { kind: 'field', field: 'modified', value: '2024-01-01', operator: '>', position: 42 },
+              { kind: 'not', operand: { kind: 'field', field: 'status', value: 'archived', operator: '=', position: 64 } },
+              { kind: 'text', text: 'exact phrase', phrase: true, prefix: false, position: 80 }
+            ]
+          },
+          { kind: 'text', text: 'foo', phrase: false, prefix: false, position: 98 }
+        ]
+      });
+    });
+
+    test('groups with parentheses and accepts explicit AND', () => {
+      const tree = parseQuery('(alpha OR beta) AND -(tag:x gamma*)');
+      expect(tree).toMatchObject({
+        kind: 'and',
+        operands: [
+          { kind: 'or', operands: [{ text: 'alpha' }, { text: 'beta' }] },
+          { kind: 'not', operand: { kind: 'and', operands: [{ field: 'tag', value: 'x' }, { text: 'gamma', prefix: true }] } }
+        ]
+      });
+    });
+
+    test('reads quoted field values and keeps hyphens inside words', () => {
+      expect(parseQuery('path:"My Notes/**" follow-up')).toMatchObject({
+        kind: 'and',
+        operands: [
+          { kind: 'field', field: 'path', value: 'My Notes/**' },
+          { kind: 'text', text: 'follow-up' }
+        ]
+      });
+    });
+
+    test('reports errors with their position', () => {
+      expect(parseError('foo "bar').position).toBe(4);
+      expect(parseError('foo "bar').message).toBe('Invalid query: unterminated quote at position 4\n  foo "bar\n      ^');
+      expect(parseError('tag: work').message).toContain('expected a value after "tag:" at position 4');
+      expect(parseError('colour:red').message).toContain('unknown field "colour"');
+      expect(parseError('type:essay').position).toBe(5);
+      expect(parseError('modified:>2024-13-01').position).toBe(10);
+      expect(parseError('foo OR').message).toContain('expected a term after OR');
+      expect(parseError('OR foo').message).toContain('expected a term before OR at position 0');
+      expect(parseError('(foo bar').message).toContain('missing ")" for this "(" at position 0');
+      expect(parseError('foo)').message).toContain('unexpected ")" at position 3');
+      expect(parseError('AND foo').position).toBe(0);
+    });
+
+    test('searches what it cannot parse as text when lenient', () => {
+      const words = (query: string) => positiveTextTerms(parseQuery(query, { lenient: true })).map(term => term.text);
+
+      expect(words('"unbalanced')).toEqual(['"unbalanced']);
+      expect(words('foo "" bar "')).toEqual(['foo', 'bar']);
+      expect(words('AND')).toEqual(['AND']);
+      expect(words('cats OR')).toEqual(['cats', 'OR']);
+      expect(words('(a OR OR b')).toEqual(['a', 'OR', 'b']);
+      expect(words('TODO: fix')).toEqual(['TODO:', 'fix']);
+      expect(words('https://example.com')).toEqual(['https://example.com']);
+      expect(words('foo) ()')).toEqual(['foo']);
+      expect(words('something - dash & more / less —')).toEqual(['something', 'dash', 'more', 'less']);
+      expect(words('foo -')).toEqual(['foo']);
+      expect(words('C++ -')).toEqual(['C++']);
+      expect(parseQuery('-(foo', { lenient: true })).toEqual({ kind: 'not', operand: expect.objectContaining({ text: 'foo' }) });
+      expect(parseQuery('tag:work', { lenient: true })).toMatchObject({ kind: 'field', field: 'tag', value: 'work' });
+      expect(() => parseQuery('type:essay', { lenient: true })).toThrow('type must be one of');
+    });
+  });
+
+  describe('path patterns', () => {
+    test('match globs case-insensitively, or any path containing a plain pattern', () => {
+      expect(pathPatternToRegExp('Work/**').test('work/meetings/a.md')).toBe(true);
+      expect(pathPatternToRegExp('Work/**').test('Archive/Work/a.md')).toBe(false);
+      expect(pathPatternToRegExp('*/2024-??-*.md').test('Dailies/2024-01-05.md')).toBe(true);
+      expect(pathPatternToRegExp('meetings').test('Work/Meetings/a.md')).toBe(true);
+      expect(pathPatternToRegExp('a+b.md').test('x/a+b.md')).toBe(true);
+    });
+
+    test('translate to equivalent LIKE patterns', () => {
+      expect(pathPatternToLike('Work/**')).toBe('Work/%');
+      expect(pathPatternToLike('*/2024-??-*.md')).toBe('%/2024-__-%.md');
+      expect(pathPatternToLike('100%_done')).toBe('%100\\%\\_done%');
+    });
+  });
+
+  describe('compilation', () => {
+    const tree = parseQuery('tag:work -status:archived (puppet OR "roll out") modified:>=2024-01-01') as QueryNode;
+
+    test('compiles to SQL with parameters in order', () => {
+      const { sql, params } = compileQueryToSql(tree, term => ({ sql: 'TEXT(?)', params: [quoteFtsTerm(term)] }));
+      expect(sql).toBe(
+        "(EXISTS (SELECT 1 FROM note_tags qt WHERE qt.note_path = n.path AND (LOWER(qt.tag) = LOWER(?) OR qt.tag LIKE ? ESCAPE '\\'))" +
+        ' AND NOT (n.status IS ?)' +
+        ' AND (TEXT(?) OR TEXT(?))' +
+        " AND (COALESCE(n.modified, '') <> '' AND n.modified >= ?))"
+      );
+      expect(params).toEqual(['work', 'work/%', 'archived', '"puppet"', '"roll out"', '2024-01-01']);
+    });
+
+    test('compiles to a predicate', () => {
+      const note = (path: string, tags: string[], status: 'active' | 'archived', modified: string, content: string): Note => ({
+        path,
+        title: path,
+        content,
+        frontmatter: { tags, status, modified }
+      });
+      const predicate = compileQueryToPredicate(
+        tree,
+        term => candidate => candidate.content.includes(term.text),
+        candidate => candidate.frontmatter.tags ?? []
+      );
+
+      expect(predicate(note('a.md', ['work/puppet'], 'active', '2024-02-01', 'puppet'))).toBe(true);
+      expect(predicate(note('b.md', ['work'], 'active', '2024-02-01', 'we roll out'))).toBe(true);
+      expect(predicate(note('c.md', ['work'], 'archived', '2024-02-01', 'puppet'))).toBe(false);
+      expect(predicate(note('d.md', ['homework'], 'active', '2024-02-01', 'puppet'))).toBe(false);
+      expect(predicate(note('e.md', ['work'], 'active', '', 'puppet'))).toBe(false);
+    });
+
+    test('collects the text terms that are not negated', () => {
+      expect(positiveTextTerms(parseQuery('alpha -beta (gamma OR tag:x)')).map(term => term.text)).toEqual(['alpha', 'gamma']);
+    });
+  });
+});
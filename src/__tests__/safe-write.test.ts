@@ -0,0 +1,66 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdir, readFile, readdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { VersionConflictError, contentHash, noteVersion, writeFileAtomic } from '../safe-write.js';
+
+describe('safe-write', () => {
+  describe('noteVersion', () => {
+    test('combines the rounded mtime with a hash prefix', () => {
+      const hash = contentHash('hello');
+      expect(noteVersion(1700000000123.6, hash)).toBe(`1700000000124-${hash.slice(0, 16)}`);
+    });
+
+    test('changes when the content changes', () => {
+      expect(noteVersion(1, contentHash('a'))).not.toBe(noteVersion(1, contentHash('b')));
+    });
+  });
+
+  describe('VersionConflictError', () => {
+    test('carries the current version and content', () => {
+      const error = new VersionConflictError('Note.md', 'old', 'new', 'current text');
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.message).toContain('Note.md has changed since version old was read');
+      expect(error.currentVersion).toBe('new');
+      expect(error.currentContent).toBe('current text');
+    });
+  });
+
+  describe('writeFileAtomic', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = join(tmpdir(), `safe-write-${Date.now()}`);
+      await mkdir(dir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    test('replaces the file and leaves no temporary file behind', async () => {
+      await writeFile(join(dir, 'Note.md'), 'before');
+
+      await writeFileAtomic(join(dir, 'Note.md'), 'after');
+
+      expect(await readFile(join(dir, 'Note.md'), 'utf-8')).toBe('after');
+      expect(await readdir(dir)).toEqual(['Note.md']);
+    });
+
+    test('refuses to replace an existing file in exclusive mode', async () => {
+      await writeFile(join(dir, 'Note.md'), 'before');
+
+      await expect(writeFileAtomic(join(dir, 'Note.md'), 'after', { exclusive: true })).rejects.toMatchObject({ code: 'EEXIST' });
+
+      expect(await readFile(join(dir, 'Note.md'), 'utf-8')).toBe('before');
+      expect(await readdir(dir)).toEqual(['Note.md']);
+    });
+
+    test('creates new files in exclusive mode', async () => {
+      await writeFileAtomic(join(dir, 'New.md'), 'content', { exclusive: true });
+      expect(await readFile(join(dir, 'New.md'), 'utf-8')).toBe('content');
+      expect(await readdir(dir)).toEqual(['New.md']);
+    });
+  });
+});
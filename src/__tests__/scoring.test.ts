@@ -0,0 +1,33 @@
+import { describe, test, expect } from '@jest/globals';
+import { recencyBoost, relevanceFromBm25, relevanceFromFuse, searchScore } from '../scoring.js';
+
+describe('scoring', () => {
+  const now = new Date('2025-03-31T00:00:00Z');
+
+  test('maps bm25 and Fuse.js scores to a relevance between 0 and 1', () => {
+    expect(relevanceFromBm25(0)).toBe(0);
+    expect(relevanceFromBm25(-1)).toBe(0.5);
+    expect(relevanceFromBm25(-9)).toBe(0.9);
+    expect(relevanceFromFuse(0)).toBe(1);
+    expect(relevanceFromFuse(0.25)).toBe(0.75);
+    expect(relevanceFromFuse(1.5)).toBe(0);
+  });
+
+  test('boosts recent notes by the recency weight, halving every half-life', () => {
+    expect(recencyBoost('2025-03-31', { recency: 1.5 }, now)).toBe(1.5);
+    expect(recencyBoost('2025-03-01', { recency: 1.5 }, now)).toBe(1.25);
+    expect(recencyBoost('2025-03-21', { recency: 3, recencyHalfLifeDays: 10 }, now)).toBe(2);
+  });
+
+  test('gives no boost without a date, a recency weight, or with a weight of 1', () => {
+    expect(recencyBoost('', { recency: 1.5 }, now)).toBe(1);
+    expect(recencyBoost('not a date', { recency: 1.5 }, now)).toBe(1);
+    expect(recencyBoost('2025-03-31', {}, now)).toBe(1);
+    expect(recencyBoost('2025-03-31', { recency: 1 }, now)).toBe(1);
+  });
+
+  test('multiplies relevance by the boost', () => {
+    expect(searchScore(0.5, '2025-03-31', { recency: 2 }, now)).toBe(1);
+    expect(searchScore(0.5, null, { recency: 2 }, now)).toBe(0.5);
+  });
+});
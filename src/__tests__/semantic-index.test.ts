@@ -0,0 +1,120 @@
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { HashingEmbedder } from '../embeddings.js';
+import { MemoryStorage } from '../memory-storage.js';
+import { SemanticIndex, chunkNote, reciprocalRankFusion } from '../semantic-index.js';
+import { Note } from '../types.js';
+
+describe('chunkNote', () => {
+  test('starts a chunk at each heading, with file line numbers', () => {
+    const body = ['Intro line', '', '## Setup', 'Install the agent', 'Then configure it', '', '## Usage', 'Run it'].join('\n');
+
+    expect(chunkNote(body, 4)).toEqual([
+      { line: 5, text: 'Intro line' },
+      { line: 8, heading: 'Setup', text: 'Install the agent\nThen configure it' },
+      { line: 12, heading: 'Usage', text: 'Run it' }
+    ]);
+  });
+
+  test('joins short paragraphs and splits long sections at paragraph breaks', () => {
+    const paragraph = 'word '.repeat(90).trim();
+    const body = ['Short one', '', 'Short two', '', paragraph, '', paragraph, '', paragraph].join('\n');
+    const chunks = chunkNote(body);
+
+    expect(chunks.map(chunk => chunk.line)).toEqual([1, 7, 9]);
+    expect(chunks[0].text.startsWith('Short one\nShort two\n')).toBe(true);
+  });
+
+  test('leaves out code blocks and gives an empty note one empty chunk', () => {
+    expect(chunkNote('```\ncode\n```\nText', 0)).toEqual([{ line: 4, text: 'Text' }]);
+    expect(chunkNote('', 3)).toEqual([{ line: 4, text: '' }]);
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  test('adds 1 / (k + rank) from each list', () => {
+    const scores = reciprocalRankFusion([['a', 'b'], ['b', 'c']], 10);
+
+    expect(scores.get('a')).toBeCloseTo(1 / 11);
+    expect(scores.get('b')).toBeCloseTo(1 / 12 + 1 / 11);
+    expect(scores.get('c')).toBeCloseTo(1 / 12);
+  });
+});
+
+describe('SemanticIndex', () => {
+  let storage: MemoryStorage;
+  let index: SemanticIndex;
+
+  const notes: Note[] = [
+    {
+      path: 'rollback.md',
+      title: 'Release Rollback',
+      content: '## Steps\nRevert the deployment and restore the previous puppet catalog.',
+      frontmatter: {},
+      lineOffset: 3,
+      fingerprint: { mtimeMs: 1, size: 10, hash: 'r1' }
+    },
+    {
+      path: 'bread.md',
+      title: 'Sourdough',
+      content: 'Feed the starter, then bake the bread with rye flour.',
+      frontmatter: {},
+      fingerprint: { mtimeMs: 1, size: 10, hash: 'b1' }
+    }
+  ];
+
+  beforeEach(async () => {
+    storage = new MemoryStorage({ title: 3, tags: 2.5, frontmatter: 2, content: 1 });
+    await storage.upsertNotes(notes);
+    index = new SemanticIndex(storage, new HashingEmbedder());
+  });
+
+  test('embeds new and changed notes only', async () => {
+    expect(await index.sync()).toBe(2);
+    expect(await index.sync()).toBe(0);
+
+    await storage.upsertNote({ ...notes[1], content: 'Changed', fingerprint: { mtimeMs: 2, size: 7, hash: 'b2' } });
+    expect(await index.sync()).toBe(1);
+  });
+
+  test('rebuilds chunks made by another embedder', async () => {
+    await index.sync();
+    expect(await new SemanticIndex(storage, new HashingEmbedder(64)).sync()).toBe(2);
+  });
+
+  test('finds the most similar passage of each note', async () => {
+    const hits = await index.search('how to revert a deploy', new Set(['rollback.md', 'bread.md']));
+
+    expect(hits[0].path).toBe('rollback.md');
+    expect(hits[0].chunk).toMatchObject({ line: 5, heading: 'Steps' });
+    expect(await index.passage(hits[0])).toEqual({
+      line: 5,
+      heading: 'Steps',
+      text: 'Revert the deployment and restore the previous puppet catalog.'
+    });
+    expect(hits[0].similarity).toBeGreaterThan(0);
+    expect(hits.find(hit => hit.path === 'bread.md')?.similarity ?? 0).toBeLessThan(hits[0].similarity);
+  });
+
+  test('only searches the given notes', async () => {
+    const hits = await index.search('revert deployment', new Set(['bread.md']));
+    expect(hits.every(hit => hit.path === 'bread.md')).toBe(true);
+  });
+
+  test('reads stored vectors once and keeps them up to date in memory', async () => {
+    await index.sync();
+    const reloaded = new SemanticIndex(storage, new HashingEmbedder());
+    const getChunkVectors = jest.spyOn(storage, 'getChunkVectors');
+
+    expect(await reloaded.sync()).toBe(0);
+    await reloaded.search('bread', new Set(['bread.md']));
+    expect(getChunkVectors).toHaveBeenCalledTimes(1);
+
+    await storage.upsertNote({ ...notes[1], content: 'Sourdough discard pancakes', fingerprint: { mtimeMs: 2, size: 26, hash: 'b2' } });
+    const [hit] = await reloaded.search('pancakes', new Set(['bread.md']));
+    expect(await reloaded.passage(hit)).toMatchObject({ text: 'Sourdough discard pancakes' });
+    expect(getChunkVectors).toHaveBeenCalledTimes(1);
+
+    await storage.deleteNote('bread.md');
+    expect(await reloaded.search('pancakes', new Set(['bread.md']))).toEqual([]);
+  });
+});
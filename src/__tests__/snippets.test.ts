@@ -0,0 +1,41 @@
+import { describe, test, expect } from '@jest/globals';
+import { HIGHLIGHT_CLOSE, HIGHLIGHT_OPEN, findPhraseRanges, fuzzyMatchRanges, parseHighlighted, tagMatches, textMatches } from '../snippets.js';
+
+describe('snippets', () => {
+  test('parseHighlighted strips markers and returns their ranges', () => {
+    expect(parseHighlighted(`a ${HIGHLIGHT_OPEN}b${HIGHLIGHT_CLOSE} c ${HIGHLIGHT_OPEN}dd${HIGHLIGHT_CLOSE}`)).toEqual({
+      text: 'a b c dd',
+      ranges: [[2, 3], [6, 8]]
+    });
+  });
+
+  test('findPhraseRanges finds every occurrence regardless of case', () => {
+    expect(findPhraseRanges('Roll out, roll OUT', 'roll out')).toEqual([[0, 8], [10, 18]]);
+  });
+
+  test('fuzzyMatchRanges keeps the runs long enough to be the word', () => {
+    expect(fuzzyMatchRanges([[4, 4], [14, 19], [47, 48]], 'puppet')).toEqual([[14, 20]]);
+  });
+
+  test('textMatches groups ranges by line and offsets line numbers', () => {
+    expect(textMatches('content', 'one\ntwo two\r\nthree', [[4, 7], [8, 11], [13, 18]], 2)).toEqual([
+      { field: 'content', line: 4, text: 'two two', highlights: [[0, 3], [4, 7]] },
+      { field: 'content', line: 5, text: 'three', highlights: [[0, 5]] }
+    ]);
+  });
+
+  test('textMatches reports at most five content lines', () => {
+    const text = Array.from({ length: 8 }, () => 'hit').join('\n');
+    const ranges = Array.from({ length: 8 }, (_, index): [number, number] => [index * 4, index * 4 + 3]);
+    expect(textMatches('content', text, ranges).map(match => match.line)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test('tagMatches matches tag filters, words and prefixes against tag segments', () => {
+    const word = (text: string, prefix = false) => ({ kind: 'text' as const, text, phrase: false, prefix, position: 0 });
+
+    expect(tagMatches(['work/puppet', 'homework', 'ops'], [word('puppet'), word('op', true)], ['work'])).toEqual([
+      { field: 'tag', text: 'work/puppet', highlights: [[0, 4], [5, 11]] },
+      { field: 'tag', text: 'ops', highlights: [[0, 2]] }
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, test, expect } from '@jest/globals';
+import { createTagRenamer, normalizeTagName, rewriteTags } from '../tag-rename.js';
+
+describe('Tag rename', () => {
+  describe('normalizeTagName', () => {
+    test('strips a leading # and surrounding slashes', () => {
+      expect(normalizeTagName('#work/puppet/')).toBe('work/puppet');
+      expect(normalizeTagName(' golang ')).toBe('golang');
+    });
+
+    test('rejects invalid tags', () => {
+      expect(normalizeTagName('')).toBeNull();
+      expect(normalizeTagName('has space')).toBeNull();
+      expect(normalizeTagName('a//b')).toBeNull();
+      expect(normalizeTagName('123')).toBeNull();
+    });
+  });
+
+  describe('createTagRenamer', () => {
+    test('renames exact matches case-insensitively', () => {
+      const rename = createTagRenamer(['work'], 'job', false);
+      expect(rename('work')).toBe('job');
+      expect(rename('Work')).toBe('job');
+      expect(rename('work/puppet')).toBeNull();
+      expect(rename('homework')).toBeNull();
+    });
+
+    test('renames hierarchical children when requested', () => {
+      const rename = createTagRenamer(['work'], 'job', true);
+      expect(rename('work/puppet/ci')).toBe('job/puppet/ci');
+      expect(rename('workshop')).toBeNull();
+    });
+
+    test('merges several tags into one', () => {
+      const rename = createTagRenamer(['go', 'golang'], 'lang/go', true);
+      expect(rename('go')).toBe('lang/go');
+      expect(rename('golang/tips')).toBe('lang/go/tips');
+    });
+  });
+
+  describe('rewriteTags', () => {
+    const rename = createTagRenamer(['work/puppet'], 'work/config', true);
+
+    test('rewrites flow-style frontmatter arrays and inline tags', () => {
+      const raw = '---\ntitle: x\ntags: [work/puppet, "work/puppet/ci", golang]\n---\nBody #work/puppet and #work/puppetry\n';
+      const result = rewriteTags(raw, rename);
+
+      expect(result.content).toBe('---\ntitle: x\ntags: [work/config, "work/config/ci", golang]\n---\nBody #work/config and #work/puppetry\n');
+      expect(result.replacements).toBe(3);
+      expect(result.changes).toEqual([
+        { line: 3, before: 'tags: [work/puppet, "work/puppet/ci", golang]', after: 'tags: [work/config, "work/config/ci", golang]' },
+        { line: 5, before: 'Body #work/puppet and #work/puppetry', after: 'Body #work/config and #work/puppetry' }
+      ]);
+    });
+
+    test('rewrites block-style lists and drops duplicates', () => {
+      const raw = '---\ntags:\n  - work/config\n  - work/puppet\n  - other\ntype: note\n---\nBody';
+      const result = rewriteTags(raw, rename);
+
+      expect(result.content).toBe('---\ntags:\n  - work/config\n  - other\ntype: note\n---\nBody');
+      expect(result.changes).toEqual([{ line: 4, before: '  - work/puppet', after: null }]);
+    });
+
+    test('leaves code, headings, URLs and other frontmatter keys alone', () => {
+      const raw = '---\naliases: [work/puppet]\n---\n# Heading #work/puppet\n`#work/puppet`\n```\n#work/puppet\n```\nhttps://x.test/#work/puppet';
+      const result = rewriteTags(raw, rename);
+
+      expect(result.content).toBe(raw);
+      expect(result.replacements).toBe(0);
+    });
+
+    test('preserves Windows line endings', () => {
+      const raw = '---\r\ntags: [work/puppet]\r\n---\r\nSee #work/puppet\r\n';
+      expect(rewriteTags(raw, rename).content).toBe('---\r\ntags: [work/config]\r\n---\r\nSee #work/config\r\n');
+    });
+
+    test('handles notes without frontmatter', () => {
+      expect(rewriteTags('#work/puppet first', rename).content).toBe('#work/config first');
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, test, expect } from '@jest/globals';
+import { buildTagTree, extractInlineTags, findInlineTags } from '../tags.js';
+
+describe('Tags', () => {
+  describe('extractInlineTags', () => {
+    test('extracts simple and hierarchical tags', () => {
+      expect(extractInlineTags('Working on #project/alpha with #golang.')).toEqual(['project/alpha', 'golang']);
+    });
+
+    test('extracts tags at line start, in lists and after punctuation', () => {
+      const body = '#start\n- item #listed\n(#paren) and,#comma';
+      expect(extractInlineTags(body)).toEqual(['start', 'listed', 'paren', 'comma']);
+    });
+
+    test('deduplicates tags', () => {
+      expect(extractInlineTags('#dup and #dup again')).toEqual(['dup']);
+    });
+
+    test('supports unicode, dashes and underscores', () => {
+      expect(extractInlineTags('#café #to-do #snake_case')).toEqual(['café', 'to-do', 'snake_case']);
+    });
+
+    test('ignores headings', () => {
+      expect(extractInlineTags('# Heading\n## Sub #nottag\nBody #real')).toEqual(['real']);
+    });
+
+    test('ignores code blocks and inline code', () => {
+      const body = '```\n#fenced\n```\n`#inline` #kept';
+      expect(extractInlineTags(body)).toEqual(['kept']);
+    });
+
+    test('ignores URLs, link anchors and wikilink headings', () => {
+      const body = 'https://example.com/page#anchor [text](other.md#section) [[Note#Heading]] #real';
+      expect(extractInlineTags(body)).toEqual(['real']);
+    });
+
+    test('ignores purely numeric tags and mid-word hashes', () => {
+      expect(extractInlineTags('Issue #123 and C# and a#b #v2')).toEqual(['v2']);
+    });
+
+    test('strips trailing slashes', () => {
+      expect(extractInlineTags('#area/')).toEqual(['area']);
+    });
+  });
+
+  describe('findInlineTags', () => {
+    test('reports tag offsets within the line', () => {
+      const line = 'See #work/puppet/ and `#code`';
+      expect(findInlineTags(line)).toEqual([{ tag: 'work/puppet', start: 5, end: 16 }]);
+      expect(line.slice(5, 16)).toBe('work/puppet');
+    });
+  });
+
+  describe('buildTagTree', () => {
+    test('nests tags under their parents', () => {
+      const tree = buildTagTree([
+        { tag: 'personal', directCount: 1, totalCount: 1, lastModified: null },
+        { tag: 'work', directCount: 0, totalCount: 2, lastModified: '2025-03-01' },
+        { tag: 'work/puppet', directCount: 2, totalCount: 2, lastModified: '2025-03-01' },
+        { tag: 'work/puppet/ci', directCount: 1, totalCount: 1, lastModified: '2025-01-01' }
+      ]);
+
+      expect(tree.map(node => node.tag)).toEqual(['personal', 'work']);
+      expect(tree[1].children).toHaveLength(1);
+      expect(tree[1].children[0]).toMatchObject({ name: 'puppet', tag: 'work/puppet', directCount: 2 });
+      expect(tree[1].children[0].children[0]).toMatchObject({ name: 'ci', totalCount: 1, children: [] });
+    });
+
+    test('returns an empty tree for no tags', () => {
+      expect(buildTagTree([])).toEqual([]);
+    });
+  });
+});
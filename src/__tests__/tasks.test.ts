@@ -0,0 +1,99 @@
+import { describe, test, expect } from '@jest/globals';
+import { extractTasks, parseTaskLine, updateTaskLine } from '../tasks.js';
+
+describe('Tasks', () => {
+  describe('parseTaskLine', () => {
+    test('parses open and completed checkboxes', () => {
+      expect(parseTaskLine('- [ ] Write report', 3)).toEqual({
+        line: 3,
+        text: 'Write report',
+        description: 'Write report',
+        status: 'open',
+        priority: 'normal',
+        tags: []
+      });
+      expect(parseTaskLine('* [x] Done thing', 1)?.status).toBe('done');
+      expect(parseTaskLine('1. [X] Numbered', 1)?.status).toBe('done');
+    });
+
+    test('maps in-progress, cancelled and custom statuses', () => {
+      expect(parseTaskLine('- [/] Started', 1)?.status).toBe('in_progress');
+      expect(parseTaskLine('- [-] Dropped', 1)?.status).toBe('cancelled');
+      expect(parseTaskLine('- [>] Forwarded', 1)?.status).toBe('open');
+    });
+
+    test('extracts Tasks-plugin dates and priority', () => {
+      const task = parseTaskLine('  - [x] Ship #release ⏫ 🛫 2025-01-01 ⏳ 2025-01-05 📅 2025-01-10 ✅ 2025-01-09', 7, 'Plan');
+
+      expect(task).toMatchObject({
+        line: 7,
+        description: 'Ship #release',
+        heading: 'Plan',
+        tags: ['release'],
+        priority: 'high',
+        start: '2025-01-01',
+        scheduled: '2025-01-05',
+        due: '2025-01-10',
+        done: '2025-01-09'
+      });
+    });
+
+    test('recognises emoji with a variation selector', () => {
+      expect(parseTaskLine('- [ ] Wait ⏳️ 2025-02-01 🔽', 1)).toMatchObject({ scheduled: '2025-02-01', priority: 'low' });
+    });
+
+    test('ignores lines that are not checkbox list items', () => {
+      expect(parseTaskLine('[ ] no bullet', 1)).toBeNull();
+      expect(parseTaskLine('- [link](x.md)', 1)).toBeNull();
+      expect(parseTaskLine('- plain item', 1)).toBeNull();
+    });
+  });
+
+  describe('extractTasks', () => {
+    test('tracks headings and file line numbers and skips code blocks', () => {
+      const body = '# Meeting\n- [ ] First\n```\n- [ ] In code\n```\n## Follow-up ##\n- [x] Second';
+      const tasks = extractTasks(body, 3);
+
+      expect(tasks.map(task => [task.text, task.line, task.heading])).toEqual([
+        ['First', 5, 'Meeting'],
+        ['Second', 10, 'Follow-up']
+      ]);
+    });
+
+    test('returns no tasks for notes without checkboxes', () => {
+      expect(extractTasks('Just text\n- item')).toEqual([]);
+    });
+  });
+
+  describe('updateTaskLine', () => {
+    test('completes a task and appends the done date', () => {
+      expect(updateTaskLine('- [ ] Ship it 📅 2025-01-10', { status: 'done', doneDate: '2025-01-09' }))
+        .toBe('- [x] Ship it 📅 2025-01-10 ✅ 2025-01-09');
+    });
+
+    test('re-opens a task and removes the done date', () => {
+      expect(updateTaskLine('  * [x] Ship it ✅ 2025-01-09 ^block', { status: 'open' })).toBe('  * [ ] Ship it ^block');
+    });
+
+    test('does not add a second done date to a completed task', () => {
+      expect(updateTaskLine('- [x] Ship it ✅ 2025-01-09', { status: 'done', doneDate: '2025-02-01' }))
+        .toBe('- [x] Ship it ✅ 2025-01-09');
+    });
+
+    test('sets, replaces and removes the due date', () => {
+      expect(updateTaskLine('- [ ] Plan', { due: '2025-03-01' })).toBe('- [ ] Plan 📅 2025-03-01');
+      expect(updateTaskLine('- [ ] Plan 📅 2025-03-01 #work', { due: '2025-04-01' })).toBe('- [ ] Plan #work 📅 2025-04-01');
+      expect(updateTaskLine('- [x] Plan ✅ 2025-01-01', { due: '2025-04-01' })).toBe('- [x] Plan 📅 2025-04-01 ✅ 2025-01-01');
+      expect(updateTaskLine('- [ ] Plan 📅 2025-03-01', { due: null })).toBe('- [ ] Plan');
+    });
+
+    test('sets other statuses', () => {
+      expect(updateTaskLine('1. [ ] Start', { status: 'in_progress' })).toBe('1. [/] Start');
+      expect(updateTaskLine('- [x] Drop ✅ 2025-01-01', { status: 'cancelled' })).toBe('- [-] Drop');
+    });
+
+    test('rejects lines that are not tasks', () => {
+      expect(() => updateTaskLine('- plain', { status: 'done' })).toThrow('not a checkbox task');
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, test, expect } from '@jest/globals';
+import { formatTemplateDate, renderTemplate } from '../templates.js';
+
+describe('templates', () => {
+  const now = new Date(2025, 0, 9, 7, 5, 3);
+
+  describe('formatTemplateDate', () => {
+    test('replaces moment-style tokens and keeps other characters', () => {
+      expect(formatTemplateDate(now, 'YYYY-MM-DD')).toBe('2025-01-09');
+      expect(formatTemplateDate(now, 'DD.MM.YY HH:mm:ss')).toBe('09.01.25 07:05:03');
+      expect(formatTemplateDate(now, '[Week of] YYYY')).toBe('[Week of] 2025');
+    });
+  });
+
+  describe('renderTemplate', () => {
+    test('substitutes title, date and time with default and custom formats', () => {
+      const { content, unresolved } = renderTemplate(
+        '---\ncreated: {{date}}\n---\n# {{title}}\n{{date:DD/MM/YYYY}} at {{time}} ({{ time:HH:mm:ss }})',
+        { title: 'Standup', now }
+      );
+
+      expect(content).toBe('---\ncreated: 2025-01-09\n---\n# Standup\n09/01/2025 at 07:05 (07:05:03)');
+      expect(unresolved).toEqual([]);
+    });
+
+    test('substitutes caller variables and reports the ones without a value', () => {
+      const { content, unresolved } = renderTemplate(
+        'Project: {{project}}\nOwner: {{owner}}\n<% tp.file.title %>',
+        { title: 'Note', now, variables: { project: 'Website' } }
+      );
+
+      expect(content).toBe('Project: Website\nOwner: {{owner}}\n<% tp.file.title %>');
+      expect(unresolved).toEqual(['owner']);
+    });
+
+    test('matches built-in names case-insensitively', () => {
+      expect(renderTemplate('{{Title}} {{DATE}}', { title: 'Plan', now }).content).toBe('Plan 2025-01-09');
+    });
+  });
+});
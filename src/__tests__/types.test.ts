@@ -1,4 +1,4 @@
-import { parseDate, isValidType, isValidStatus, isValidCategory } from '../types.js';
+import { parseDate, formatDate, isValidType, isValidStatus, isValidCategory, isValidTagSource, isValidTaskStatus, isValidTaskPriority } from '../types.js';
 
 describe('parseDate', () => {
   test('parses valid YYYY-MM-DD date', () => {
@@ -76,3 +76,54 @@ describe('isValidCategory', () => {
     expect(isValidCategory(undefined)).toBe(false);
   });
 });
+
+describe('isValidTagSource', () => {
+  test('returns true for valid tag sources', () => {
+    expect(isValidTagSource('frontmatter')).toBe(true);
+    expect(isValidTagSource('inline')).toBe(true);
+  });
+
+  test('returns false for invalid tag sources', () => {
+    expect(isValidTagSource('body')).toBe(false);
+    expect(isValidTagSource('')).toBe(false);
+    expect(isValidTagSource(undefined)).toBe(false);
+  });
+});
+
+describe('formatDate', () => {
+  test('formats dates as zero-padded YYYY-MM-DD', () => {
+    expect(formatDate(new Date(2025, 0, 5))).toBe('2025-01-05');
+    expect(formatDate(new Date(2025, 11, 31))).toBe('2025-12-31');
+  });
+
+  test('round-trips through parseDate', () => {
+    expect(formatDate(parseDate('2024-02-29')!)).toBe('2024-02-29');
+  });
+});
+
+describe('isValidTaskStatus', () => {
+  test('returns true for valid task statuses', () => {
+    expect(isValidTaskStatus('open')).toBe(true);
+    expect(isValidTaskStatus('done')).toBe(true);
+    expect(isValidTaskStatus('in_progress')).toBe(true);
+    expect(isValidTaskStatus('cancelled')).toBe(true);
+  });
+
+  test('returns false for invalid task statuses', () => {
+    expect(isValidTaskStatus('completed')).toBe(false);
+    expect(isValidTaskStatus(undefined)).toBe(false);
+  });
+});
+
+describe('isValidTaskPriority', () => {
+  test('returns true for valid task priorities', () => {
+    expect(isValidTaskPriority('highest')).toBe(true);
+    expect(isValidTaskPriority('normal')).toBe(true);
+    expect(isValidTaskPriority('lowest')).toBe(true);
+  });
+
+  test('returns false for invalid task priorities', () => {
+    expect(isValidTaskPriority('urgent')).toBe(false);
+    expect(isValidTaskPriority(1)).toBe(false);
+  });
+});
@@ -1,7 +1,8 @@
 /* global setTimeout */
 import { ObsidianVault } from "../vault.js";
-import { VaultConfig } from "../types.js";
-import { mkdir, writeFile, rm } from "fs/promises";
+import { VersionConflictError } from "../safe-write.js";
+import { VaultConfig, formatDate } from "../types.js";
+import { mkdir, writeFile, readFile, rm, rename, unlink, stat, utimes } from "fs/promises";
 import { join } from "path";
 import { tmpdir } from "os";
 
@@ -401,6 +402,74 @@ describe("ObsidianVault", () => {
     });
   });
 
+  describe("Search Matches", () => {
+    test("reports content matches with their line number in the file", async () => {
+      await writeFile(
+        join(testVaultPath, "Work", "deploy.md"),
+        "---\ntags: [work]\n---\n# Deploy\n\nRoll out the puppet agents",
+      );
+
+      await vault.initialize();
+      const [note] = await vault.searchNotes('"puppet agents"', {});
+
+      expect(note.matches).toEqual([
+        { field: "content", line: 6, text: "Roll out the puppet agents", highlights: [[13, 26]] },
+      ]);
+    });
+  });
+
+  describe("Semantic Search", () => {
+    beforeEach(async () => {
+      await mkdir(join(testVaultPath, "Personal"), { recursive: true });
+      await writeFile(
+        join(testVaultPath, "Work", "rollback.md"),
+        "---\ntags: [work]\n---\n# Release Rollback\n\n## Steps\nRevert the deployment and restore the previous puppet catalog.",
+      );
+      await writeFile(
+        join(testVaultPath, "Personal", "bread.md"),
+        "---\ntags: [cooking]\n---\nFeed the starter, then bake the bread with rye flour.",
+      );
+    });
+
+    test("is refused unless enabled", async () => {
+      await vault.initialize();
+      await expect(vault.semanticSearch("rollback")).rejects.toThrow("Semantic search is disabled");
+    });
+
+    test("finds notes by their most similar passage", async () => {
+      vault = new ObsidianVault({ ...config, semanticSearch: true });
+      await vault.initialize();
+
+      const [first] = await vault.semanticSearch("how do I revert a deploy", {}, "vector");
+      expect(first.note.path).toBe("Work/rollback.md");
+      expect(first.score).toBe(first.similarity);
+      expect(first.passage).toEqual({
+        line: 7,
+        heading: "Steps",
+        text: "Revert the deployment and restore the previous puppet catalog.",
+      });
+    });
+
+    test("fuses keyword and vector rankings in hybrid mode", async () => {
+      vault = new ObsidianVault({ ...config, semanticSearch: true });
+      await vault.initialize();
+
+      const results = await vault.semanticSearch("puppet catalog");
+      expect(results[0].note.path).toBe("Work/rollback.md");
+      // Found both ways: one reciprocal rank from each list
+      expect(results[0].score).toBeCloseTo(2 / 61);
+    });
+
+    test("applies filters and the limit", async () => {
+      vault = new ObsidianVault({ ...config, semanticSearch: true });
+      await vault.initialize();
+
+      const filtered = await vault.semanticSearch("bread deployment", { path: "Personal/**" });
+      expect(filtered.map(result => result.note.path)).toEqual(["Personal/bread.md"]);
+      expect(await vault.semanticSearch("bread deployment", { limit: 1 })).toHaveLength(1);
+    });
+  });
+
   describe("Error Handling", () => {
     test("handles vault with no markdown files", async () => {
       await vault.initialize();
@@ -498,4 +567,1007 @@ describe("ObsidianVault", () => {
       expect(notes).toBeDefined();
     });
   });
+  describe("Links", () => {
+    beforeEach(async () => {
+      await mkdir(join(testVaultPath, "Knowledge"), { recursive: true });
+      await writeFile(
+        join(testVaultPath, "Work", "hub.md"),
+        "---\ntags: [hub]\n---\n# Hub\n\nSee [[golang|Go]] and [[Knowledge/Rust#Ownership]].\n![[Missing Note]]\n[Spec](../Knowledge/golang.md)",
+      );
+      await writeFile(join(testVaultPath, "Knowledge", "Golang.md"), "Back to [[Hub]]");
+      await writeFile(join(testVaultPath, "Knowledge", "Rust.md"), "No links here");
+      await vault.initialize();
+    });
+
+    test("extracts links with file line numbers", async () => {
+      const note = await vault.getNote(join("Work", "hub.md"));
+      expect(note?.links?.map((link) => [link.target, link.line])).toEqual([
+        ["golang", 6],
+        ["Knowledge/Rust", 6],
+        ["Missing Note", 7],
+        ["../Knowledge/golang.md", 8],
+      ]);
+    });
+
+    test("resolves outgoing links", async () => {
+      const links = await vault.getOutgoingLinks(join("Work", "hub.md"));
+      expect(links?.map((link) => link.resolved)).toEqual([
+        join("Knowledge", "Golang.md"),
+        join("Knowledge", "Rust.md"),
+        null,
+        join("Knowledge", "Golang.md"),
+      ]);
+      expect(links?.[0].alias).toBe("Go");
+      expect(links?.[1].subpath).toBe("#Ownership");
+      expect(links?.[2].kind).toBe("embed");
+    });
+
+    test("finds backlinks", async () => {
+      const backlinks = await vault.getBacklinks(join("Knowledge", "Golang.md"));
+      expect(backlinks?.length).toBe(2);
+      expect(backlinks?.every((link) => link.source === join("Work", "hub.md"))).toBe(true);
+
+      const hubBacklinks = await vault.getBacklinks(join("Work", "hub.md"));
+      expect(hubBacklinks?.map((link) => link.source)).toEqual([join("Knowledge", "Golang.md")]);
+      expect(await vault.getBacklinks(join("Knowledge", "Rust.md"))).toHaveLength(1);
+    });
+
+    test("returns null for notes that are not indexed", async () => {
+      expect(await vault.getBacklinks("missing.md")).toBeNull();
+      expect(await vault.getOutgoingLinks("missing.md")).toBeNull();
+    });
+
+    test("resolves links the same way with database storage", async () => {
+      const dbVault = new ObsidianVault({ ...config, useMemory: false });
+      await dbVault.initialize();
+
+      const backlinks = await dbVault.getBacklinks(join("Knowledge", "Golang.md"));
+      expect(backlinks?.length).toBe(2);
+      const outgoing = await dbVault.getOutgoingLinks(join("Work", "hub.md"));
+      expect(outgoing?.filter((link) => link.resolved === null).map((link) => link.target)).toEqual(["Missing Note"]);
+    });
+  });
+
+  describe("Link Reports", () => {
+    beforeEach(async () => {
+      await mkdir(join(testVaultPath, "Life"), { recursive: true });
+      await writeFile(
+        join(testVaultPath, "Work", "hub.md"),
+        "---\ntags: [work]\ncategory: work\n---\n[[Spoke]]\n[[Ghost]]\n![[Missing Embed#Part]]",
+      );
+      await writeFile(join(testVaultPath, "Work", "spoke.md"), "---\ncategory: work\n---\nNo links out");
+      await writeFile(join(testVaultPath, "Work", "lonely.md"), "---\ncategory: work\n---\nSelf [[lonely]]");
+      await writeFile(join(testVaultPath, "Life", "diary.md"), "---\ncategory: life\n---\n[[Nowhere]]");
+      await writeFile(join(testVaultPath, "Life", "alone.md"), "---\ncategory: life\n---\nNothing");
+      await vault.initialize();
+    });
+
+    test("lists broken links with source and line", async () => {
+      const broken = await vault.findBrokenLinks();
+      expect(broken.map((link) => [link.source, link.target, link.line, link.kind])).toEqual(
+        expect.arrayContaining([
+          [join("Work", "hub.md"), "Ghost", 6, "wikilink"],
+          [join("Work", "hub.md"), "Missing Embed", 7, "embed"],
+          [join("Life", "diary.md"), "Nowhere", 4, "wikilink"],
+        ]),
+      );
+      expect(broken).toHaveLength(3);
+    });
+
+    test("scopes broken links with search filters", async () => {
+      const workOnly = await vault.findBrokenLinks({ category: "work" });
+      expect(workOnly.map((link) => link.target).sort()).toEqual(["Ghost", "Missing Embed"]);
+
+      const byPath = await vault.findBrokenLinks({ path: "Life/**" });
+      expect(byPath.map((link) => link.target)).toEqual(["Nowhere"]);
+
+      expect(await vault.findBrokenLinks({ tags: ["other"] })).toEqual([]);
+    });
+
+    test("lists orphans, ignoring self-links and broken links", async () => {
+      const orphans = await vault.findOrphans();
+      expect(orphans.map((note) => note.path)).toEqual([
+        join("Life", "alone.md"),
+        join("Life", "diary.md"),
+        join("Work", "lonely.md"),
+      ]);
+    });
+
+    test("scopes orphans with search filters", async () => {
+      const orphans = await vault.findOrphans({ category: "work" });
+      expect(orphans.map((note) => note.path)).toEqual([join("Work", "lonely.md")]);
+    });
+  });
+
+  describe("Inline Tags", () => {
+    test("indexes inline tags alongside frontmatter tags", async () => {
+      await writeFile(
+        join(testVaultPath, "Work", "mixed.md"),
+        "---\ntags: [meeting]\n---\n# Heading\nDiscussed #project/alpha\n```\n#notatag\n```",
+      );
+      await vault.initialize();
+
+      const note = await vault.getNote(join("Work", "mixed.md"));
+      expect(note?.frontmatter.tags).toEqual(["meeting"]);
+      expect(note?.inlineTags).toEqual(["project/alpha"]);
+
+      expect((await vault.getNotesByTag("project")).length).toBe(1);
+      expect((await vault.getNotesByTag("project", "frontmatter")).length).toBe(0);
+      expect((await vault.searchNotes("", { tags: ["project/alpha"], tagSource: "inline" })).length).toBe(1);
+      expect((await vault.getNotesByTag("notatag")).length).toBe(0);
+    });
+  });
+
+  describe("Tag Tree", () => {
+    test("builds a hierarchy with direct and rolled-up counts", async () => {
+      await writeFile(
+        join(testVaultPath, "Work", "puppet.md"),
+        "---\nmodified: \"2025-02-01\"\ntags: [work/puppet]\n---\nContent #work/puppet/ci",
+      );
+      await writeFile(
+        join(testVaultPath, "Work", "general.md"),
+        "---\nmodified: \"2025-01-01\"\ntags: [work]\n---\nContent",
+      );
+      await vault.initialize();
+
+      const tree = await vault.getTagTree();
+      expect(tree.map((node) => node.tag)).toEqual(["work"]);
+      expect(tree[0]).toMatchObject({ directCount: 1, totalCount: 2, lastModified: "2025-02-01" });
+
+      const puppet = tree[0].children[0];
+      expect(puppet).toMatchObject({ name: "puppet", directCount: 1, totalCount: 1 });
+      expect(puppet.children.map((node) => node.tag)).toEqual(["work/puppet/ci"]);
+
+      const frontmatterOnly = await vault.getTagTree("frontmatter");
+      expect(frontmatterOnly[0].children[0].children).toEqual([]);
+    });
+  });
+
+  describe("Create Note", () => {
+    beforeEach(async () => {
+      await vault.initialize();
+    });
+
+    test("writes generated frontmatter and indexes the note", async () => {
+      const path = join("Work", "Meetings", "Standup.md");
+      const note = await vault.createNote(path, "# Standup\nNotes", {
+        tags: ["work/meetings"],
+        type: "meeting",
+        attendees: ["alex"],
+      });
+
+      const today = formatDate(new Date());
+      expect(note.frontmatter).toMatchObject({
+        created: today,
+        modified: today,
+        tags: ["work/meetings"],
+        type: "meeting",
+        status: "active",
+        attendees: ["alex"],
+      });
+      expect(note.content.trim()).toBe("# Standup\nNotes");
+
+      const raw = await readFile(join(testVaultPath, path), "utf-8");
+      expect(raw).toContain(`created: '${today}'`);
+      expect((await vault.getNotesByTag("work/meetings")).map((n) => n.path)).toEqual([path]);
+    });
+
+    test("refuses to overwrite an existing file", async () => {
+      const path = join("Work", "existing.md");
+      await writeFile(join(testVaultPath, path), "Original");
+
+      await expect(vault.createNote(path, "Replacement")).rejects.toThrow("already exists");
+      expect(await readFile(join(testVaultPath, path), "utf-8")).toBe("Original");
+    });
+
+    test("refuses paths that would not be indexed", async () => {
+      await expect(vault.createNote(join("Archive", "old.md"), "x")).rejects.toThrow("index patterns");
+      await expect(vault.createNote(join("Work", "image.png"), "x")).rejects.toThrow("index patterns");
+    });
+  });
+
+  describe("Templates", () => {
+    const templates = join("_Meta", "Templates");
+
+    beforeEach(async () => {
+      await mkdir(join(testVaultPath, templates, "Work"), { recursive: true });
+      await writeFile(join(testVaultPath, templates, "Daily.md"), "---\ntype: daily\ncreated: {{date}}\n---\n# {{title}}\n");
+      await writeFile(join(testVaultPath, templates, "Work", "Meeting.md"), "# {{title}}\nProject: {{project}}\nAttendees: {{attendees}}\n");
+      await vault.initialize();
+    });
+
+    test("lists templates and keeps them out of the index", async () => {
+      expect(await vault.listTemplates()).toEqual([
+        { name: "Daily", path: join(templates, "Daily.md") },
+        { name: "Work/Meeting", path: join(templates, "Work", "Meeting.md") },
+      ]);
+      expect(await vault.getAllNotes()).toEqual([]);
+      expect(await vault.searchNotes("title")).toEqual([]);
+    });
+
+    test("creates a note from a template", async () => {
+      const { note, unresolvedVariables } = await vault.createNoteFromTemplate(join("Work", "2025-01-10.md"), "Daily");
+
+      expect(note.frontmatter.type).toBe("daily");
+      expect(await readFile(join(testVaultPath, "Work", "2025-01-10.md"), "utf-8"))
+        .toBe(`---\ntype: daily\ncreated: ${formatDate(new Date())}\n---\n# 2025-01-10\n`);
+      expect(unresolvedVariables).toEqual([]);
+      expect((await vault.listRecentChanges(1))[0].tool).toBe("create_note_from_template");
+    });
+
+    test("finds templates by bare name and substitutes variables", async () => {
+      const { note, unresolvedVariables } = await vault.createNoteFromTemplate(
+        join("Work", "Kickoff.md"),
+        "meeting",
+        { project: "Website" },
+      );
+
+      expect(note.content).toContain("# Kickoff\nProject: Website\nAttendees: {{attendees}}");
+      expect(unresolvedVariables).toEqual(["attendees"]);
+    });
+
+    test("refuses missing templates and existing notes", async () => {
+      await expect(vault.createNoteFromTemplate("New.md", "Weekly")).rejects.toThrow("Template not found: Weekly");
+      await vault.createNoteFromTemplate("New.md", "Daily");
+      await expect(vault.createNoteFromTemplate("New.md", "Daily")).rejects.toThrow("Note already exists");
+    });
+  });
+
+  describe("Append To Note", () => {
+    const path = join("Work", "log.md");
+    const frontmatter = '---\ntitle:   "Project   Log"\nmodified: "2024-01-01"\ntags: [log]  # keep\n---\n';
+
+    beforeEach(async () => {
+      await writeFile(join(testVaultPath, path), `${frontmatter}# Log\n\n## Updates\n- first\n`);
+      await vault.initialize();
+    });
+
+    test("inserts under a heading and only bumps modified in the frontmatter", async () => {
+      const note = await vault.appendToNote(path, "- second #release", { mode: "heading", heading: "Updates" });
+
+      const today = formatDate(new Date());
+      const raw = await readFile(join(testVaultPath, path), "utf-8");
+      expect(raw).toBe(
+        frontmatter.replace('"2024-01-01"', `"${today}"`) + "# Log\n\n## Updates\n- first\n- second #release\n",
+      );
+      expect(note.frontmatter.modified).toBe(today);
+      expect(note.inlineTags).toEqual(["release"]);
+    });
+
+    test("appends and prepends", async () => {
+      await vault.appendToNote(path, "Tail", { mode: "append" });
+      await vault.appendToNote(path, "Head", { mode: "prepend" });
+
+      const raw = await readFile(join(testVaultPath, path), "utf-8");
+      expect(raw.endsWith("- first\nTail\n")).toBe(true);
+      expect(raw).toContain("---\nHead\n# Log");
+    });
+
+    test("fails for notes that are not indexed", async () => {
+      await expect(vault.appendToNote(join("Work", "missing.md"), "x", { mode: "append" })).rejects.toThrow("Note not found");
+    });
+  });
+
+  describe("Update Frontmatter", () => {
+    beforeEach(async () => {
+      await writeFile(
+        join(testVaultPath, "Work", "alpha.md"),
+        "---\ntype: project\nstatus: active\ntags: [work]\n---\nAlpha body\n\n",
+      );
+      await writeFile(join(testVaultPath, "Work", "beta.md"), "---\ntags: [work]\n---\nBeta body");
+      await vault.initialize();
+    });
+
+    test("updates several notes and re-indexes them", async () => {
+      const results = await vault.updateFrontmatter(
+        [join("Work", "alpha.md"), join("Work", "beta.md")],
+        [
+          { op: "set", field: "status", value: "completed" },
+          { op: "add", field: "tags", value: "reviewed" },
+        ],
+      );
+
+      expect(results.map((result) => result.frontmatter.status)).toEqual(["completed", "completed"]);
+      expect((await vault.getNotesByTag("reviewed")).length).toBe(2);
+      expect((await vault.getNote(join("Work", "alpha.md")))?.frontmatter.modified).toBe(formatDate(new Date()));
+
+      const raw = await readFile(join(testVaultPath, "Work", "alpha.md"), "utf-8");
+      expect(raw.endsWith("---\nAlpha body\n\n")).toBe(true);
+    });
+
+    test("writes nothing when any note fails", async () => {
+      await expect(
+        vault.updateFrontmatter(
+          [join("Work", "alpha.md"), join("Work", "missing.md")],
+          [{ op: "set", field: "status", value: "completed" }],
+        ),
+      ).rejects.toThrow("missing.md: Note not found");
+
+      const raw = await readFile(join(testVaultPath, "Work", "alpha.md"), "utf-8");
+      expect(raw).toContain("status: active");
+    });
+  });
+
+  describe("Tasks", () => {
+    test("indexes checkbox tasks with file line numbers", async () => {
+      await writeFile(
+        join(testVaultPath, "Work", "standup.md"),
+        "---\ntags: [work]\n---\n## Actions\n- [ ] Review PR 📅 2025-05-01\n- [x] Deploy ✅ 2025-04-30",
+      );
+      await vault.initialize();
+
+      const open = await vault.queryTasks({ status: "open" });
+      expect(open).toEqual([
+        expect.objectContaining({
+          path: join("Work", "standup.md"),
+          line: 5,
+          description: "Review PR",
+          heading: "Actions",
+          due: "2025-05-01",
+        }),
+      ]);
+      expect((await vault.queryTasks({ tag: "work" })).length).toBe(2);
+    });
+
+    test("completes a task and re-indexes the note", async () => {
+      const path = join("Work", "todo.md");
+      await writeFile(join(testVaultPath, path), "---\ntags: [work]\n---\n- [ ] Write docs 📅 2025-05-01\n");
+      await vault.initialize();
+
+      const task = await vault.updateTask(path, 4, "Write docs 📅 2025-05-01", { status: "done", doneDate: "2025-05-02" });
+
+      expect(task).toMatchObject({ path, line: 4, status: "done", done: "2025-05-02", due: "2025-05-01" });
+      expect(await readFile(join(testVaultPath, path), "utf-8")).toBe(
+        "---\ntags: [work]\n---\n- [x] Write docs 📅 2025-05-01 ✅ 2025-05-02\n",
+      );
+      expect(await vault.queryTasks({ status: "open" })).toEqual([]);
+    });
+
+    test("edits the due date", async () => {
+      const path = join("Work", "todo.md");
+      await writeFile(join(testVaultPath, path), "- [ ] Write docs");
+      await vault.initialize();
+
+      const task = await vault.updateTask(path, 1, "Write docs", { due: "2025-06-01" });
+      expect(task.due).toBe("2025-06-01");
+      expect((await vault.queryTasks({ dueFrom: "2025-06-01" })).length).toBe(1);
+    });
+
+    test("refuses stale or invalid targets", async () => {
+      const path = join("Work", "todo.md");
+      await writeFile(join(testVaultPath, path), "# Todo\n- [ ] Write docs\n```\n- [ ] In code\n```");
+      await vault.initialize();
+
+      await expect(vault.updateTask(path, 2, "Write tests", { status: "done" })).rejects.toThrow("does not match");
+      await expect(vault.updateTask(path, 1, "Todo", { status: "done" })).rejects.toThrow("is not a task");
+      await expect(vault.updateTask(path, 4, "In code", { status: "done" })).rejects.toThrow("is not a task");
+      await expect(vault.updateTask(join("Work", "missing.md"), 1, "x", { status: "done" })).rejects.toThrow("Note not found");
+      expect(await readFile(join(testVaultPath, path), "utf-8")).toContain("- [ ] Write docs");
+    });
+  });
+
+  describe("Tag Rename", () => {
+    beforeEach(async () => {
+      await writeFile(
+        join(testVaultPath, "Work", "puppet.md"),
+        "---\ntags: [work/puppet, golang]\n---\nUses #work/puppet/ci daily",
+      );
+      await writeFile(
+        join(testVaultPath, "Work", "go.md"),
+        "---\ntags:\n  - go\n  - lang/go\n---\nNotes on #go",
+      );
+      await vault.initialize();
+    });
+
+    test("previews changes without writing in dry-run mode", async () => {
+      const result = await vault.renameTag(["work/puppet"], "work/config", { dryRun: true });
+
+      expect(result.dryRun).toBe(true);
+      expect(result.replacements).toBe(2);
+      expect(result.files.map((file) => file.path)).toEqual([join("Work", "puppet.md")]);
+      expect(await readFile(join(testVaultPath, "Work", "puppet.md"), "utf-8")).toContain("work/puppet");
+      expect((await vault.getNotesByTag("work/config")).length).toBe(0);
+    });
+
+    test("rewrites files and re-indexes them", async () => {
+      await vault.renameTag(["work/puppet"], "work/config");
+
+      expect(await readFile(join(testVaultPath, "Work", "puppet.md"), "utf-8")).toBe(
+        "---\ntags: [work/config, golang]\n---\nUses #work/config/ci daily",
+      );
+      expect((await vault.getNotesByTag("work/puppet")).length).toBe(0);
+      const note = await vault.getNote(join("Work", "puppet.md"));
+      expect(note?.inlineTags).toEqual(["work/config/ci"]);
+    });
+
+    test("leaves children alone when includeChildren is false", async () => {
+      await vault.renameTag(["work/puppet"], "work/config", { includeChildren: false });
+      expect(await readFile(join(testVaultPath, "Work", "puppet.md"), "utf-8")).toContain("#work/puppet/ci");
+    });
+
+    test("merges several tags into one", async () => {
+      const result = await vault.renameTag(["go", "golang"], "lang/go");
+
+      expect(result.files.map((file) => file.path).sort()).toEqual([join("Work", "go.md"), join("Work", "puppet.md")]);
+      expect(await readFile(join(testVaultPath, "Work", "go.md"), "utf-8")).toBe(
+        "---\ntags:\n  - lang/go\n---\nNotes on #lang/go",
+      );
+      expect((await vault.getNotesByTag("lang/go")).length).toBe(2);
+    });
+
+    test("finds tags written in another case with the SQLite index", async () => {
+      await writeFile(join(testVaultPath, "Work", "job.md"), "---\ntags: [work]\n---\nSee #work");
+      const dbVault = new ObsidianVault({ ...config, useMemory: false });
+      await dbVault.initialize();
+
+      const result = await dbVault.renameTag(["Work"], "job", { includeChildren: false, dryRun: true });
+      expect(result.replacements).toBe(2);
+      expect(result.files.map((file) => file.path)).toEqual([join("Work", "job.md")]);
+    });
+  });
+
+  describe("Move Note", () => {
+    beforeEach(async () => {
+      await mkdir(join(testVaultPath, "Inbox"), { recursive: true });
+      await writeFile(join(testVaultPath, "Inbox", "Idea.md"), "---\ntags: [idea]\n---\n# Idea\nSee [[Plan]] and [plan](../Work/Plan.md)");
+      await writeFile(join(testVaultPath, "Work", "Plan.md"), "# Plan\nFrom [[Idea#Idea|the idea]] and ![[Inbox/Idea]]");
+      await writeFile(join(testVaultPath, "Index.md"), "- [Idea](Inbox/Idea.md)\n- [[Plan]]");
+      await vault.initialize();
+    });
+
+    test("lists every touched file without writing in dry-run mode", async () => {
+      const result = await vault.moveNote(join("Inbox", "Idea.md"), join("Work", "Projects", "Concept.md"), { dryRun: true });
+
+      expect(result.dryRun).toBe(true);
+      expect(result.files.map((file) => file.path)).toEqual([join("Inbox", "Idea.md"), "Index.md", join("Work", "Plan.md")]);
+      expect(result.replacements).toBe(4);
+      await expect(stat(join(testVaultPath, "Inbox", "Idea.md"))).resolves.toBeTruthy();
+      expect(await vault.getNote(join("Work", "Projects", "Concept.md"))).toBeNull();
+    });
+
+    test("moves the note, rewrites links and re-indexes", async () => {
+      await vault.moveNote(join("Inbox", "Idea.md"), join("Work", "Projects", "Concept.md"));
+
+      expect(await readFile(join(testVaultPath, "Work", "Plan.md"), "utf-8")).toBe(
+        "# Plan\nFrom [[Concept#Idea|the idea]] and ![[Work/Projects/Concept]]",
+      );
+      expect(await readFile(join(testVaultPath, "Index.md"), "utf-8")).toBe("- [Idea](Work/Projects/Concept.md)\n- [[Plan]]");
+      expect(await readFile(join(testVaultPath, "Work", "Projects", "Concept.md"), "utf-8")).toBe(
+        "---\ntags: [idea]\n---\n# Idea\nSee [[Plan]] and [plan](../Plan.md)",
+      );
+      await expect(stat(join(testVaultPath, "Inbox", "Idea.md"))).rejects.toThrow();
+
+      expect(await vault.getNote(join("Inbox", "Idea.md"))).toBeNull();
+      expect((await vault.getNotesByTag("idea")).map((note) => note.path)).toEqual([join("Work", "Projects", "Concept.md")]);
+      const backlinks = await vault.getBacklinks(join("Work", "Projects", "Concept.md"));
+      expect(backlinks?.map((link) => link.source).sort()).toEqual(["Index.md", join("Work", "Plan.md"), join("Work", "Plan.md")]);
+      expect(await vault.findBrokenLinks()).toEqual([]);
+    });
+
+    test("refuses to overwrite an existing file", async () => {
+      await expect(vault.moveNote(join("Inbox", "Idea.md"), join("Work", "Plan.md"))).rejects.toThrow("already exists");
+    });
+
+    test("refuses missing notes and unindexed destinations", async () => {
+      await expect(vault.moveNote("Missing.md", "Other.md")).rejects.toThrow("Note not found");
+      await expect(vault.moveNote(join("Inbox", "Idea.md"), join("Archive", "Idea.md"))).rejects.toThrow("not covered by the index");
+    });
+  });
+
+  describe("Archive And Delete", () => {
+    beforeEach(async () => {
+      await writeFile(
+        join(testVaultPath, "Work", "Old.md"),
+        "---\ntags: [legacy]\nstatus: active\nmodified: '2024-01-01'\n---\nOld project",
+      );
+      await writeFile(join(testVaultPath, "Hub.md"), "[[Work/Old]] and [[Old]]");
+      await vault.initialize();
+    });
+
+    test("archives a note under Archive/ and sets its status", async () => {
+      const result = await vault.archiveNote(join("Work", "Old.md"));
+
+      expect(result.to).toBe(join("Archive", "Work", "Old.md"));
+      const raw = await readFile(join(testVaultPath, "Archive", "Work", "Old.md"), "utf-8");
+      expect(raw).toContain("status: archived");
+      expect(raw).toContain(`modified: '${formatDate(new Date())}'`);
+      expect(raw).toContain("Old project");
+      await expect(stat(join(testVaultPath, "Work", "Old.md"))).rejects.toThrow();
+      // Both links still resolve to the note by its trailing path segments
+      expect(result.replacements).toBe(0);
+      expect(await readFile(join(testVaultPath, "Hub.md"), "utf-8")).toBe("[[Work/Old]] and [[Old]]");
+
+      expect(await vault.getNote(join("Work", "Old.md"))).toBeNull();
+      expect(await vault.getNotesByTag("legacy")).toEqual([]);
+    });
+
+    test("refuses to archive a note twice", async () => {
+      await writeFile(join(testVaultPath, "Archive", "Old.md"), "old");
+      await writeFile(join(testVaultPath, "Old.md"), "root");
+      await vault.initialize();
+
+      await expect(vault.archiveNote("Old.md")).rejects.toThrow("already exists");
+      await expect(vault.archiveNote("Missing.md")).rejects.toThrow("Note not found");
+    });
+
+    test("moves deleted notes into .trash and drops them from the index", async () => {
+      const result = await vault.deleteNote(join("Work", "Old.md"));
+
+      expect(result.trashPath).toBe(join(".trash", "Work", "Old.md"));
+      expect(await readFile(join(testVaultPath, ".trash", "Work", "Old.md"), "utf-8")).toContain("Old project");
+      await expect(stat(join(testVaultPath, "Work", "Old.md"))).rejects.toThrow();
+      expect(await vault.getNote(join("Work", "Old.md"))).toBeNull();
+      expect(await vault.searchNotes("Old project")).toEqual([]);
+    });
+
+    test("keeps earlier trashed copies", async () => {
+      await mkdir(join(testVaultPath, ".trash", "Work"), { recursive: true });
+      await writeFile(join(testVaultPath, ".trash", "Work", "Old.md"), "earlier");
+
+      const result = await vault.deleteNote(join("Work", "Old.md"));
+
+      expect(result.trashPath).toBe(join(".trash", "Work", "Old 1.md"));
+      expect(await readFile(join(testVaultPath, ".trash", "Work", "Old.md"), "utf-8")).toBe("earlier");
+    });
+  });
+
+  describe("Versions", () => {
+    const path = join("Work", "Versioned.md");
+
+    beforeEach(async () => {
+      await writeFile(join(testVaultPath, path), "---\nstatus: active\n---\n- [ ] Task\n");
+      await vault.initialize();
+    });
+
+    test("returns a version token with each note", async () => {
+      const note = await vault.getNote(path);
+      expect(note?.version).toMatch(/^\d+-[0-9a-f]{16}$/);
+    });
+
+    test("accepts writes at the current version and returns the new one", async () => {
+      const { version } = (await vault.getNote(path))!;
+
+      const updated = await vault.appendToNote(path, "More", { mode: "append" }, version);
+
+      expect(updated.version).toBeDefined();
+      expect(updated.version).not.toBe(version);
+      await expect(vault.appendToNote(path, "Again", { mode: "append" }, updated.version)).resolves.toBeTruthy();
+    });
+
+    test("rejects writes against a stale version with the current content", async () => {
+      const { version } = (await vault.getNote(path))!;
+      await writeFile(join(testVaultPath, path), "---\nstatus: active\n---\nEdited in Obsidian\n");
+
+      const attempt = vault.appendToNote(path, "More", { mode: "append" }, version);
+
+      await expect(attempt).rejects.toBeInstanceOf(VersionConflictError);
+      await expect(attempt).rejects.toMatchObject({ currentContent: "---\nstatus: active\n---\nEdited in Obsidian\n" });
+      expect(await readFile(join(testVaultPath, path), "utf-8")).not.toContain("More");
+    });
+
+    test("checks versions in every write tool", async () => {
+      const stale = "1-0000000000000000";
+
+      await expect(vault.updateTask(path, 4, "Task", { status: "done" }, stale)).rejects.toBeInstanceOf(VersionConflictError);
+      await expect(vault.updateFrontmatter([path], [{ op: "set", field: "status", value: "idea" }], { [path]: stale }))
+        .rejects.toBeInstanceOf(VersionConflictError);
+      await expect(vault.moveNote(path, "Moved.md", { expectedVersion: stale })).rejects.toBeInstanceOf(VersionConflictError);
+      await expect(vault.archiveNote(path, stale)).rejects.toBeInstanceOf(VersionConflictError);
+      await expect(vault.deleteNote(path, stale)).rejects.toBeInstanceOf(VersionConflictError);
+      expect(await vault.getNote(path)).not.toBeNull();
+    });
+  });
+
+  describe("Journal", () => {
+    const path = join("Work", "Log.md");
+    const original = "---\nstatus: active\nmodified: '2024-01-01'\n---\nFirst entry\n";
+
+    beforeEach(async () => {
+      await writeFile(join(testVaultPath, path), original);
+      await writeFile(join(testVaultPath, "Hub.md"), "[[Work/Log]]");
+      await vault.initialize();
+    });
+
+    test("records each write with its before and after content", async () => {
+      await vault.appendToNote(path, "Second entry", { mode: "append" });
+
+      const [entry] = await vault.listRecentChanges(5);
+      expect(entry.tool).toBe("append_to_note");
+      expect(entry.files).toEqual([{
+        path,
+        before: original,
+        after: await readFile(join(testVaultPath, path), "utf-8"),
+      }]);
+    });
+
+    test("undoes a change and re-indexes the note", async () => {
+      await vault.appendToNote(path, "Second entry", { mode: "append" });
+      const [entry] = await vault.listRecentChanges(1);
+
+      const undo = await vault.undoChange(entry.id);
+
+      expect(undo.tool).toBe("undo_change");
+      expect(await readFile(join(testVaultPath, path), "utf-8")).toBe(original);
+      expect((await vault.getNote(path))?.content).not.toContain("Second entry");
+      expect((await vault.listRecentChanges(2))[1].undoneBy).toBe(undo.id);
+      await expect(vault.undoChange(entry.id)).rejects.toThrow("already undone");
+    });
+
+    test("refuses to undo when the file was edited since", async () => {
+      await vault.appendToNote(path, "Second entry", { mode: "append" });
+      const [entry] = await vault.listRecentChanges(1);
+      await writeFile(join(testVaultPath, path), "Edited in Obsidian");
+
+      await expect(vault.undoChange(entry.id)).rejects.toThrow("edited since");
+      expect(await readFile(join(testVaultPath, path), "utf-8")).toBe("Edited in Obsidian");
+    });
+
+    test("undoes moves, including rewritten links", async () => {
+      await vault.moveNote(path, join("Work", "Journal.md"));
+      const [entry] = await vault.listRecentChanges(1);
+
+      await vault.undoChange(entry.id);
+
+      expect(await readFile(join(testVaultPath, path), "utf-8")).toBe(original);
+      expect(await readFile(join(testVaultPath, "Hub.md"), "utf-8")).toBe("[[Work/Log]]");
+      await expect(stat(join(testVaultPath, "Work", "Journal.md"))).rejects.toThrow();
+      expect(await vault.getNote(path)).not.toBeNull();
+      expect(await vault.getNote(join("Work", "Journal.md"))).toBeNull();
+    });
+
+    test("undoes deletes and creates", async () => {
+      await vault.deleteNote(path);
+      await vault.undoChange((await vault.listRecentChanges(1))[0].id);
+      expect(await readFile(join(testVaultPath, path), "utf-8")).toBe(original);
+      await expect(stat(join(testVaultPath, ".trash", "Work", "Log.md"))).rejects.toThrow();
+
+      await vault.createNote("New.md", "Body");
+      await vault.undoChange((await vault.listRecentChanges(1))[0].id);
+      await expect(stat(join(testVaultPath, "New.md"))).rejects.toThrow();
+      expect(await vault.getNote("New.md")).toBeNull();
+    });
+  });
+
+  describe("Write Permissions", () => {
+    beforeEach(async () => {
+      await mkdir(join(testVaultPath, "Inbox"), { recursive: true });
+      await writeFile(join(testVaultPath, "Inbox", "Idea.md"), "Idea");
+      await writeFile(join(testVaultPath, "Work", "Plan.md"), "See [[Idea]]");
+    });
+
+    test("refuses every write in read-only mode", async () => {
+      vault = new ObsidianVault({ ...config, readOnly: true });
+      await vault.initialize();
+
+      await expect(vault.createNote(join("Inbox", "New.md"))).rejects.toThrow("read-only");
+      await expect(vault.appendToNote(join("Inbox", "Idea.md"), "More", { mode: "append" })).rejects.toThrow("read-only");
+      expect(await readFile(join(testVaultPath, "Inbox", "Idea.md"), "utf-8")).toBe("Idea");
+      expect(await vault.getNote(join("Inbox", "Idea.md"))).not.toBeNull();
+    });
+
+    test("only writes paths allowed for the tool", async () => {
+      vault = new ObsidianVault({ ...config, writeRules: { "*": { allow: ["Inbox/**"] } } });
+      await vault.initialize();
+
+      await vault.createNote(join("Inbox", "New.md"));
+      await expect(vault.createNote(join("Work", "New.md"))).rejects.toThrow("not allowed to write these paths:\n- Work/New.md");
+      await expect(stat(join(testVaultPath, "Work", "New.md"))).rejects.toThrow();
+    });
+
+    test("counts notes whose links would be rewritten as writes", async () => {
+      vault = new ObsidianVault({ ...config, writeRules: { move_note: { allow: ["Inbox/**"] } } });
+      await vault.initialize();
+
+      await expect(vault.moveNote(join("Inbox", "Idea.md"), join("Inbox", "Concept.md"))).rejects.toThrow("- Work/Plan.md");
+      expect(await readFile(join(testVaultPath, "Inbox", "Idea.md"), "utf-8")).toBe("Idea");
+    });
+
+    test("applies the rules of the tool that made the call", async () => {
+      await writeFile(join(testVaultPath, "Inbox", "Todo.md"), "- [ ] Ship it");
+      vault = new ObsidianVault({ ...config, writeRules: { complete_task: { deny: ["Inbox/**"] } } });
+      await vault.initialize();
+
+      await expect(vault.updateTask(join("Inbox", "Todo.md"), 1, "Ship it", { status: "done" }, undefined, "complete_task"))
+        .rejects.toThrow("complete_task is not allowed");
+      await vault.updateTask(join("Inbox", "Todo.md"), 1, "Ship it", { status: "done" });
+      expect((await vault.listRecentChanges(1))[0].tool).toBe("update_task");
+    });
+  });
+
+  describe("Graph Traversal", () => {
+    beforeEach(async () => {
+      await writeFile(join(testVaultPath, "Work", "a.md"), "---\ntype: project\ntags: [graph]\n---\n[[b]]");
+      await writeFile(join(testVaultPath, "Work", "b.md"), "---\ntype: meeting\n---\n[[c]]");
+      await writeFile(join(testVaultPath, "Work", "c.md"), "---\ntype: project\ntags: [graph]\n---\n[[d]]");
+      await writeFile(join(testVaultPath, "Work", "d.md"), "---\ntype: project\n---\nEnd");
+      await writeFile(join(testVaultPath, "Work", "island.md"), "Alone");
+      await vault.initialize();
+    });
+
+    test("returns nodes and edges within N hops", async () => {
+      const graph = await vault.getNoteNeighborhood(join("Work", "b.md"), { depth: 1 });
+      expect(graph?.nodes.map((node) => [node.path, node.depth]).sort()).toEqual([
+        [join("Work", "a.md"), 1],
+        [join("Work", "b.md"), 0],
+        [join("Work", "c.md"), 1],
+      ]);
+      expect(graph?.edges).toHaveLength(2);
+      expect(graph?.nodes.find((node) => node.depth === 0)?.type).toBe("meeting");
+
+      const wider = await vault.getNoteNeighborhood(join("Work", "a.md"), { depth: 3 });
+      expect(wider?.nodes).toHaveLength(4);
+    });
+
+    test("filters neighborhood nodes by type and tag", async () => {
+      const byType = await vault.getNoteNeighborhood(join("Work", "c.md"), { depth: 3, type: "project" });
+      expect(byType?.nodes.map((node) => node.path).sort()).toEqual([join("Work", "c.md"), join("Work", "d.md")]);
+
+      const byTag = await vault.getNoteNeighborhood(join("Work", "b.md"), { depth: 2, tags: ["graph"] });
+      expect(byTag?.nodes.map((node) => node.path).sort()).toEqual([
+        join("Work", "a.md"),
+        join("Work", "b.md"),
+        join("Work", "c.md"),
+      ]);
+    });
+
+    test("finds the shortest path between notes", async () => {
+      const chain = await vault.findPathBetweenNotes(join("Work", "d.md"), join("Work", "a.md"));
+      expect(chain?.nodes.map((node) => node.path)).toEqual([
+        join("Work", "d.md"),
+        join("Work", "c.md"),
+        join("Work", "b.md"),
+        join("Work", "a.md"),
+      ]);
+      expect(chain?.edges[0]).toEqual({ source: join("Work", "c.md"), target: join("Work", "d.md"), count: 1 });
+
+      const directed = await vault.findPathBetweenNotes(join("Work", "d.md"), join("Work", "a.md"), "outgoing");
+      expect(directed).toEqual({ nodes: [], edges: [] });
+    });
+
+    test("returns an empty graph for unconnected notes and null for unknown ones", async () => {
+      expect(await vault.findPathBetweenNotes(join("Work", "a.md"), join("Work", "island.md"))).toEqual({ nodes: [], edges: [] });
+      expect(await vault.findPathBetweenNotes(join("Work", "a.md"), "missing.md")).toBeNull();
+      expect(await vault.getNoteNeighborhood("missing.md")).toBeNull();
+    });
+
+    test("traverses the same graph with database storage", async () => {
+      const dbVault = new ObsidianVault({ ...config, useMemory: false });
+      await dbVault.initialize();
+
+      const chain = await dbVault.findPathBetweenNotes(join("Work", "a.md"), join("Work", "d.md"), "outgoing");
+      expect(chain?.nodes).toHaveLength(4);
+    });
+  });
+
+  describe("Index Reconciliation", () => {
+    let dbConfig: VaultConfig;
+
+    beforeEach(() => {
+      dbConfig = { ...config, useMemory: false };
+    });
+
+    test("drops notes deleted between restarts from the persistent index", async () => {
+      await writeFile(join(testVaultPath, "Work", "keep.md"), "Kept note");
+      await writeFile(join(testVaultPath, "Work", "gone.md"), "---\ntags: [gone]\n---\nDeleted note");
+      await new ObsidianVault(dbConfig).initialize();
+
+      await unlink(join(testVaultPath, "Work", "gone.md"));
+      const restarted = new ObsidianVault(dbConfig);
+      await restarted.initialize();
+
+      expect(await restarted.getNote(join("Work", "gone.md"))).toBeNull();
+      expect(await restarted.getNote(join("Work", "keep.md"))).not.toBeNull();
+      expect((await restarted.getNotesByTag("gone")).length).toBe(0);
+      expect((await restarted.searchNotes("Deleted")).length).toBe(0);
+    });
+
+    test("replaces the old path of a note renamed between restarts", async () => {
+      await writeFile(join(testVaultPath, "Work", "before.md"), "Moved between sessions");
+      await new ObsidianVault(dbConfig).initialize();
+
+      await rename(
+        join(testVaultPath, "Work", "before.md"),
+        join(testVaultPath, "Work", "after.md"),
+      );
+      const restarted = new ObsidianVault(dbConfig);
+      await restarted.initialize();
+
+      const results = await restarted.searchNotes("Moved");
+      expect(results.map((n) => n.path)).toEqual([join("Work", "after.md")]);
+      expect(await restarted.getNote(join("Work", "before.md"))).toBeNull();
+    });
+
+    test("drops notes that became excluded", async () => {
+      await writeFile(join(testVaultPath, "Work", "old.md"), "Soon archived");
+      await new ObsidianVault(dbConfig).initialize();
+
+      await rename(
+        join(testVaultPath, "Work", "old.md"),
+        join(testVaultPath, "Archive", "old.md"),
+      );
+      const restarted = new ObsidianVault(dbConfig);
+      await restarted.initialize();
+
+      expect((await restarted.getAllNotes()).length).toBe(0);
+    });
+  });
+
+  describe("Incremental Indexing", () => {
+    let dbConfig: VaultConfig;
+
+    beforeEach(() => {
+      dbConfig = { ...config, useMemory: false };
+    });
+
+    test("records a fingerprint for each indexed note", async () => {
+      await writeFile(join(testVaultPath, "Work", "note.md"), "Fingerprinted");
+      await vault.initialize();
+
+      const note = await vault.getNote(join("Work", "note.md"));
+      const fileStats = await stat(join(testVaultPath, "Work", "note.md"));
+      expect(note?.fingerprint?.mtimeMs).toBe(fileStats.mtimeMs);
+      expect(note?.fingerprint?.size).toBe(fileStats.size);
+      expect(note?.fingerprint?.hash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    test("skips files whose mtime and size are unchanged", async () => {
+      const notePath = join(testVaultPath, "Work", "stable.md");
+      const fixedTime = new Date("2025-01-01T00:00:00Z");
+      await writeFile(notePath, "Original text");
+      await utimes(notePath, fixedTime, fixedTime);
+      await new ObsidianVault(dbConfig).initialize();
+
+      // Same size and restored mtime: the restart must trust the stored copy
+      await writeFile(notePath, "Modified text");
+      await utimes(notePath, fixedTime, fixedTime);
+
+      const restarted = new ObsidianVault(dbConfig);
+      await restarted.initialize();
+      expect((await restarted.getNote(join("Work", "stable.md")))?.content).toBe("Original text");
+    });
+
+    test("re-indexes files that changed between restarts", async () => {
+      const notePath = join(testVaultPath, "Work", "edited.md");
+      await writeFile(notePath, "---\ntags: [draft]\n---\nFirst version");
+      await new ObsidianVault(dbConfig).initialize();
+
+      await writeFile(notePath, "---\ntags: [final]\n---\nSecond, longer version");
+      const restarted = new ObsidianVault(dbConfig);
+      await restarted.initialize();
+
+      expect((await restarted.getNote(join("Work", "edited.md")))?.content).toContain("Second");
+      expect((await restarted.getNotesByTag("draft")).length).toBe(0);
+      expect((await restarted.getNotesByTag("final")).length).toBe(1);
+    });
+  });
+
+  describe("File Watching", () => {
+    // Poll until the predicate holds, giving the debounced watcher time to flush
+    async function waitFor(
+      predicate: () => Promise<boolean>,
+      timeout = 3000,
+    ): Promise<boolean> {
+      const deadline = Date.now() + timeout;
+      while (Date.now() < deadline) {
+        if (await predicate()) return true;
+        await new Promise((res) => setTimeout(res, 50));
+      }
+      return predicate();
+    }
+
+    beforeEach(() => {
+      vault = new ObsidianVault({ ...config, watchDebounceMs: 20 });
+    });
+
+    afterEach(async () => {
+      await vault.stopWatching();
+    });
+
+    test("indexes notes created after initialization", async () => {
+      await vault.initialize();
+      vault.startWatching();
+
+      await writeFile(
+        join(testVaultPath, "Work", "live.md"),
+        "---\ntags: [live]\n---\nWritten during the session",
+      );
+
+      expect(
+        await waitFor(async () => (await vault.getNote(join("Work", "live.md"))) !== null),
+      ).toBe(true);
+      const notes = await vault.getNotesByTag("live");
+      expect(notes.length).toBe(1);
+    });
+
+    test("re-indexes changed notes", async () => {
+      const notePath = join(testVaultPath, "Work", "changing.md");
+      await writeFile(notePath, "---\ntags: [before]\n---\nOld content");
+      await vault.initialize();
+      vault.startWatching();
+
+      await writeFile(notePath, "---\ntags: [after]\n---\nNew content");
+
+      expect(
+        await waitFor(async () =>
+          (await vault.getNote(join("Work", "changing.md")))?.content.includes("New content") ?? false,
+        ),
+      ).toBe(true);
+      expect((await vault.getNotesByTag("before")).length).toBe(0);
+      expect((await vault.getNotesByTag("after")).length).toBe(1);
+    });
+
+    test("removes deleted notes from the index", async () => {
+      const notePath = join(testVaultPath, "Work", "doomed.md");
+      await writeFile(notePath, "Short-lived");
+      await vault.initialize();
+      vault.startWatching();
+
+      await unlink(notePath);
+
+      expect(
+        await waitFor(async () => (await vault.getNote(join("Work", "doomed.md"))) === null),
+      ).toBe(true);
+    });
+
+    test("moves renamed notes to their new path", async () => {
+      await writeFile(join(testVaultPath, "Work", "old-name.md"), "Renamed content");
+      await vault.initialize();
+      vault.startWatching();
+
+      await rename(
+        join(testVaultPath, "Work", "old-name.md"),
+        join(testVaultPath, "Work", "new-name.md"),
+      );
+
+      expect(
+        await waitFor(async () =>
+          (await vault.getNote(join("Work", "new-name.md"))) !== null &&
+          (await vault.getNote(join("Work", "old-name.md"))) === null,
+        ),
+      ).toBe(true);
+    });
+
+    test("drops notes moved into an excluded folder", async () => {
+      await writeFile(join(testVaultPath, "Work", "to-archive.md"), "Archive me");
+      await vault.initialize();
+      vault.startWatching();
+
+      await rename(
+        join(testVaultPath, "Work", "to-archive.md"),
+        join(testVaultPath, "Archive", "to-archive.md"),
+      );
+
+      expect(
+        await waitFor(async () => (await vault.getNote(join("Work", "to-archive.md"))) === null),
+      ).toBe(true);
+      expect(await vault.getNote(join("Archive", "to-archive.md"))).toBeNull();
+    });
+
+    test("re-indexes notes inside a renamed folder", async () => {
+      await mkdir(join(testVaultPath, "Work", "Alpha"));
+      await writeFile(join(testVaultPath, "Work", "Alpha", "inner.md"), "Folder content");
+      await vault.initialize();
+      vault.startWatching();
+
+      await rename(join(testVaultPath, "Work", "Alpha"), join(testVaultPath, "Work", "Beta"));
+
+      expect(
+        await waitFor(async () =>
+          (await vault.getNote(join("Work", "Beta", "inner.md"))) !== null &&
+          (await vault.getNote(join("Work", "Alpha", "inner.md"))) === null,
+        ),
+      ).toBe(true);
+    });
+
+    test("stops picking up changes after stopWatching", async () => {
+      await vault.initialize();
+      vault.startWatching();
+      await vault.stopWatching();
+
+      await writeFile(join(testVaultPath, "Work", "unwatched.md"), "Not indexed");
+      await new Promise((res) => setTimeout(res, 200));
+
+      expect(await vault.getNote(join("Work", "unwatched.md"))).toBeNull();
+    });
+  });
 });
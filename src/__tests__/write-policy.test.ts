@@ -0,0 +1,96 @@
+import { describe, test, expect } from '@jest/globals';
+import { WritePolicy, mergeWriteRules, parseWritePermissions, parseWriteRuleArgs } from '../write-policy.js';
+
+describe('write-policy', () => {
+  describe('WritePolicy', () => {
+    test('allows everything by default', () => {
+      const policy = new WritePolicy();
+      expect(policy.isToolEnabled('create_note')).toBe(true);
+      expect(policy.deniedPaths('create_note', ['Anywhere/Note.md'])).toEqual([]);
+    });
+
+    test('disables every write tool in read-only mode but keeps read tools', () => {
+      const policy = new WritePolicy({ readOnly: true });
+      expect(policy.isToolEnabled('create_note')).toBe(false);
+      expect(policy.isToolEnabled('undo_change')).toBe(false);
+      expect(policy.isToolEnabled('search_notes')).toBe(true);
+      expect(policy.isToolEnabled('list_recent_changes')).toBe(true);
+      expect(() => policy.assertCanWrite('create_note', ['Inbox/Note.md'])).toThrow('read-only');
+    });
+
+    test('disables single tools, or all of them under "*"', () => {
+      const policy = new WritePolicy({ writeRules: { delete_note: { enabled: false } } });
+      expect(policy.isToolEnabled('delete_note')).toBe(false);
+      expect(policy.isToolEnabled('archive_note')).toBe(true);
+      expect(new WritePolicy({ writeRules: { '*': { enabled: false } } }).isToolEnabled('move_note')).toBe(false);
+    });
+
+    test('applies allow and deny patterns from "*" and the tool itself', () => {
+      const policy = new WritePolicy({
+        writeRules: {
+          '*': { allow: ['Inbox/**', 'Dailies/**'], deny: ['**/Private/**'] },
+          create_note: { allow: ['Inbox/**'] }
+        }
+      });
+
+      expect(policy.deniedPaths('append_to_note', ['Inbox/a.md', 'Dailies/2024-01-01.md', 'Work/b.md', 'Inbox/Private/c.md']))
+        .toEqual(['Work/b.md', 'Inbox/Private/c.md']);
+      expect(policy.deniedPaths('create_note', ['Inbox/a.md', 'Dailies/2024-01-01.md'])).toEqual(['Dailies/2024-01-01.md']);
+      expect(() => policy.assertCanWrite('create_note', ['Dailies/x.md'])).toThrow('create_note is not allowed to write these paths:\n- Dailies/x.md');
+    });
+  });
+
+  describe('parseWritePermissions', () => {
+    test('reads readOnly and writeRules', () => {
+      expect(parseWritePermissions({
+        readOnly: false,
+        writeRules: { '*': { deny: ['Archive/**'] }, rename_tag: { enabled: false } }
+      })).toEqual({
+        readOnly: false,
+        writeRules: {
+          '*': { enabled: undefined, allow: undefined, deny: ['Archive/**'] },
+          rename_tag: { enabled: false, allow: undefined, deny: undefined }
+        }
+      });
+    });
+
+    test('rejects unknown keys, tools and malformed rules', () => {
+      expect(() => parseWritePermissions([])).toThrow('JSON object');
+      expect(() => parseWritePermissions({ readonly: true })).toThrow('Unknown config key "readonly"');
+      expect(() => parseWritePermissions({ readOnly: 'yes' })).toThrow('readOnly must be a boolean');
+      expect(() => parseWritePermissions({ writeRules: { search_notes: {} } })).toThrow('Unknown write tool "search_notes"');
+      expect(() => parseWritePermissions({ writeRules: { create_note: { allow: 'Inbox/**' } } })).toThrow('writeRules.create_note.allow');
+    });
+  });
+
+  describe('parseWriteRuleArgs', () => {
+    test('splits global and per-tool patterns', () => {
+      expect(parseWriteRuleArgs({
+        disabledTools: ['delete_note'],
+        allow: ['Inbox/**', 'create_note=Dailies/**'],
+        deny: ['Work/**']
+      })).toEqual({
+        delete_note: { enabled: false },
+        '*': { allow: ['Inbox/**'], deny: ['Work/**'] },
+        create_note: { allow: ['Dailies/**'] }
+      });
+    });
+
+    test('rejects tools that do not write', () => {
+      expect(() => parseWriteRuleArgs({ disabledTools: ['get_note'] })).toThrow('Unknown write tool "get_note"');
+      expect(() => parseWriteRuleArgs({ allow: ['bogus=Inbox/**'] })).toThrow('Unknown write tool "bogus"');
+    });
+  });
+
+  describe('mergeWriteRules', () => {
+    test('lets fields set in the override replace the base per tool', () => {
+      expect(mergeWriteRules(
+        { '*': { allow: ['Inbox/**'], deny: ['Inbox/Private/**'] }, delete_note: { enabled: false } },
+        { '*': { allow: ['Dailies/**'] } }
+      )).toEqual({
+        '*': { allow: ['Dailies/**'], deny: ['Inbox/Private/**'] },
+        delete_note: { enabled: false }
+      });
+    });
+  });
+});
@@ -23,11 +23,15 @@ export const defaultConfig: Partial<VaultConfig> = {
   maxFileSize: 10 * 1024 * 1024, // 10MB
   maxSearchResults: 100,
   maxRecentNotes: 100,
+  watch: true,
+  watchDebounceMs: 300,
+  templateFolder: '_Meta/Templates',
   searchWeights: {
     title: 3.0,
     tags: 2.5,
     frontmatter: 2.0,
     content: 1.0,
-    recency: 1.5
+    recency: 1.5,
+    recencyHalfLifeDays: 30
   }
 };
@@ -1,8 +1,83 @@
 import Database from 'better-sqlite3';
-import { Note, SearchOptions, parseDate } from './types.js';
-import { IStorage } from './storage.js';
+import { ChunkVector, FileFingerprint, IndexedLink, IndexedTask, JournalEntry, Note, NoteChunk, NoteLink, NoteTask, SearchOptions, TagCount, TagSource, TaskQuery, parseDate } from './types.js';
+import { linkTargetName } from './links.js';
+import { IStorage, MAX_JOURNAL_ENTRIES } from './storage.js';
+import { defaultConfig } from './config.js';
+import { checkAdvancedFtsQuery, describeFtsError, plainFtsQuery, quoteFtsTerm } from './fts.js';
+import { TextTerm, compileQueryToSql, parseQuery, positiveTagFilters, positiveTextTerms } from './query.js';
+import { ScoringWeights, relevanceFromBm25, searchScore } from './scoring.js';
+import { HIGHLIGHT_CLOSE, HIGHLIGHT_OPEN, parseHighlighted, tagMatches, textMatches } from './snippets.js';
 import { join } from 'path';
 import { existsSync, mkdirSync } from 'fs';
+import { Buffer } from 'buffer';
+
+/**
+ * Version of the stored index layout. The database is a cache derived from the vault,
+ * so when this changes the existing tables are dropped and every note is re-indexed.
+ * Bump it whenever the schema or the data extracted from notes changes.
+ */
+const SCHEMA_VERSION = 7;
+
+interface FingerprintRow {
+  note_path: string;
+  mtime_ms: number;
+  size: number;
+  hash: string | null;
+}
+
+interface LinkRow {
+  source_path: string;
+  target: string;
+  target_name: string;
+  subpath: string | null;
+  alias: string | null;
+  kind: NoteLink['kind'];
+  line: number;
+}
+
+interface ChunkRow {
+  note_path: string;
+  position: number;
+  line: number;
+  heading: string | null;
+  vector: Buffer;
+}
+
+interface TaskRow {
+  note_path: string;
+  line: number;
+  text: string;
+  description: string;
+  status: NoteTask['status'];
+  priority: NoteTask['priority'];
+  heading: string | null;
+  tags: string;
+  due: string | null;
+  scheduled: string | null;
+  start: string | null;
+  done: string | null;
+}
+
+interface JournalRow {
+  id: number;
+  tool: string;
+  timestamp: string;
+  undone_by: number | null;
+}
+
+interface JournalFileRow {
+  entry_id: number;
+  path: string;
+  before_content: string | null;
+  after_content: string | null;
+}
+
+interface TagCountRow {
+  tag: string;
+  direct_count: number;
+  total_count: number;
+  last_modified: string | null;
+}
 
 /**
  * SQLite-based storage implementation
@@ -11,8 +86,11 @@ import { existsSync, mkdirSync } from 'fs';
 export class DatabaseStorage implements IStorage {
   private db: Database.Database;
   private readonly dbPath: string;
+  private readonly searchWeights: ScoringWeights;
+
+  constructor(vaultPath: string, searchWeights: ScoringWeights = defaultConfig.searchWeights!) {
+    this.searchWeights = searchWeights;
 
-  constructor(vaultPath: string) {
     // Store database in vault's .obsidian-mcp directory
     const dbDir = join(vaultPath, '.obsidian-mcp');
     if (!existsSync(dbDir)) {
@@ -21,9 +99,21 @@ export class DatabaseStorage implements IStorage {
     this.dbPath = join(dbDir, 'notes.db');
     this.db = new Database(this.dbPath);
     this.db.pragma('journal_mode = WAL'); // Better concurrency
+
+    // Score of a search result (see scoring.ts); notes the query matched without a ranked term score 0
+    this.db.function('search_score', (bm25: unknown, modified: unknown) => searchScore(
+      typeof bm25 === 'number' ? relevanceFromBm25(bm25) : 0,
+      typeof modified === 'string' ? modified : null,
+      this.searchWeights
+    ));
   }
 
   async initialize(): Promise<void> {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    if (version !== SCHEMA_VERSION) {
+      this.resetSchema();
+    }
+
     // Create notes table
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS notes (
@@ -35,7 +125,8 @@ export class DatabaseStorage implements IStorage {
         modified TEXT,
         type TEXT,
         status TEXT,
-        category TEXT
+        category TEXT,
+        line_offset INTEGER NOT NULL DEFAULT 0
       )
     `);
 
@@ -44,7 +135,8 @@ export class DatabaseStorage implements IStorage {
       CREATE TABLE IF NOT EXISTS note_tags (
         note_path TEXT NOT NULL,
         tag TEXT NOT NULL,
-        PRIMARY KEY (note_path, tag),
+        source TEXT NOT NULL DEFAULT 'frontmatter',
+        PRIMARY KEY (note_path, tag, source),
         FOREIGN KEY (note_path) REFERENCES notes(path) ON DELETE CASCADE
       )
     `);
@@ -60,6 +152,67 @@ export class DatabaseStorage implements IStorage {
       )
     `);
 
+    // Create file fingerprint table used to skip unchanged files on startup
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS note_fingerprints (
+        note_path TEXT PRIMARY KEY,
+        mtime_ms REAL NOT NULL,
+        size INTEGER NOT NULL,
+        hash TEXT,
+        FOREIGN KEY (note_path) REFERENCES notes(path) ON DELETE CASCADE
+      )
+    `);
+
+    // Create links table for the note graph (targets are resolved at query time)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS note_links (
+        source_path TEXT NOT NULL,
+        target TEXT NOT NULL,
+        target_name TEXT NOT NULL,
+        subpath TEXT,
+        alias TEXT,
+        kind TEXT NOT NULL,
+        line INTEGER NOT NULL,
+        FOREIGN KEY (source_path) REFERENCES notes(path) ON DELETE CASCADE
+      )
+    `);
+
+    // Create tasks table for markdown checkbox items
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tasks (
+        note_path TEXT NOT NULL,
+        line INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        description TEXT NOT NULL,
+        status TEXT NOT NULL,
+        priority TEXT NOT NULL,
+        heading TEXT,
+        tags TEXT NOT NULL,
+        due TEXT,
+        scheduled TEXT,
+        start TEXT,
+        done TEXT,
+        PRIMARY KEY (note_path, line),
+        FOREIGN KEY (note_path) REFERENCES notes(path) ON DELETE CASCADE
+      )
+    `);
+
+    // Create chunks table for semantic search: note passages with their embeddings
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS note_chunks (
+        note_path TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        line INTEGER NOT NULL,
+        heading TEXT,
+        text TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        embedder TEXT NOT NULL,
+        source_hash TEXT NOT NULL,
+        PRIMARY KEY (note_path, position),
+        FOREIGN KEY (note_path) REFERENCES notes(path) ON DELETE CASCADE
+      )
+    `);
+
     // Create indexes for common queries
     this.db.exec(`
       CREATE INDEX IF NOT EXISTS idx_notes_modified ON notes(modified DESC);
@@ -68,117 +221,111 @@ export class DatabaseStorage implements IStorage {
       CREATE INDEX IF NOT EXISTS idx_notes_category ON notes(category);
       CREATE INDEX IF NOT EXISTS idx_note_tags_tag ON note_tags(tag);
       CREATE INDEX IF NOT EXISTS idx_note_tags_path ON note_tags(note_path);
+      CREATE INDEX IF NOT EXISTS idx_note_links_source ON note_links(source_path);
+      CREATE INDEX IF NOT EXISTS idx_note_links_target_name ON note_links(target_name);
+      CREATE INDEX IF NOT EXISTS idx_tasks_status_due ON tasks(status, due);
 
       -- Full-text search indexes
       CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts5(
         path UNINDEXED,
         title,
         content,
+        tags,
+        frontmatter,
         tokenize = 'porter'
       );
     `);
+
+    // Journal of changes made by write tools. It is not derived from the vault,
+    // so resetSchema and clear leave it alone.
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS journal (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        tool TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        undone_by INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS journal_files (
+        entry_id INTEGER NOT NULL,
+        position INTEGER NOT NULL,
+        path TEXT NOT NULL,
+        before_content TEXT,
+        after_content TEXT,
+        PRIMARY KEY (entry_id, position),
+        FOREIGN KEY (entry_id) REFERENCES journal(id) ON DELETE CASCADE
+      );
+    `);
+
+    this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
   }
 
   async upsertNote(note: Note): Promise<void> {
     const transaction = this.db.transaction(() => {
-      // Insert/update main note
-      const stmt = this.db.prepare(`
-        INSERT OR REPLACE INTO notes (path, title, content, excerpt, created, modified, type, status, category)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `);
-      stmt.run(
-        note.path,
-        note.title,
-        note.content,
-        note.excerpt || null,
-        note.frontmatter.created || null,
-        note.frontmatter.modified || null,
-        note.frontmatter.type || 'note',
-        note.frontmatter.status || 'active',
-        note.frontmatter.category || 'personal'
-      );
+      this.writeNote(note);
+    });
 
-      // Delete existing tags and frontmatter
-      this.db.prepare('DELETE FROM note_tags WHERE note_path = ?').run(note.path);
-      this.db.prepare('DELETE FROM note_frontmatter WHERE note_path = ?').run(note.path);
+    transaction();
+  }
 
-      // Insert tags
-      if (note.frontmatter.tags && note.frontmatter.tags.length > 0) {
-        const tagStmt = this.db.prepare('INSERT INTO note_tags (note_path, tag) VALUES (?, ?)');
-        for (const tag of note.frontmatter.tags) {
-          tagStmt.run(note.path, tag);
-        }
+  async upsertNotes(notes: Note[]): Promise<void> {
+    const transaction = this.db.transaction(() => {
+      for (const note of notes) {
+        this.writeNote(note);
       }
+    });
 
-      // Insert custom frontmatter fields
-      const frontmatterStmt = this.db.prepare('INSERT INTO note_frontmatter (note_path, key, value) VALUES (?, ?, ?)');
-      for (const [key, value] of Object.entries(note.frontmatter)) {
-        if (!['created', 'modified', 'tags', 'type', 'status', 'category'].includes(key)) {
-          frontmatterStmt.run(note.path, key, JSON.stringify(value));
-        }
-      }
+    transaction();
+  }
 
-      // Update FTS index
-      this.db.prepare(`
-        INSERT OR REPLACE INTO notes_fts (path, title, content)
-        VALUES (?, ?, ?)
-      `).run(note.path, note.title, note.content);
+  async deleteNote(path: string): Promise<void> {
+    const transaction = this.db.transaction(() => {
+      this.removeNote(path);
     });
 
     transaction();
   }
 
-  async upsertNotes(notes: Note[]): Promise<void> {
+  async deleteNotes(paths: string[]): Promise<void> {
     const transaction = this.db.transaction(() => {
-      for (const note of notes) {
-        // Insert/update main note
-        const stmt = this.db.prepare(`
-          INSERT OR REPLACE INTO notes (path, title, content, excerpt, created, modified, type, status, category)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `);
-        stmt.run(
-          note.path,
-          note.title,
-          note.content,
-          note.excerpt || null,
-          note.frontmatter.created || null,
-          note.frontmatter.modified || null,
-          note.frontmatter.type || 'note',
-          note.frontmatter.status || 'active',
-          note.frontmatter.category || 'personal'
-        );
+      for (const path of paths) {
+        this.removeNote(path);
+      }
+    });
+
+    transaction();
+  }
 
-        // Delete existing tags and frontmatter
-        this.db.prepare('DELETE FROM note_tags WHERE note_path = ?').run(note.path);
-        this.db.prepare('DELETE FROM note_frontmatter WHERE note_path = ?').run(note.path);
-
-        // Insert tags
-        if (note.frontmatter.tags && note.frontmatter.tags.length > 0) {
-          const tagStmt = this.db.prepare('INSERT INTO note_tags (note_path, tag) VALUES (?, ?)');
-          for (const tag of note.frontmatter.tags) {
-            tagStmt.run(note.path, tag);
-          }
-        }
-
-        // Insert custom frontmatter fields
-        const frontmatterStmt = this.db.prepare('INSERT INTO note_frontmatter (note_path, key, value) VALUES (?, ?, ?)');
-        for (const [key, value] of Object.entries(note.frontmatter)) {
-          if (!['created', 'modified', 'tags', 'type', 'status', 'category'].includes(key)) {
-            frontmatterStmt.run(note.path, key, JSON.stringify(value));
-          }
-        }
-
-        // Update FTS index
-        this.db.prepare(`
-          INSERT OR REPLACE INTO notes_fts (path, title, content)
-          VALUES (?, ?, ?)
-        `).run(note.path, note.title, note.content);
+  async replaceNotes(removedPaths: string[], notes: Note[]): Promise<void> {
+    const transaction = this.db.transaction(() => {
+      for (const path of removedPaths) {
+        this.removeNote(path);
+      }
+      for (const note of notes) {
+        this.writeNote(note);
       }
     });
 
     transaction();
   }
 
+  async getNotePaths(options?: SearchOptions): Promise<string[]> {
+    if (!options) {
+      const rows = this.db.prepare('SELECT path FROM notes').all() as Array<{ path: string }>;
+      return rows.map(row => row.path);
+    }
+
+    const filters = this.buildFilters(options);
+    const where = filters.conditions.length > 0 ? ` WHERE ${filters.conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(`SELECT DISTINCT n.path FROM notes n${filters.joins}${where}`).all(...filters.params) as Array<{ path: string }>;
+    return rows.map(row => row.path);
+  }
+
+  async getFingerprints(): Promise<Map<string, FileFingerprint>> {
+    const rows = this.db.prepare('SELECT note_path, mtime_ms, size, hash FROM note_fingerprints').all() as FingerprintRow[];
+    return new Map(rows.map(row => [row.note_path, this.rowToFingerprint(row)]));
+  }
+
   async getNote(path: string): Promise<Note | null> {
     const noteRow = this.db.prepare('SELECT * FROM notes WHERE path = ?').get(path) as any;
     if (!noteRow) return null;
@@ -186,31 +333,307 @@ export class DatabaseStorage implements IStorage {
     return this.rowToNote(noteRow);
   }
 
+  async getLinks(filter: { source?: string; targetName?: string } = {}): Promise<IndexedLink[]> {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filter.source !== undefined) {
+      conditions.push('source_path = ?');
+      params.push(filter.source);
+    }
+    if (filter.targetName !== undefined) {
+      conditions.push('target_name = ?');
+      params.push(filter.targetName);
+    }
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(`SELECT * FROM note_links${where} ORDER BY source_path, rowid`).all(...params) as LinkRow[];
+    return rows.map(row => ({ ...this.rowToLink(row), source: row.source_path }));
+  }
+
   async getAllNotes(): Promise<Note[]> {
     const rows = this.db.prepare('SELECT * FROM notes').all() as any[];
     return rows.map(row => this.rowToNote(row));
   }
 
   async searchNotes(query: string, options: SearchOptions = {}): Promise<Note[]> {
+    // An advanced query is handed to FTS5 as written; a plain one goes through the query language,
+    // which searches whatever it cannot parse as text
+    const advanced = options.mode === 'advanced' && query.trim() !== '';
+    const tree = advanced ? null : parseQuery(query, { lenient: true });
     let sql = 'SELECT DISTINCT n.* FROM notes n';
     const params: any[] = [];
     const conditions: string[] = [];
 
-    // Full-text search if query provided
-    if (query) {
-      sql += ' JOIN notes_fts fts ON n.path = fts.path';
-      conditions.push('notes_fts MATCH ?');
-      params.push(query);
+    // Rank by how well notes match any of the text terms; the query itself decides which notes match.
+    // bm25() takes a weight per notes_fts column: path, title, content, tags, frontmatter
+    const rankTerms = positiveTextTerms(tree);
+    const ranked = advanced || rankTerms.length > 0;
+    if (ranked) {
+      if (advanced) {
+        checkAdvancedFtsQuery(query);
+      }
+      const weights = this.searchWeights;
+      sql = 'WITH ranked AS (SELECT path, bm25(notes_fts, 0, ?, ?, ?, ?) AS bm25 FROM notes_fts WHERE notes_fts MATCH ?) ' +
+        "SELECT DISTINCT n.*, search_score(r.bm25, COALESCE(NULLIF(n.modified, ''), n.created)) AS score FROM notes n " +
+        `${advanced ? 'JOIN' : 'LEFT JOIN'} ranked r ON r.path = n.path`;
+      params.push(weights.title, weights.content, weights.tags, weights.frontmatter, advanced ? query : plainFtsQuery(rankTerms));
+    }
+
+    if (tree) {
+      const compiled = compileQueryToSql(tree, term => ({
+        sql: 'n.path IN (SELECT path FROM notes_fts WHERE notes_fts MATCH ?)',
+        params: [quoteFtsTerm(term)]
+      }));
+      conditions.push(compiled.sql);
+      params.push(...compiled.params);
     }
 
+    const filters = this.buildFilters(options);
+    sql += filters.joins;
+    conditions.push(...filters.conditions);
+    params.push(...filters.params);
+
+    // Build WHERE clause
+    if (conditions.length > 0) {
+      sql += ' WHERE ' + conditions.join(' AND ');
+    }
+
+    // Order by score if searching for text, otherwise by modification date
+    sql += ranked ? ' ORDER BY score DESC, n.modified DESC' : ' ORDER BY n.modified DESC';
+
+    // Apply limit
+    const limit = options.limit || 20;
+    sql += ' LIMIT ?';
+    params.push(limit);
+
+    try {
+      const rows = this.db.prepare(sql).all(...params) as any[];
+      return this.withMatches(
+        rows.map(row => (ranked ? { ...this.rowToNote(row), score: row.score } : this.rowToNote(row))),
+        advanced ? query : rankTerms.length > 0 ? plainFtsQuery(rankTerms) : null,
+        rankTerms,
+        [...positiveTagFilters(tree), ...(options.tags ?? [])]
+      );
+    } catch (error) {
+      throw advanced ? describeFtsError(error, query) : error;
+    }
+  }
+
+  async getNotesByTag(tag: string, source?: TagSource): Promise<Note[]> {
+    const sql = `
+      SELECT DISTINCT n.* FROM notes n
+      JOIN note_tags nt ON n.path = nt.note_path
+      WHERE (LOWER(nt.tag) = LOWER(?) OR nt.tag LIKE ?)${source ? ' AND nt.source = ?' : ''}
+      ORDER BY n.modified DESC
+    `;
+    const params = source ? [tag, `${tag}/%`, source] : [tag, `${tag}/%`];
+    const rows = this.db.prepare(sql).all(...params) as any[];
+    return rows.map(row => this.rowToNote(row));
+  }
+
+  async getTagCounts(source?: TagSource): Promise<TagCount[]> {
+    // Expand every (note, tag) pair into one row per ancestor prefix ("a", "a/b", "a/b/c"),
+    // then aggregate per prefix so notes are counted once however many descendants they carry
+    const sql = `
+      WITH RECURSIVE tagged(note_path, tag, modified) AS (
+        SELECT DISTINCT nt.note_path, nt.tag, NULLIF(n.modified, '')
+        FROM note_tags nt
+        JOIN notes n ON n.path = nt.note_path
+        ${source ? 'WHERE nt.source = ?' : ''}
+      ),
+      prefixes(note_path, tag, modified, prefix, rest) AS (
+        SELECT note_path, tag, modified,
+          substr(tag, 1, instr(tag || '/', '/') - 1),
+          substr(tag, instr(tag || '/', '/') + 1)
+        FROM tagged
+        UNION ALL
+        SELECT note_path, tag, modified,
+          prefix || '/' || substr(rest, 1, instr(rest || '/', '/') - 1),
+          substr(rest, instr(rest || '/', '/') + 1)
+        FROM prefixes
+        WHERE rest <> ''
+      )
+      SELECT
+        prefix AS tag,
+        COUNT(DISTINCT CASE WHEN prefix = tag THEN note_path END) AS direct_count,
+        COUNT(DISTINCT note_path) AS total_count,
+        MAX(modified) AS last_modified
+      FROM prefixes
+      GROUP BY prefix
+      ORDER BY prefix
+    `;
+    const rows = this.db.prepare(sql).all(...(source ? [source] : [])) as TagCountRow[];
+    return rows.map(row => ({
+      tag: row.tag,
+      directCount: row.direct_count,
+      totalCount: row.total_count,
+      lastModified: row.last_modified
+    }));
+  }
+
+  async queryTasks(query: TaskQuery): Promise<IndexedTask[]> {
+    // Reuse the note path and archive filters, then narrow by task fields
+    const { conditions, params } = this.buildFilters({ path: query.path, includeArchive: query.includeArchive });
+
+    if (query.status) {
+      conditions.push('t.status = ?');
+      params.push(query.status);
+    }
+    if (query.priority) {
+      conditions.push('t.priority = ?');
+      params.push(query.priority);
+    }
+    if (query.dueFrom) {
+      conditions.push('t.due >= ?');
+      params.push(query.dueFrom);
+    }
+    if (query.dueTo) {
+      conditions.push('t.due <= ?');
+      params.push(query.dueTo);
+    }
+    if (query.tag) {
+      conditions.push(`(
+        EXISTS (SELECT 1 FROM json_each(t.tags) WHERE LOWER(value) = LOWER(?) OR value LIKE ?)
+        OR EXISTS (SELECT 1 FROM note_tags nt WHERE nt.note_path = t.note_path AND (LOWER(nt.tag) = LOWER(?) OR nt.tag LIKE ?))
+      )`);
+      params.push(query.tag, `${query.tag}/%`, query.tag, `${query.tag}/%`);
+    }
+
+    let sql = `
+      SELECT t.* FROM tasks t
+      JOIN notes n ON n.path = t.note_path
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY t.due IS NULL, t.due, t.note_path, t.line
+    `;
+    if (query.limit) {
+      sql += ' LIMIT ?';
+      params.push(query.limit);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as TaskRow[];
+    return rows.map(row => ({ path: row.note_path, ...this.rowToTask(row) }));
+  }
+
+  async getRecentNotes(limit: number): Promise<Note[]> {
+    const rows = this.db.prepare('SELECT * FROM notes ORDER BY modified DESC LIMIT ?').all(limit) as any[];
+    return rows.map(row => this.rowToNote(row));
+  }
+
+  async getChunkSources(embedderId: string): Promise<Map<string, string>> {
+    this.db.prepare('DELETE FROM note_chunks WHERE embedder <> ?').run(embedderId);
+    const rows = this.db.prepare('SELECT DISTINCT note_path, source_hash FROM note_chunks').all() as Array<{ note_path: string; source_hash: string }>;
+    return new Map(rows.map(row => [row.note_path, row.source_hash]));
+  }
+
+  async setNoteChunks(path: string, embedderId: string, sourceHash: string, chunks: NoteChunk[]): Promise<void> {
+    const transaction = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM note_chunks WHERE note_path = ?').run(path);
+      const stmt = this.db.prepare(`
+        INSERT INTO note_chunks (note_path, position, line, heading, text, vector, embedder, source_hash)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      chunks.forEach((chunk, position) => {
+        const vector = Buffer.from(chunk.vector.buffer, chunk.vector.byteOffset, chunk.vector.byteLength);
+        stmt.run(path, position, chunk.line, chunk.heading ?? null, chunk.text, vector, embedderId, sourceHash);
+      });
+    });
+
+    transaction();
+  }
+
+  async getChunkVectors(paths?: string[]): Promise<ChunkVector[]> {
+    const where = paths ? ` WHERE note_path IN (${paths.map(() => '?').join(', ')})` : '';
+    const rows = this.db.prepare(`SELECT note_path, position, line, heading, vector FROM note_chunks${where} ORDER BY note_path, position`)
+      .all(...(paths ?? [])) as ChunkRow[];
+    return rows.map(row => ({
+      path: row.note_path,
+      position: row.position,
+      line: row.line,
+      ...(row.heading !== null ? { heading: row.heading } : {}),
+      // Copy the bytes: a Float32Array needs an aligned buffer of its own
+      vector: new Float32Array(new Uint8Array(row.vector).buffer)
+    }));
+  }
+
+  async getChunkText(path: string, position: number): Promise<string | null> {
+    const row = this.db.prepare('SELECT text FROM note_chunks WHERE note_path = ? AND position = ?').get(path, position) as { text: string } | undefined;
+    return row?.text ?? null;
+  }
+
+  async addJournalEntry(entry: Omit<JournalEntry, 'id' | 'undoneBy'>): Promise<number> {
+    const transaction = this.db.transaction(() => {
+      const { lastInsertRowid } = this.db.prepare('INSERT INTO journal (tool, timestamp) VALUES (?, ?)').run(entry.tool, entry.timestamp);
+      const id = Number(lastInsertRowid);
+
+      const insertFile = this.db.prepare(`
+        INSERT INTO journal_files (entry_id, position, path, before_content, after_content)
+        VALUES (?, ?, ?, ?, ?)
+      `);
+      entry.files.forEach((file, position) => {
+        insertFile.run(id, position, file.path, file.before, file.after);
+      });
+
+      // Keep only the most recent entries
+      const cutoff = id - MAX_JOURNAL_ENTRIES;
+      this.db.prepare('DELETE FROM journal_files WHERE entry_id <= ?').run(cutoff);
+      this.db.prepare('DELETE FROM journal WHERE id <= ?').run(cutoff);
+      return id;
+    });
+
+    return transaction();
+  }
+
+  async getJournalEntries(limit: number): Promise<JournalEntry[]> {
+    const rows = this.db.prepare('SELECT id, tool, timestamp, undone_by FROM journal ORDER BY id DESC LIMIT ?').all(limit) as JournalRow[];
+    return rows.map(row => this.rowToJournalEntry(row));
+  }
+
+  async getJournalEntry(id: number): Promise<JournalEntry | null> {
+    const row = this.db.prepare('SELECT id, tool, timestamp, undone_by FROM journal WHERE id = ?').get(id) as JournalRow | undefined;
+    return row ? this.rowToJournalEntry(row) : null;
+  }
+
+  async markJournalEntryUndone(id: number, undoneBy: number): Promise<void> {
+    this.db.prepare('UPDATE journal SET undone_by = ? WHERE id = ?').run(undoneBy, id);
+  }
+
+  async clear(): Promise<void> {
+    this.db.exec('DELETE FROM notes');
+    this.db.exec('DELETE FROM note_tags');
+    this.db.exec('DELETE FROM note_frontmatter');
+    this.db.exec('DELETE FROM notes_fts');
+    this.db.exec('DELETE FROM note_fingerprints');
+    this.db.exec('DELETE FROM note_links');
+    this.db.exec('DELETE FROM tasks');
+    this.db.exec('DELETE FROM note_chunks');
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  /**
+   * Build the JOIN and WHERE fragments for the metadata filters shared by all note queries
+   * (everything in SearchOptions except the query and limit)
+   */
+  private buildFilters(options: SearchOptions): { joins: string; conditions: string[]; params: Array<string | number> } {
+    let joins = '';
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
     // Tag filter with hierarchical support
     if (options.tags && options.tags.length > 0) {
-      sql += ' JOIN note_tags nt ON n.path = nt.note_path';
-      const tagConditions = options.tags.map(() => '(nt.tag = ? OR nt.tag LIKE ?)').join(' OR ');
+      joins += ' JOIN note_tags nt ON n.path = nt.note_path';
+      const tagConditions = options.tags.map(() => '(LOWER(nt.tag) = LOWER(?) OR nt.tag LIKE ?)').join(' OR ');
       conditions.push(`(${tagConditions})`);
       for (const tag of options.tags) {
         params.push(tag, `${tag}/%`);
       }
+      if (options.tagSource) {
+        conditions.push('nt.source = ?');
+        params.push(options.tagSource);
+      }
     }
 
     // Path filter
@@ -259,50 +682,227 @@ export class DatabaseStorage implements IStorage {
       params.push(options.dateTo);
     }
 
-    // Build WHERE clause
-    if (conditions.length > 0) {
-      sql += ' WHERE ' + conditions.join(' AND ');
+    return { joins, conditions, params };
+  }
+
+  /**
+   * Write a note and its derived rows (must be called inside a transaction)
+   */
+  private writeNote(note: Note): void {
+    // Insert/update main note
+    this.db.prepare(`
+      INSERT OR REPLACE INTO notes (path, title, content, excerpt, created, modified, type, status, category, line_offset)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      note.path,
+      note.title,
+      note.content,
+      note.excerpt || null,
+      note.frontmatter.created || null,
+      note.frontmatter.modified || null,
+      note.frontmatter.type || 'note',
+      note.frontmatter.status || 'active',
+      note.frontmatter.category || 'personal',
+      note.lineOffset ?? 0
+    );
+
+    // Delete existing tags, frontmatter and FTS entry
+    this.db.prepare('DELETE FROM note_tags WHERE note_path = ?').run(note.path);
+    this.db.prepare('DELETE FROM note_frontmatter WHERE note_path = ?').run(note.path);
+    this.db.prepare('DELETE FROM notes_fts WHERE path = ?').run(note.path);
+
+    // Insert frontmatter and inline tags
+    const tagStmt = this.db.prepare('INSERT OR IGNORE INTO note_tags (note_path, tag, source) VALUES (?, ?, ?)');
+    for (const tag of note.frontmatter.tags ?? []) {
+      tagStmt.run(note.path, tag, 'frontmatter');
+    }
+    for (const tag of note.inlineTags ?? []) {
+      tagStmt.run(note.path, tag, 'inline');
     }
 
-    // Order by relevance (FTS rank) if searching, otherwise by modification date
-    sql += query
-      ? ' ORDER BY fts.rank, n.modified DESC'
-      : ' ORDER BY n.modified DESC';
+    // Insert custom frontmatter fields
+    const frontmatterStmt = this.db.prepare('INSERT INTO note_frontmatter (note_path, key, value) VALUES (?, ?, ?)');
+    for (const [key, value] of Object.entries(note.frontmatter)) {
+      if (!['created', 'modified', 'tags', 'type', 'status', 'category'].includes(key)) {
+        frontmatterStmt.run(note.path, key, JSON.stringify(value));
+      }
+    }
 
-    // Apply limit
-    const limit = options.limit || 20;
-    sql += ' LIMIT ?';
-    params.push(limit);
+    // Update FTS index (FTS5 has no primary key, so the old row was deleted above)
+    this.db.prepare(`
+      INSERT INTO notes_fts (path, title, content, tags, frontmatter)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(
+      note.path,
+      note.title,
+      note.content,
+      [...(note.frontmatter.tags ?? []), ...(note.inlineTags ?? [])].join(' '),
+      [note.frontmatter.type, note.frontmatter.status, note.frontmatter.category].filter(Boolean).join(' ')
+    );
+
+    // Replace outgoing links
+    this.db.prepare('DELETE FROM note_links WHERE source_path = ?').run(note.path);
+    if (note.links && note.links.length > 0) {
+      const linkStmt = this.db.prepare(`
+        INSERT INTO note_links (source_path, target, target_name, subpath, alias, kind, line)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `);
+      for (const link of note.links) {
+        linkStmt.run(note.path, link.target, linkTargetName(link.target), link.subpath ?? null, link.alias ?? null, link.kind, link.line);
+      }
+    }
 
-    const rows = this.db.prepare(sql).all(...params) as any[];
-    return rows.map(row => this.rowToNote(row));
+    // Replace checkbox tasks
+    this.db.prepare('DELETE FROM tasks WHERE note_path = ?').run(note.path);
+    if (note.tasks && note.tasks.length > 0) {
+      const taskStmt = this.db.prepare(`
+        INSERT OR REPLACE INTO tasks (note_path, line, text, description, status, priority, heading, tags, due, scheduled, start, done)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      for (const task of note.tasks) {
+        taskStmt.run(
+          note.path,
+          task.line,
+          task.text,
+          task.description,
+          task.status,
+          task.priority,
+          task.heading ?? null,
+          JSON.stringify(task.tags),
+          task.due ?? null,
+          task.scheduled ?? null,
+          task.start ?? null,
+          task.done ?? null
+        );
+      }
+    }
+
+    // Record the file fingerprint so unchanged files can be skipped next time
+    if (note.fingerprint) {
+      this.db.prepare(`
+        INSERT OR REPLACE INTO note_fingerprints (note_path, mtime_ms, size, hash)
+        VALUES (?, ?, ?, ?)
+      `).run(note.path, note.fingerprint.mtimeMs, note.fingerprint.size, note.fingerprint.hash ?? null);
+    } else {
+      this.db.prepare('DELETE FROM note_fingerprints WHERE note_path = ?').run(note.path);
+    }
   }
 
-  async getNotesByTag(tag: string): Promise<Note[]> {
-    const sql = `
-      SELECT DISTINCT n.* FROM notes n
-      JOIN note_tags nt ON n.path = nt.note_path
-      WHERE nt.tag = ? OR nt.tag LIKE ?
-      ORDER BY n.modified DESC
-    `;
-    const rows = this.db.prepare(sql).all(tag, `${tag}/%`) as any[];
-    return rows.map(row => this.rowToNote(row));
+  /**
+   * Remove a note and its derived rows (must be called inside a transaction)
+   */
+  private removeNote(path: string): void {
+    this.db.prepare('DELETE FROM note_tags WHERE note_path = ?').run(path);
+    this.db.prepare('DELETE FROM note_frontmatter WHERE note_path = ?').run(path);
+    this.db.prepare('DELETE FROM notes_fts WHERE path = ?').run(path);
+    this.db.prepare('DELETE FROM note_fingerprints WHERE note_path = ?').run(path);
+    this.db.prepare('DELETE FROM note_links WHERE source_path = ?').run(path);
+    this.db.prepare('DELETE FROM tasks WHERE note_path = ?').run(path);
+    this.db.prepare('DELETE FROM note_chunks WHERE note_path = ?').run(path);
+    this.db.prepare('DELETE FROM notes WHERE path = ?').run(path);
   }
 
-  async getRecentNotes(limit: number): Promise<Note[]> {
-    const rows = this.db.prepare('SELECT * FROM notes ORDER BY modified DESC LIMIT ?').all(limit) as any[];
-    return rows.map(row => this.rowToNote(row));
+  /**
+   * Add the passages that matched a search to each note: title and content lines marked by
+   * FTS5 highlight(), and tags matching the search words or tag filters
+   * @param ftsQuery - FTS5 expression for the text part of the search, if any
+   */
+  private withMatches(notes: Note[], ftsQuery: string | null, terms: TextTerm[], tagFilters: string[]): Note[] {
+    if (notes.length === 0 || (!ftsQuery && tagFilters.length === 0)) return notes;
+
+    const highlighted = new Map<string, { title: string; content: string }>();
+    if (ftsQuery) {
+      const rows = this.db.prepare(`
+        SELECT path, highlight(notes_fts, 1, ?, ?) AS title, highlight(notes_fts, 2, ?, ?) AS content
+        FROM notes_fts
+        WHERE notes_fts MATCH ? AND path IN (${notes.map(() => '?').join(', ')})
+      `).all(
+        HIGHLIGHT_OPEN, HIGHLIGHT_CLOSE, HIGHLIGHT_OPEN, HIGHLIGHT_CLOSE,
+        ftsQuery,
+        ...notes.map(note => note.path)
+      ) as Array<{ path: string; title: string; content: string }>;
+      for (const row of rows) {
+        highlighted.set(row.path, row);
+      }
+    }
+
+    return notes.map(note => {
+      const row = highlighted.get(note.path);
+      const title = row ? parseHighlighted(row.title) : null;
+      const content = row ? parseHighlighted(row.content) : null;
+      return {
+        ...note,
+        matches: [
+          ...(title ? textMatches('title', title.text, title.ranges) : []),
+          ...(content ? textMatches('content', content.text, content.ranges, note.lineOffset) : []),
+          ...tagMatches([...(note.frontmatter.tags ?? []), ...(note.inlineTags ?? [])], terms, tagFilters)
+        ]
+      };
+    });
   }
 
-  async clear(): Promise<void> {
-    this.db.exec('DELETE FROM notes');
-    this.db.exec('DELETE FROM note_tags');
-    this.db.exec('DELETE FROM note_frontmatter');
-    this.db.exec('DELETE FROM notes_fts');
+  /**
+   * Drop all index tables so they are recreated with the current schema
+   */
+  private resetSchema(): void {
+    this.db.exec(`
+      DROP TABLE IF EXISTS note_tags;
+      DROP TABLE IF EXISTS note_frontmatter;
+      DROP TABLE IF EXISTS note_fingerprints;
+      DROP TABLE IF EXISTS note_links;
+      DROP TABLE IF EXISTS tasks;
+      DROP TABLE IF EXISTS note_chunks;
+      DROP TABLE IF EXISTS notes_fts;
+      DROP TABLE IF EXISTS notes;
+    `);
   }
 
-  async close(): Promise<void> {
-    this.db.close();
+  private rowToJournalEntry(row: JournalRow): JournalEntry {
+    const files = this.db.prepare(`
+      SELECT entry_id, path, before_content, after_content FROM journal_files WHERE entry_id = ? ORDER BY position
+    `).all(row.id) as JournalFileRow[];
+
+    return {
+      id: row.id,
+      tool: row.tool,
+      timestamp: row.timestamp,
+      files: files.map(file => ({ path: file.path, before: file.before_content, after: file.after_content })),
+      ...(row.undone_by !== null ? { undoneBy: row.undone_by } : {})
+    };
+  }
+
+  private rowToLink(row: LinkRow): NoteLink {
+    return {
+      target: row.target,
+      ...(row.subpath ? { subpath: row.subpath } : {}),
+      ...(row.alias ? { alias: row.alias } : {}),
+      kind: row.kind,
+      line: row.line
+    };
+  }
+
+  private rowToTask(row: TaskRow): NoteTask {
+    return {
+      line: row.line,
+      text: row.text,
+      description: row.description,
+      status: row.status,
+      priority: row.priority,
+      ...(row.heading ? { heading: row.heading } : {}),
+      tags: JSON.parse(row.tags) as string[],
+      ...(row.due ? { due: row.due } : {}),
+      ...(row.scheduled ? { scheduled: row.scheduled } : {}),
+      ...(row.start ? { start: row.start } : {}),
+      ...(row.done ? { done: row.done } : {})
+    };
+  }
+
+  private rowToFingerprint(row: FingerprintRow): FileFingerprint {
+    return {
+      mtimeMs: row.mtime_ms,
+      size: row.size,
+      ...(row.hash ? { hash: row.hash } : {})
+    };
   }
 
   /**
@@ -310,7 +910,8 @@ export class DatabaseStorage implements IStorage {
    */
   private rowToNote(row: any): Note {
     // Get tags for this note
-    const tags = this.db.prepare('SELECT tag FROM note_tags WHERE note_path = ?').all(row.path) as any[];
+    const tags = this.db.prepare('SELECT tag, source FROM note_tags WHERE note_path = ?').all(row.path) as Array<{ tag: string; source: TagSource }>;
+    const inlineTags = tags.filter(t => t.source === 'inline').map(t => t.tag);
 
     // Get custom frontmatter
     const frontmatterRows = this.db.prepare('SELECT key, value FROM note_frontmatter WHERE note_path = ?').all(row.path) as any[];
@@ -323,15 +924,24 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
+    const links = this.db.prepare('SELECT * FROM note_links WHERE source_path = ? ORDER BY rowid').all(row.path) as LinkRow[];
+    const tasks = this.db.prepare('SELECT * FROM tasks WHERE note_path = ? ORDER BY line').all(row.path) as TaskRow[];
+    const fingerprint = this.db.prepare('SELECT note_path, mtime_ms, size, hash FROM note_fingerprints WHERE note_path = ?').get(row.path) as FingerprintRow | undefined;
+
     return {
       path: row.path,
       title: row.title,
       content: row.content,
       excerpt: row.excerpt,
+      ...(row.line_offset ? { lineOffset: row.line_offset } : {}),
+      ...(fingerprint ? { fingerprint: this.rowToFingerprint(fingerprint) } : {}),
+      ...(links.length > 0 ? { links: links.map(link => this.rowToLink(link)) } : {}),
+      ...(inlineTags.length > 0 ? { inlineTags } : {}),
+      ...(tasks.length > 0 ? { tasks: tasks.map(task => this.rowToTask(task)) } : {}),
       frontmatter: {
         created: row.created,
         modified: row.modified,
-        tags: tags.map(t => t.tag),
+        tags: tags.filter(t => t.source === 'frontmatter').map(t => t.tag),
         type: row.type,
         status: row.status,
         category: row.category,
@@ -0,0 +1,119 @@
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+
+/**
+ * Turns text into vectors for semantic search. Implementations must work offline.
+ *
+ * A custom embedder (e.g. an ONNX sentence model loaded from disk) is a JavaScript module
+ * passed with --embedder that exports `createEmbedder()`, returning an Embedder or a promise of one.
+ */
+export interface Embedder {
+  /** Identifies the model and its settings; vectors stored under another id are rebuilt */
+  readonly id: string;
+  /**
+   * Embed each text as a vector of the same length. Vectors are compared by cosine similarity.
+   */
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+/** Words too common to say anything about a passage */
+export const STOP_WORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'did', 'do', 'does',
+  'for', 'from', 'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me',
+  'my', 'no', 'not', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'them', 'then',
+  'there', 'these', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which',
+  'who', 'why', 'will', 'with', 'you', 'your'
+]);
+
+/**
+ * Words of a text, lower-cased, without stop words and single characters
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Offline default embedder: a hashed TF vector of the words and of their character trigrams.
+ * Each feature is hashed to one of `dimensions` slots with a random sign, counts are damped
+ * logarithmically, and the vector is normalised. Trigrams let related word forms
+ * ("deploy", "deployment") overlap. It captures shared vocabulary rather than meaning, so it
+ * is a fallback for when no model is configured. Rare words weigh more at query time,
+ * when the semantic index applies inverse document frequency.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(private readonly dimensions: number = 512) {
+    this.id = `hashing-v1-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): Float32Array {
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) ?? 0) + weight);
+
+    for (const word of tokenize(text)) {
+      add(`w:${word}`, 1);
+      const padded = `^${word}$`;
+      for (let index = 0; index + 3 <= padded.length; index++) {
+        add(`t:${padded.slice(index, index + 3)}`, 0.25);
+      }
+    }
+
+    const vector = new Float32Array(this.dimensions);
+    for (const [feature, count] of counts) {
+      const hash = fnv1a(feature);
+      vector[hash % this.dimensions] += (hash & 0x80000000 ? -1 : 1) * (1 + Math.log(1 + count));
+    }
+    return normalize(vector);
+  }
+}
+
+/**
+ * Load the embedder from a module path, or the built-in HashingEmbedder when none is given
+ * @throws {Error} If the module cannot be loaded or does not provide an embedder
+ */
+export async function loadEmbedder(modulePath?: string): Promise<Embedder> {
+  if (!modulePath) {
+    return new HashingEmbedder();
+  }
+
+  const loaded = await import(pathToFileURL(resolve(modulePath)).href) as { createEmbedder?: unknown };
+  if (typeof loaded.createEmbedder !== 'function') {
+    throw new Error(`Embedder module ${modulePath} must export a createEmbedder() function`);
+  }
+  const embedder = await loaded.createEmbedder() as Partial<Embedder> | null;
+  if (!embedder || typeof embedder.id !== 'string' || typeof embedder.embed !== 'function') {
+    throw new Error(`createEmbedder() in ${modulePath} must return an object with an id and an embed() method`);
+  }
+  return embedder as Embedder;
+}
+
+/**
+ * Scale a vector to unit length (a zero vector is returned unchanged)
+ */
+export function normalize(vector: Float32Array): Float32Array {
+  let sum = 0;
+  for (const value of vector) sum += value * value;
+  const length = Math.sqrt(sum);
+  if (length > 0) {
+    for (let index = 0; index < vector.length; index++) vector[index] /= length;
+  }
+  return vector;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,179 @@
+import matter from 'gray-matter';
+import { isValidCategory, isValidStatus, isValidType, parseDate } from './types.js';
+
+/**
+ * Helpers for editing the YAML frontmatter block of a raw note file. Line-level edits keep
+ * untouched fields byte-for-byte; structured edits re-serialise only the frontmatter.
+ */
+
+const FRONTMATTER_DELIMITER = /^---\s*$/;
+
+/**
+ * Kind of change made by a frontmatter operation
+ */
+export type FrontmatterOperationType = 'set' | 'unset' | 'add' | 'remove';
+
+/**
+ * A single change to a top-level frontmatter field
+ */
+export interface FrontmatterOperation {
+  /** set/unset a field, or add/remove values in a list field */
+  op: FrontmatterOperationType;
+  field: string;
+  /** New value (set) or value(s) to add/remove; not used by unset */
+  value?: unknown;
+}
+
+type Scalar = string | number | boolean;
+
+/**
+ * Index of the closing frontmatter delimiter
+ * @param lines - File content split on "\n"
+ * @returns Line index of the closing "---", or -1 if the file has no frontmatter
+ */
+export function findFrontmatterEnd(lines: string[]): number {
+  if (!FRONTMATTER_DELIMITER.test(lines[0] ?? '')) return -1;
+  for (let index = 1; index < lines.length; index++) {
+    if (FRONTMATTER_DELIMITER.test(lines[index])) return index;
+  }
+  return -1;
+}
+
+/**
+ * Set a top-level date field (e.g. `modified`) in the frontmatter, keeping every other byte.
+ * The existing quote style is kept; unquoted values are written single-quoted so YAML
+ * reads them back as strings rather than dates.
+ * @param raw - Full file content
+ * @param key - Frontmatter key
+ * @param date - Date in YYYY-MM-DD format
+ * @returns The updated content; files without frontmatter are returned unchanged
+ */
+export function setFrontmatterDate(raw: string, key: string, date: string): string {
+  const lines = raw.split('\n');
+  const end = findFrontmatterEnd(lines);
+  if (end === -1) return raw;
+
+  const keyPattern = new RegExp(`^${key}:[ \\t]*(["']?)[^\\r]*?\\1?[ \\t]*(\\r?)$`);
+  const index = lines.slice(1, end).findIndex(line => keyPattern.test(line)) + 1;
+
+  if (index > 0) {
+    const [, quote, carriageReturn] = lines[index].match(keyPattern)!;
+    lines[index] = `${key}: ${quote || "'"}${date}${quote || "'"}${carriageReturn}`;
+  } else {
+    const carriageReturn = lines[end].endsWith('\r') ? '\r' : '';
+    lines.splice(end, 0, `${key}: '${date}'${carriageReturn}`);
+  }
+
+  return lines.join('\n');
+}
+
+function isScalar(value: unknown): value is Scalar {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+/**
+ * Check the shape of an operation and validate built-in fields with the NoteFrontmatter guards
+ * @returns An error message, or null if the operation is valid
+ */
+export function validateFrontmatterOperation(operation: unknown): string | null {
+  if (typeof operation !== 'object' || operation === null) {
+    return 'Each operation must be an object with op and field';
+  }
+  const { op, field, value } = operation as Record<string, unknown>;
+
+  if (op !== 'set' && op !== 'unset' && op !== 'add' && op !== 'remove') {
+    return 'Invalid op. Must be one of: set, unset, add, remove';
+  }
+  if (typeof field !== 'string' || field.trim() === '' || /[\r\n]/.test(field)) {
+    return 'Operation field must be a non-empty string';
+  }
+  if (op === 'unset') return null;
+  if (value === undefined) {
+    return `Operation "${op}" on "${field}" requires a value`;
+  }
+
+  const values = Array.isArray(value) ? value : [value];
+  switch (field) {
+    case 'type':
+    case 'status':
+    case 'category': {
+      if (op !== 'set') return `"${field}" is not a list; use set or unset`;
+      const valid = field === 'type' ? isValidType(value) : field === 'status' ? isValidStatus(value) : isValidCategory(value);
+      return valid ? null : `Invalid ${field}: ${String(value)}`;
+    }
+    case 'created':
+    case 'modified':
+      if (op !== 'set') return `"${field}" is not a list; use set or unset`;
+      return typeof value === 'string' && parseDate(value) ? null : `${field} must be in YYYY-MM-DD format`;
+    case 'tags':
+      if (op === 'set' && !Array.isArray(value)) return 'tags must be set to an array of strings';
+      return values.every(tag => typeof tag === 'string' && tag.trim() !== '') ? null : 'tags must be strings';
+    default:
+      if (op === 'set') return null;
+      return values.every(isScalar) ? null : `Values to ${op} must be strings, numbers or booleans`;
+  }
+}
+
+/**
+ * Apply validated operations to parsed frontmatter
+ * @param data - Parsed frontmatter (not modified)
+ * @param operations - Operations checked with validateFrontmatterOperation
+ * @returns The new frontmatter
+ * @throws {Error} If add/remove targets a field that is not a list
+ */
+export function applyFrontmatterOperations(
+  data: Record<string, unknown>,
+  operations: FrontmatterOperation[]
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...data };
+
+  for (const { op, field, value } of operations) {
+    const normalize = (item: unknown) => field === 'tags' && typeof item === 'string' ? item.trim().replace(/^#/, '') : item;
+    const values = (Array.isArray(value) ? value : [value]).map(normalize);
+
+    if (op === 'set') {
+      result[field] = Array.isArray(value) ? Array.from(new Set(values)) : value;
+    } else if (op === 'unset') {
+      delete result[field];
+    } else {
+      const current = result[field] ?? [];
+      if (!Array.isArray(current)) {
+        throw new Error(`Cannot ${op} values: "${field}" is not a list`);
+      }
+      result[field] = op === 'add'
+        ? [...current, ...values.filter((item, index) => !current.includes(item) && values.indexOf(item) === index)]
+        : current.filter(item => !values.includes(item));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Replace a note's frontmatter block with serialised data, keeping the body byte-for-byte
+ * @param raw - Full file content
+ * @param data - New frontmatter; YAML dates are written back as YYYY-MM-DD strings
+ */
+export function replaceFrontmatter(raw: string, data: Record<string, unknown>): string {
+  const lines = raw.split('\n');
+  const end = findFrontmatterEnd(lines);
+  const body = end === -1 ? raw : lines.slice(end + 1).join('\n');
+
+  const serializable: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    serializable[key] = value instanceof Date ? dateToString(value) : value;
+  }
+
+  // stringify('') yields "---\n<yaml>---\n\n"; drop the empty body line
+  const block = matter.stringify('', serializable).replace(/\n$/, '');
+  const eol = raw.includes('\r\n') ? '\r\n' : '\n';
+  return (eol === '\n' ? block : block.replace(/\n/g, eol)) + body;
+}
+
+/**
+ * YAML parses unquoted dates as UTC midnight; turn them back into the text that was written
+ */
+function dateToString(date: Date): string {
+  const iso = date.toISOString();
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+}
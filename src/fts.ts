@@ -0,0 +1,78 @@
+import { QueryParseError, TextTerm } from './query.js';
+
+/**
+ * Translation of search text into SQLite FTS5 MATCH expressions.
+ *
+ * In plain mode every word and phrase is quoted, so characters such as `+`, `-`, `.`, `:`
+ * and keywords such as AND or NEAR are searched for as text and never read as FTS5 syntax.
+ * In advanced mode the query is FTS5 syntax, used on purpose: NEAR groups, `prefix*`,
+ * column filters (`title:`, `content:`, `tags:`, `frontmatter:`), AND/OR/NOT and parentheses.
+ */
+
+/**
+ * Columns of notes_fts that advanced queries can filter on
+ */
+export const FTS_COLUMNS = ['title', 'content', 'tags', 'frontmatter'] as const;
+
+/**
+ * Quote a text term as an FTS5 string; a `prefix*` term keeps its star outside the quotes
+ */
+export function quoteFtsTerm(term: TextTerm): string {
+  return `"${term.text.replace(/"/g, '""')}"${term.prefix ? '*' : ''}`;
+}
+
+/**
+ * FTS5 expression matching any of the given terms, used to rank results
+ */
+export function plainFtsQuery(terms: TextTerm[]): string {
+  return terms.map(quoteFtsTerm).join(' OR ');
+}
+
+/**
+ * Check an advanced query for unbalanced quotes and parentheses before it reaches SQLite,
+ * whose own errors do not say where the problem is
+ * @throws {QueryParseError} With the position of the first problem
+ */
+export function checkAdvancedFtsQuery(query: string): void {
+  const open: number[] = [];
+  for (let index = 0; index < query.length; index++) {
+    const char = query[index];
+    if (char === '"') {
+      // "" inside a string is an escaped quote
+      let close = index + 1;
+      while (close < query.length && !(query[close] === '"' && query[close + 1] !== '"')) {
+        close += query[close] === '"' ? 2 : 1;
+      }
+      if (close >= query.length) {
+        throw new QueryParseError('unterminated quote', query, index);
+      }
+      index = close;
+    } else if (char === '(') {
+      open.push(index);
+    } else if (char === ')') {
+      if (open.pop() === undefined) {
+        throw new QueryParseError('unexpected ")"', query, index);
+      }
+    }
+  }
+  if (open.length > 0) {
+    throw new QueryParseError('missing ")" for this "("', query, open[open.length - 1]);
+  }
+}
+
+/**
+ * Turn an error SQLite raised for an advanced query into a message for the caller
+ * @returns A new error, or the original one if it is not about the query
+ */
+export function describeFtsError(error: unknown, query: string): unknown {
+  // Not `instanceof Error`: the native SqliteError may belong to another realm
+  const message = String((error as { message?: unknown } | null)?.message ?? error);
+  const column = message.match(/^no such column: (.+)$/);
+  if (column) {
+    return new Error(`Invalid advanced query: "${column[1]}" is not a searchable column (use one of ${FTS_COLUMNS.map(name => `${name}:`).join(', ')}) in: ${query}`);
+  }
+  if (/^fts5: |syntax error/.test(message)) {
+    return new Error(`Invalid advanced query: ${message.replace(/^fts5: /, '')} in: ${query}`);
+  }
+  return error;
+}
@@ -0,0 +1,166 @@
+import { NoteFrontmatter, ResolvedLink } from './types.js';
+
+/**
+ * Which link directions a traversal may follow
+ */
+export type LinkDirection = 'outgoing' | 'incoming' | 'both';
+
+/**
+ * A directed edge between two notes, collapsing repeated links between the same pair
+ */
+export interface GraphEdge {
+  /** Path of the linking note */
+  source: string;
+  /** Path of the linked note */
+  target: string;
+  /** Number of links from source to target */
+  count: number;
+}
+
+/**
+ * A note in a graph result
+ */
+export interface GraphNode {
+  path: string;
+  title: string;
+  type?: NoteFrontmatter['type'];
+  tags: string[];
+  /** Hops from the starting note (neighborhood) or position in the chain (path) */
+  depth: number;
+}
+
+/**
+ * Structured graph result returned by the graph tools
+ */
+export interface NoteGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+/**
+ * Directed graph of resolved note-to-note links, used for neighborhood and path queries
+ */
+export class LinkGraph {
+  private readonly outgoing = new Map<string, Map<string, number>>();
+  private readonly incoming = new Map<string, Set<string>>();
+
+  /**
+   * @param links - Resolved links; broken links and self-links are ignored
+   */
+  constructor(links: ResolvedLink[]) {
+    for (const link of links) {
+      if (link.resolved === null || link.resolved === link.source) continue;
+
+      const targets = this.outgoing.get(link.source) ?? new Map<string, number>();
+      targets.set(link.resolved, (targets.get(link.resolved) ?? 0) + 1);
+      this.outgoing.set(link.source, targets);
+
+      const sources = this.incoming.get(link.resolved) ?? new Set<string>();
+      sources.add(link.source);
+      this.incoming.set(link.resolved, sources);
+    }
+  }
+
+  /**
+   * Breadth-first search from a note
+   * @param start - Path of the starting note
+   * @param depth - Maximum number of hops
+   * @param direction - Link directions to follow
+   * @param allow - Predicate a note must satisfy to be visited (the start note is always included)
+   * @returns Hop distance of every reachable note, including the start at 0
+   */
+  neighborhood(
+    start: string,
+    depth: number,
+    direction: LinkDirection = 'both',
+    allow: (path: string) => boolean = () => true
+  ): Map<string, number> {
+    const distances = new Map<string, number>([[start, 0]]);
+    let frontier = [start];
+
+    for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const path of frontier) {
+        for (const neighbor of this.neighbors(path, direction)) {
+          if (!distances.has(neighbor) && allow(neighbor)) {
+            distances.set(neighbor, hop);
+            next.push(neighbor);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    return distances;
+  }
+
+  /**
+   * Find the shortest chain of links between two notes
+   * @param from - Path of the first note
+   * @param to - Path of the last note
+   * @param direction - Link directions to follow ('outgoing' only follows links as written)
+   * @returns Note paths from `from` to `to` inclusive, or null if they are not connected
+   */
+  shortestPath(from: string, to: string, direction: LinkDirection = 'both'): string[] | null {
+    if (from === to) return [from];
+
+    const previous = new Map<string, string>([[from, from]]);
+    const queue = [from];
+
+    for (let index = 0; index < queue.length; index++) {
+      const path = queue[index];
+      for (const neighbor of this.neighbors(path, direction)) {
+        if (previous.has(neighbor)) continue;
+        previous.set(neighbor, path);
+
+        if (neighbor === to) {
+          const chain = [to];
+          while (chain[0] !== from) {
+            chain.unshift(previous.get(chain[0])!);
+          }
+          return chain;
+        }
+        queue.push(neighbor);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Edges whose endpoints are both in the given set of notes
+   */
+  edgesBetween(paths: Set<string>): GraphEdge[] {
+    const edges: GraphEdge[] = [];
+    for (const source of paths) {
+      for (const [target, count] of this.outgoing.get(source) ?? []) {
+        if (paths.has(target)) {
+          edges.push({ source, target, count });
+        }
+      }
+    }
+    return edges;
+  }
+
+  /**
+   * Edge linking two adjacent notes in either direction, if any
+   */
+  edgeBetween(a: string, b: string): GraphEdge | null {
+    const forward = this.outgoing.get(a)?.get(b);
+    if (forward) return { source: a, target: b, count: forward };
+
+    const backward = this.outgoing.get(b)?.get(a);
+    return backward ? { source: b, target: a, count: backward } : null;
+  }
+
+  private neighbors(path: string, direction: LinkDirection): string[] {
+    const result: string[] = [];
+    if (direction !== 'incoming') {
+      result.push(...(this.outgoing.get(path)?.keys() ?? []));
+    }
+    if (direction !== 'outgoing') {
+      result.push(...(this.incoming.get(path) ?? []));
+    }
+    return result;
+  }
+}
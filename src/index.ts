@@ -8,10 +8,18 @@ import {
   Tool
 } from '@modelcontextprotocol/sdk/types.js';
 import { ObsidianVault } from './vault.js';
+import { normalizeTagName } from './tag-rename.js';
 import { defaultConfig } from './config.js';
-import { SearchOptions, VaultConfig, parseDate, isValidType, isValidStatus, isValidCategory, Note } from './types.js';
+import { JournalEntry, NoteFrontmatter, SearchOptions, TagSource, TaskQuery, VaultConfig, parseDate, isValidType, isValidStatus, isValidCategory, isValidTagSource, isValidSearchMode, isValidTaskStatus, isValidTaskPriority, Note, SearchMatch } from './types.js';
+import { TaskUpdate } from './tasks.js';
+import { InsertMode } from './note-edit.js';
+import { FrontmatterOperation, validateFrontmatterOperation } from './frontmatter.js';
+import { VersionConflictError } from './safe-write.js';
+import { BUILT_IN_TEMPLATE_VARIABLES } from './templates.js';
+import { SemanticSearchMode } from './semantic-index.js';
+import { WritePermissions, WritePolicy, mergeWriteRules, parseWritePermissions, parseWriteRuleArgs } from './write-policy.js';
 import { existsSync, statSync, readFileSync } from 'fs';
-import { resolve, normalize, join, dirname } from 'path';
+import { resolve, normalize, join, dirname, isAbsolute } from 'path';
 import { fileURLToPath } from 'url';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -43,10 +51,13 @@ interface NoteSummary {
   title: string;
   excerpt?: string;
   tags?: string[];
+  inlineTags?: string[];
   type?: string;
   status?: string;
   category?: string;
   modified?: string;
+  score?: number;
+  matches?: SearchMatch[];
 }
 
 function formatNoteSummary(note: Note): NoteSummary {
@@ -55,13 +66,45 @@ function formatNoteSummary(note: Note): NoteSummary {
     title: note.title,
     excerpt: note.excerpt,
     tags: note.frontmatter.tags || [],
+    inlineTags: note.inlineTags || [],
     type: note.frontmatter.type,
     status: note.frontmatter.status,
     category: note.frontmatter.category,
-    modified: note.frontmatter.modified
+    modified: note.frontmatter.modified,
+    ...(note.score !== undefined ? { score: Number(note.score.toPrecision(4)) } : {}),
+    ...(note.matches ? { matches: note.matches } : {})
   };
 }
 
+/**
+ * Formats a journal entry without file contents: each file is reported as created, modified or removed
+ */
+function formatJournalSummary(entry: JournalEntry) {
+  return {
+    ...entry,
+    files: entry.files.map(file => ({
+      path: file.path,
+      change: file.before === null ? 'created' : file.after === null ? 'removed' : 'modified'
+    }))
+  };
+}
+
+/**
+ * Helper: Sanitizes a requested note path to prevent directory traversal
+ * @returns The normalized vault-relative path, or null if it resolves outside the vault
+ */
+function sanitizeNotePath(requestedPath: string): string | null {
+  const normalizedPath = normalize(requestedPath).replace(/^(\.\.(\/|\\|$))+/, '');
+  const fullPath = resolve(vaultConfig.vaultPath, normalizedPath);
+
+  // Ensure the resolved path is within the vault
+  if (!fullPath.startsWith(vaultConfig.vaultPath)) {
+    return null;
+  }
+
+  return normalizedPath;
+}
+
 /**
  * Helper: Validates configuration
  */
@@ -78,6 +121,12 @@ function validateConfig(cfg: VaultConfig): void {
   if (cfg.maxFileSize < 1) {
     throw new Error('maxFileSize must be >= 1');
   }
+  if (cfg.watchDebounceMs !== undefined && (isNaN(cfg.watchDebounceMs) || cfg.watchDebounceMs < 0)) {
+    throw new Error('watchDebounceMs must be >= 0');
+  }
+  if (cfg.templateFolder !== undefined && (isAbsolute(cfg.templateFolder) || normalize(cfg.templateFolder).startsWith('..'))) {
+    throw new Error('templateFolder must be a folder inside the vault');
+  }
 }
 
 /**
@@ -136,6 +185,36 @@ const maxRecentNotesArg = getArg(args, '--max-recent-notes');
 const maxRecentNotes = maxRecentNotesArg ? parseInt(maxRecentNotesArg, 10) : defaultConfig.maxRecentNotes!;
 
 const useMemory = args.includes('--use-memory');
+const watch = args.includes('--no-watch') ? false : defaultConfig.watch!;
+
+const watchDebounceArg = getArg(args, '--watch-debounce');
+const watchDebounceMs = watchDebounceArg ? parseInt(watchDebounceArg, 10) : defaultConfig.watchDebounceMs!;
+
+const templateFolder = getArg(args, '--template-folder') ?? defaultConfig.templateFolder!;
+
+// Semantic search is opt-in: embedding the vault takes time at startup; naming an embedder turns it on
+const embedderModule = getArg(args, '--embedder');
+const semanticSearch = args.includes('--semantic') || embedderModule !== undefined;
+
+// Write permissions: the config file is read first, then CLI flags override it per tool
+const configPath = getArg(args, '--config');
+let filePermissions: WritePermissions = {};
+let cliWriteRules: WritePermissions['writeRules'];
+try {
+  if (configPath) {
+    filePermissions = parseWritePermissions(JSON.parse(readFileSync(resolve(configPath), 'utf-8')));
+  }
+  cliWriteRules = parseWriteRuleArgs({
+    disabledTools: parseArrayArg(getArg(args, '--disable-tools')),
+    allow: parseArrayArg(getArg(args, '--write-allow')),
+    deny: parseArrayArg(getArg(args, '--write-deny'))
+  });
+} catch (error) {
+  console.error(`Error: Invalid write permissions${configPath ? ` in ${configPath}` : ''}: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+const readOnly = args.includes('--read-only') || (filePermissions.readOnly ?? false);
+const writeRules = mergeWriteRules(filePermissions.writeRules, cliWriteRules);
 
 // Create configuration with CLI args and defaults
 const vaultConfig: VaultConfig = {
@@ -147,6 +226,13 @@ const vaultConfig: VaultConfig = {
   maxSearchResults,
   maxRecentNotes,
   useMemory,
+  watch,
+  watchDebounceMs,
+  templateFolder,
+  semanticSearch,
+  embedderModule,
+  readOnly,
+  writeRules,
   searchWeights: defaultConfig.searchWeights!
 };
 
@@ -154,6 +240,7 @@ const vaultConfig: VaultConfig = {
 validateConfig(vaultConfig);
 
 const vault = new ObsidianVault(vaultConfig);
+const writePolicy = new WritePolicy(vaultConfig);
 
 // Read version from package.json
 const packageJson = JSON.parse(
@@ -172,22 +259,41 @@ const server = new Server(
   }
 );
 
+/**
+ * Optional `expectedVersion` parameter shared by the tools that change an existing note
+ */
+const expectedVersionProperty = {
+  type: 'string',
+  description: 'Version returned by get_note; the change is rejected, with the current content, if the note has changed since'
+};
+
 const tools: Tool[] = [
   {
     name: 'search_notes',
-    description: 'Search notes in the Obsidian vault using semantic search with optional filters',
+    description: 'Search notes in the Obsidian vault by keyword, with optional filters. Each result lists the passages that matched: title, content lines (with their line number in the file) and tags, with the offsets of the matched words',
     inputSchema: {
       type: 'object',
       properties: {
         query: {
           type: 'string',
-          description: 'Search query (optional - leave empty to list all notes with filters)'
+          description: 'Search query (optional - leave empty to list all notes with filters). Words must all match; supports "exact phrases", OR, -negation, (grouping), prefix*, and the fields tag:, type:, status:, category:, path: (glob), modified: and created: (YYYY-MM-DD, optionally after >, >=, < or <=). Example: tag:work/puppet path:Work/** modified:>2024-01-01 -status:archived "exact phrase" OR foo'
+        },
+        mode: {
+          type: 'string',
+          enum: ['plain', 'advanced'],
+          description: 'How the query is read (default: plain). In plain mode characters such as + - . and words such as AND or NEAR inside terms are searched for literally. In advanced mode the query is SQLite FTS5 syntax, e.g. NEAR(puppet deploy, 5), title:roadmap, proj*; use the filter parameters instead of tag:/path: fields',
+          default: 'plain'
         },
         tags: {
           type: 'array',
           items: { type: 'string' },
           description: 'Filter by tags (e.g., ["work/puppet", "golang"])'
         },
+        tagSource: {
+          type: 'string',
+          enum: ['frontmatter', 'inline'],
+          description: 'Only match the tags filter against frontmatter tags or inline #tags (default: both)'
+        },
         type: {
           type: 'string',
           enum: ['note', 'project', 'task', 'daily', 'meeting'],
@@ -228,9 +334,63 @@ const tools: Tool[] = [
       }
     }
   },
+  {
+    name: 'semantic_search',
+    description: 'Search notes by meaning rather than exact words, using embeddings of note passages computed locally. Hybrid mode fuses the embedding ranking with keyword search. Each result includes the passage most similar to the query, with its line number. Only available when the server runs with --semantic',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'What to look for, in natural language (e.g., "how do we roll back a failed deploy")'
+        },
+        mode: {
+          type: 'string',
+          enum: ['hybrid', 'vector'],
+          description: 'hybrid: fuse embedding and keyword rankings (reciprocal rank fusion); vector: embedding similarity only (default: hybrid)',
+          default: 'hybrid'
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Filter by tags (e.g., ["work/puppet", "golang"])'
+        },
+        type: {
+          type: 'string',
+          enum: ['note', 'project', 'task', 'daily', 'meeting'],
+          description: 'Filter by note type'
+        },
+        status: {
+          type: 'string',
+          enum: ['active', 'archived', 'idea', 'completed'],
+          description: 'Filter by status'
+        },
+        category: {
+          type: 'string',
+          enum: ['work', 'personal', 'knowledge', 'life', 'dailies'],
+          description: 'Filter by category'
+        },
+        path: {
+          type: 'string',
+          description: 'Filter by path pattern (e.g., "Work/Puppet/**", "Projects/Active/**")'
+        },
+        includeArchive: {
+          type: 'boolean',
+          description: 'Include archived notes in results (default: false)',
+          default: false
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of results (default: 20)',
+          default: 20
+        }
+      },
+      required: ['query']
+    }
+  },
   {
     name: 'get_note',
-    description: 'Retrieve the full content of a specific note by its path',
+    description: 'Retrieve the full content of a specific note by its path, with a version token to pass as expectedVersion to write tools',
     inputSchema: {
       type: 'object',
       properties: {
@@ -251,6 +411,11 @@ const tools: Tool[] = [
         tag: {
           type: 'string',
           description: 'Tag to search for (e.g., "work/puppet", "coffee", "golang")'
+        },
+        source: {
+          type: 'string',
+          enum: ['frontmatter', 'inline'],
+          description: 'Only match frontmatter tags or inline #tags (default: both)'
         }
       },
       required: ['tag']
@@ -272,81 +437,680 @@ const tools: Tool[] = [
   },
   {
     name: 'list_tags',
-    description: 'List all unique tags used across all notes',
+    description: 'List all unique tags used across all notes (frontmatter tags and inline #tags), as a flat list or a hierarchy with note counts',
     inputSchema: {
       type: 'object',
-      properties: {}
+      properties: {
+        source: {
+          type: 'string',
+          enum: ['frontmatter', 'inline'],
+          description: 'Only list frontmatter tags or inline #tags (default: both)'
+        },
+        format: {
+          type: 'string',
+          enum: ['flat', 'tree'],
+          description: 'flat: sorted array of tags (default); tree: nested tags with direct and rolled-up note counts and last-modified date'
+        }
+      }
     }
   },
   {
-    name: 'summarize_notes',
-    description: 'Get a summary of notes matching criteria',
+    name: 'rename_tag',
+    description: 'Rename a tag (and optionally its hierarchical children) in frontmatter tag arrays and inline #tags across the vault, or merge several tags into one. Use dryRun to preview the per-file changes first.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tag: {
+          type: 'string',
+          description: 'The tag to rename (e.g., "work/puppet")'
+        },
+        newTag: {
+          type: 'string',
+          description: 'The new tag name (e.g., "work/config-management")'
+        },
+        mergeTags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Additional tags to merge into newTag along with tag'
+        },
+        includeChildren: {
+          type: 'boolean',
+          description: 'Also rename hierarchical children, e.g. "work/puppet/ci" (default: true)'
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Return the per-file changes without writing any files (default: false)'
+        }
+      },
+      required: ['tag', 'newTag']
+    }
+  },
+  {
+    name: 'move_note',
+    description: 'Move or rename a note and rewrite every wikilink, embed and markdown link that points at it, keeping aliases and heading/block suffixes. Use dryRun to list every file that would be touched.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Current path of the note (e.g., "Inbox/Idea.md")'
+        },
+        newPath: {
+          type: 'string',
+          description: 'New path for the note (e.g., "Projects/Website/Idea.md"); ".md" is added if missing'
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Return the per-file changes without moving or writing any files (default: false)'
+        },
+        expectedVersion: expectedVersionProperty
+      },
+      required: ['path', 'newPath']
+    }
+  },
+  {
+    name: 'archive_note',
+    description: 'Move a note into Archive/ (keeping its folder structure) and set status: archived, so it leaves default search results. Links to the note are updated. Requires confirm: true.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'The path to the note (e.g., "Projects/Old Site.md" is moved to "Archive/Projects/Old Site.md")'
+        },
+        confirm: {
+          type: 'boolean',
+          description: 'Must be true to archive the note'
+        },
+        expectedVersion: expectedVersionProperty
+      },
+      required: ['path', 'confirm']
+    }
+  },
+  {
+    name: 'delete_note',
+    description: 'Delete a note by moving it into the vault\'s .trash folder, where it can be restored from Obsidian. The note is removed from the index. Requires confirm: true.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'The path to the note (e.g., "Inbox/Scratch.md")'
+        },
+        confirm: {
+          type: 'boolean',
+          description: 'Must be true to delete the note'
+        },
+        expectedVersion: expectedVersionProperty
+      },
+      required: ['path', 'confirm']
+    }
+  },
+  {
+    name: 'list_recent_changes',
+    description: 'List the changes made by write tools (newest first), with the files each one touched. Use the id with undo_change.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: {
+          type: 'number',
+          description: 'Maximum number of changes to return (default: 20)'
+        },
+        includeContent: {
+          type: 'boolean',
+          description: 'Include the before and after content of every file (default: false)'
+        }
+      }
+    }
+  },
+  {
+    name: 'undo_change',
+    description: 'Revert a change listed by list_recent_changes, restoring every file it touched. Refused if any of those files has been edited since.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'number',
+          description: 'Id of the change to undo'
+        }
+      },
+      required: ['id']
+    }
+  },
+  {
+    name: 'query_tasks',
+    description: 'Find markdown checkbox tasks (- [ ] / - [x]) across notes, with Tasks-plugin due/scheduled/start/done dates and priority',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          enum: ['open', 'done', 'in_progress', 'cancelled'],
+          description: 'Filter by task status'
+        },
+        dueFrom: {
+          type: 'string',
+          description: 'Only tasks due on or after this date (YYYY-MM-DD)'
+        },
+        dueTo: {
+          type: 'string',
+          description: 'Only tasks due on or before this date (YYYY-MM-DD)'
+        },
+        tag: {
+          type: 'string',
+          description: 'Only tasks with this tag on the task line or its note (includes child tags)'
+        },
+        path: {
+          type: 'string',
+          description: 'Filter by note path pattern (e.g., "Work/**")'
+        },
+        priority: {
+          type: 'string',
+          enum: ['highest', 'high', 'medium', 'normal', 'low', 'lowest'],
+          description: 'Filter by Tasks-plugin priority'
+        },
+        includeArchive: {
+          type: 'boolean',
+          description: 'Include tasks in archived notes (default: false)'
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of tasks to return (default: 50)'
+        }
+      }
+    }
+  },
+  {
+    name: 'create_note',
+    description: 'Create a new note with generated frontmatter (created/modified set to today). Refuses to overwrite an existing file.',
     inputSchema: {
       type: 'object',
       properties: {
+        path: {
+          type: 'string',
+          description: 'Path for the new note (e.g., "Work/Meetings/2025-01-10 Standup.md"); ".md" is added if missing'
+        },
+        content: {
+          type: 'string',
+          description: 'Markdown body of the note'
+        },
         tags: {
           type: 'array',
           items: { type: 'string' },
-          description: 'Filter by tags'
+          description: 'Frontmatter tags (e.g., ["work/puppet"])'
         },
         type: {
           type: 'string',
           enum: ['note', 'project', 'task', 'daily', 'meeting'],
-          description: 'Filter by note type'
+          description: 'Note type (default: note)'
         },
         status: {
           type: 'string',
           enum: ['active', 'archived', 'idea', 'completed'],
-          description: 'Filter by status'
+          description: 'Note status (default: active)'
         },
         category: {
           type: 'string',
           enum: ['work', 'personal', 'knowledge', 'life', 'dailies'],
-          description: 'Filter by category'
+          description: 'Note category'
+        },
+        frontmatter: {
+          type: 'object',
+          description: 'Additional custom frontmatter fields'
         }
-      }
+      },
+      required: ['path']
     }
-  }
-];
-
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools };
-});
-
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    switch (name) {
-      case 'search_notes': {
-        // Validate limit parameter
-        const limit = args?.limit as number | undefined;
-        if (limit !== undefined && (limit < 1 || limit > vaultConfig.maxSearchResults)) {
-          return createErrorResponse(`Limit must be between 1 and ${vaultConfig.maxSearchResults}`);
-        }
-
-        // Validate type enum if provided
-        if (args?.type !== undefined && !isValidType(args.type)) {
-          return createErrorResponse('Invalid type. Must be one of: note, project, task, daily, meeting');
-        }
-
-        // Validate status enum if provided
-        if (args?.status !== undefined && !isValidStatus(args.status)) {
-          return createErrorResponse('Invalid status. Must be one of: active, archived, idea, completed');
-        }
-
-        // Validate category enum if provided
-        if (args?.category !== undefined && !isValidCategory(args.category)) {
-          return createErrorResponse('Invalid category. Must be one of: work, personal, knowledge, life, dailies');
+  },
+  {
+    name: 'list_templates',
+    description: 'List the note templates in the template folder (default: _Meta/Templates), for use with create_note_from_template.',
+    inputSchema: {
+      type: 'object',
+      properties: {}
+    }
+  },
+  {
+    name: 'create_note_from_template',
+    description: 'Create a new note from a template, replacing {{title}}, {{date}}, {{date:YYYY-MM-DD}}, {{time}} and custom {{variables}}. Refuses to overwrite an existing file.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        template: {
+          type: 'string',
+          description: 'Template name from list_templates (e.g., "Meeting" or "Work/Meeting")'
+        },
+        path: {
+          type: 'string',
+          description: 'Path for the new note (e.g., "Work/Meetings/2025-01-10 Standup.md"); ".md" is added if missing. Its file name becomes {{title}}'
+        },
+        variables: {
+          type: 'object',
+          additionalProperties: { type: 'string' },
+          description: 'Values for custom placeholders, e.g. { "project": "Website" } for {{project}}'
         }
-
-        // Validate date formats if provided
-        if (args?.dateFrom && !parseDate(args.dateFrom as string)) {
+      },
+      required: ['template', 'path']
+    }
+  },
+  {
+    name: 'append_to_note',
+    description: 'Add content to an existing note: at the end, right after the frontmatter, or under a heading (created if missing). Bumps the modified date.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'The path to the note (e.g., "Projects/Website/Log.md")'
+        },
+        content: {
+          type: 'string',
+          description: 'Markdown to add'
+        },
+        mode: {
+          type: 'string',
+          enum: ['append', 'prepend', 'heading'],
+          description: 'append: end of the note (default); prepend: right after the frontmatter; heading: end of the section under heading'
+        },
+        heading: {
+          type: 'string',
+          description: 'Heading text to insert under (required for mode "heading", e.g., "Log")'
+        },
+        headingLevel: {
+          type: 'number',
+          description: 'Level of the heading if it has to be created (1-6, default: 2)'
+        },
+        expectedVersion: expectedVersionProperty
+      },
+      required: ['path', 'content']
+    }
+  },
+  {
+    name: 'update_frontmatter',
+    description: 'Set, unset, or add/remove list values in the YAML frontmatter of one or more notes (e.g., mark a project completed, add a tag to several notes). Built-in fields are validated; the note body is not changed.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Paths of the notes to update'
+        },
+        operations: {
+          type: 'array',
+          description: 'Operations applied in order to every note',
+          items: {
+            type: 'object',
+            properties: {
+              op: {
+                type: 'string',
+                enum: ['set', 'unset', 'add', 'remove'],
+                description: 'set/unset a field, or add/remove values in a list field such as tags'
+              },
+              field: {
+                type: 'string',
+                description: 'Top-level frontmatter field (e.g., "status", "tags")'
+              },
+              value: {
+                description: 'New value (set) or value(s) to add/remove'
+              }
+            },
+            required: ['op', 'field']
+          }
+        },
+        expectedVersion: expectedVersionProperty
+      },
+      required: ['paths', 'operations']
+    }
+  },
+  {
+    name: 'complete_task',
+    description: 'Check off (or re-open) a checkbox task, adding or removing its ✅ done date. The task is identified by note path and line, and must still have the given text.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'The path to the note containing the task'
+        },
+        line: {
+          type: 'number',
+          description: 'Line number of the task (as returned by query_tasks)'
+        },
+        text: {
+          type: 'string',
+          description: 'Current text of the task after the checkbox (as returned by query_tasks)'
+        },
+        completed: {
+          type: 'boolean',
+          description: 'true to mark done, false to re-open (default: true)'
+        },
+        doneDate: {
+          type: 'string',
+          description: 'Done date to record (YYYY-MM-DD, default: today)'
+        },
+        expectedVersion: expectedVersionProperty
+      },
+      required: ['path', 'line', 'text']
+    }
+  },
+  {
+    name: 'update_task',
+    description: 'Change the status or due date of a checkbox task. The task is identified by note path and line, and must still have the given text.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'The path to the note containing the task'
+        },
+        line: {
+          type: 'number',
+          description: 'Line number of the task (as returned by query_tasks)'
+        },
+        text: {
+          type: 'string',
+          description: 'Current text of the task after the checkbox (as returned by query_tasks)'
+        },
+        status: {
+          type: 'string',
+          enum: ['open', 'done', 'in_progress', 'cancelled'],
+          description: 'New task status'
+        },
+        due: {
+          type: ['string', 'null'],
+          description: 'New 📅 due date (YYYY-MM-DD), or null to remove it'
+        },
+        expectedVersion: expectedVersionProperty
+      },
+      required: ['path', 'line', 'text']
+    }
+  },
+  {
+    name: 'get_backlinks',
+    description: 'List the notes that link to a note (wikilinks, embeds and markdown links)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'The path to the linked note (e.g., "Knowledge/Golang.md")'
+        }
+      },
+      required: ['path']
+    }
+  },
+  {
+    name: 'get_outgoing_links',
+    description: 'List the links in a note and the notes they resolve to (null for broken links)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'The path to the source note (e.g., "Work/Puppet/Meeting Notes.md")'
+        }
+      },
+      required: ['path']
+    }
+  },
+  {
+    name: 'find_broken_links',
+    description: 'List wikilinks, embeds and markdown links that do not resolve to any note, with source note and line number',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Only check notes under this path pattern (e.g., "Work/Puppet/**")'
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only check notes with these tags'
+        },
+        category: {
+          type: 'string',
+          enum: ['work', 'personal', 'knowledge', 'life', 'dailies'],
+          description: 'Only check notes in this category'
+        },
+        includeArchive: {
+          type: 'boolean',
+          description: 'Include archived notes (default: false)',
+          default: false
+        }
+      }
+    }
+  },
+  {
+    name: 'find_orphans',
+    description: 'List notes that have no links to or from other notes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Only check notes under this path pattern (e.g., "Work/Puppet/**")'
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only check notes with these tags'
+        },
+        category: {
+          type: 'string',
+          enum: ['work', 'personal', 'knowledge', 'life', 'dailies'],
+          description: 'Only check notes in this category'
+        },
+        includeArchive: {
+          type: 'boolean',
+          description: 'Include archived notes (default: false)',
+          default: false
+        }
+      }
+    }
+  },
+  {
+    name: 'get_note_neighborhood',
+    description: 'Get the notes and links within N hops of a note (like the Obsidian local graph) as JSON nodes and edges',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'The path to the central note'
+        },
+        depth: {
+          type: 'number',
+          description: 'Maximum number of link hops (default: 1, max: 5)',
+          default: 1
+        },
+        direction: {
+          type: 'string',
+          enum: ['outgoing', 'incoming', 'both'],
+          description: 'Follow outgoing links, backlinks or both (default: both)',
+          default: 'both'
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only include notes with these tags'
+        },
+        type: {
+          type: 'string',
+          enum: ['note', 'project', 'task', 'daily', 'meeting'],
+          description: 'Only include notes of this type'
+        }
+      },
+      required: ['path']
+    }
+  },
+  {
+    name: 'find_path_between_notes',
+    description: 'Find the shortest chain of links connecting two notes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        from: {
+          type: 'string',
+          description: 'The path to the first note'
+        },
+        to: {
+          type: 'string',
+          description: 'The path to the last note'
+        },
+        direction: {
+          type: 'string',
+          enum: ['outgoing', 'both'],
+          description: 'Only follow links as written (outgoing) or in either direction (default: both)',
+          default: 'both'
+        }
+      },
+      required: ['from', 'to']
+    }
+  },
+  {
+    name: 'summarize_notes',
+    description: 'Get a summary of notes matching criteria',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Filter by tags'
+        },
+        type: {
+          type: 'string',
+          enum: ['note', 'project', 'task', 'daily', 'meeting'],
+          description: 'Filter by note type'
+        },
+        status: {
+          type: 'string',
+          enum: ['active', 'archived', 'idea', 'completed'],
+          description: 'Filter by status'
+        },
+        category: {
+          type: 'string',
+          enum: ['work', 'personal', 'knowledge', 'life', 'dailies'],
+          description: 'Filter by category'
+        }
+      }
+    }
+  }
+];
+
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  // Disabled write tools are not listed at all, so clients never offer them
+  return {
+    tools: tools.filter(tool => writePolicy.isToolEnabled(tool.name) && (tool.name !== 'semantic_search' || semanticSearch))
+  };
+});
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const { name, arguments: args } = request.params;
+
+  try {
+    if (!writePolicy.isToolEnabled(name)) {
+      return createErrorResponse(vaultConfig.readOnly ? `${name} is not available: the server is read-only` : `${name} is disabled`);
+    }
+
+    if (name === 'semantic_search' && !semanticSearch) {
+      return createErrorResponse(`${name} is not available: start the server with --semantic`);
+    }
+
+    if (args?.expectedVersion !== undefined && typeof args.expectedVersion !== 'string') {
+      return createErrorResponse('expectedVersion must be a string');
+    }
+    const expectedVersion = args?.expectedVersion as string | undefined;
+
+    switch (name) {
+      case 'search_notes': {
+        // Validate limit parameter
+        const limit = args?.limit as number | undefined;
+        if (limit !== undefined && (limit < 1 || limit > vaultConfig.maxSearchResults)) {
+          return createErrorResponse(`Limit must be between 1 and ${vaultConfig.maxSearchResults}`);
+        }
+
+        // Validate type enum if provided
+        if (args?.type !== undefined && !isValidType(args.type)) {
+          return createErrorResponse('Invalid type. Must be one of: note, project, task, daily, meeting');
+        }
+
+        // Validate status enum if provided
+        if (args?.status !== undefined && !isValidStatus(args.status)) {
+          return createErrorResponse('Invalid status. Must be one of: active, archived, idea, completed');
+        }
+
+        // Validate category enum if provided
+        if (args?.category !== undefined && !isValidCategory(args.category)) {
+          return createErrorResponse('Invalid category. Must be one of: work, personal, knowledge, life, dailies');
+        }
+
+        // Validate date formats if provided
+        if (args?.dateFrom && !parseDate(args.dateFrom as string)) {
           return createErrorResponse('dateFrom must be in YYYY-MM-DD format');
         }
 
-        if (args?.dateTo && !parseDate(args.dateTo as string)) {
-          return createErrorResponse('dateTo must be in YYYY-MM-DD format');
+        if (args?.dateTo && !parseDate(args.dateTo as string)) {
+          return createErrorResponse('dateTo must be in YYYY-MM-DD format');
+        }
+
+        if (args?.tagSource !== undefined && !isValidTagSource(args.tagSource)) {
+          return createErrorResponse('Invalid tagSource. Must be one of: frontmatter, inline');
+        }
+
+        if (args?.mode !== undefined && !isValidSearchMode(args.mode)) {
+          return createErrorResponse('Invalid mode. Must be one of: plain, advanced');
+        }
+
+        const options: SearchOptions = {
+          tags: Array.isArray(args?.tags) ? args.tags as string[] : undefined,
+          tagSource: args?.tagSource as TagSource | undefined,
+          type: args?.type as typeof options.type,
+          status: args?.status as typeof options.status,
+          category: args?.category as typeof options.category,
+          dateFrom: args?.dateFrom as string | undefined,
+          dateTo: args?.dateTo as string | undefined,
+          path: typeof args?.path === 'string' ? args.path : undefined,
+          includeArchive: typeof args?.includeArchive === 'boolean' ? args.includeArchive : undefined,
+          mode: args?.mode as SearchOptions['mode'],
+          limit: limit
+        };
+
+        const results = await vault.searchNotes(
+          typeof args?.query === 'string' ? args.query : '',
+          options
+        );
+
+        return createSuccessResponse(results.map(formatNoteSummary));
+      }
+
+      case 'semantic_search': {
+        const query = args?.query;
+        if (!query || typeof query !== 'string' || !query.trim()) {
+          return createErrorResponse('Query parameter is required and must be a non-empty string');
+        }
+
+        const limit = args?.limit as number | undefined;
+        if (limit !== undefined && (limit < 1 || limit > vaultConfig.maxSearchResults)) {
+          return createErrorResponse(`Limit must be between 1 and ${vaultConfig.maxSearchResults}`);
+        }
+
+        if (args?.mode !== undefined && args.mode !== 'hybrid' && args.mode !== 'vector') {
+          return createErrorResponse('Invalid mode. Must be one of: hybrid, vector');
+        }
+
+        if (args?.type !== undefined && !isValidType(args.type)) {
+          return createErrorResponse('Invalid type. Must be one of: note, project, task, daily, meeting');
+        }
+
+        if (args?.status !== undefined && !isValidStatus(args.status)) {
+          return createErrorResponse('Invalid status. Must be one of: active, archived, idea, completed');
+        }
+
+        if (args?.category !== undefined && !isValidCategory(args.category)) {
+          return createErrorResponse('Invalid category. Must be one of: work, personal, knowledge, life, dailies');
         }
 
         const options: SearchOptions = {
@@ -354,19 +1118,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           type: args?.type as typeof options.type,
           status: args?.status as typeof options.status,
           category: args?.category as typeof options.category,
-          dateFrom: args?.dateFrom as string | undefined,
-          dateTo: args?.dateTo as string | undefined,
           path: typeof args?.path === 'string' ? args.path : undefined,
           includeArchive: typeof args?.includeArchive === 'boolean' ? args.includeArchive : undefined,
           limit: limit
         };
 
-        const results = await vault.searchNotes(
-          typeof args?.query === 'string' ? args.query : '',
-          options
-        );
-
-        return createSuccessResponse(results.map(formatNoteSummary));
+        const results = await vault.semanticSearch(query, options, args?.mode as SemanticSearchMode | undefined);
+        return createSuccessResponse(results.map(({ note, score, similarity, passage }) => ({
+          ...formatNoteSummary(note),
+          score: Number(score.toPrecision(4)),
+          ...(similarity !== undefined ? { similarity: Number(similarity.toPrecision(4)) } : {}),
+          ...(passage ? { passage } : {})
+        })));
       }
 
       case 'get_note': {
@@ -376,12 +1139,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           return createErrorResponse('Path parameter is required and must be a string');
         }
 
-        // Sanitize path to prevent directory traversal
-        const normalizedPath = normalize(requestedPath).replace(/^(\.\.(\/|\\|$))+/, '');
-        const fullPath = resolve(vaultConfig.vaultPath, normalizedPath);
-
-        // Ensure the resolved path is within the vault
-        if (!fullPath.startsWith(vaultConfig.vaultPath)) {
+        const normalizedPath = sanitizeNotePath(requestedPath);
+        if (normalizedPath === null) {
           return createErrorResponse('Access denied. Path is outside vault directory');
         }
 
@@ -400,7 +1159,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           return createErrorResponse('Tag parameter is required and must be a string');
         }
 
-        const notes = await vault.getNotesByTag(tag);
+        if (args?.source !== undefined && !isValidTagSource(args.source)) {
+          return createErrorResponse('Invalid source. Must be one of: frontmatter, inline');
+        }
+
+        const notes = await vault.getNotesByTag(tag, args?.source as TagSource | undefined);
         return createSuccessResponse(notes.map(formatNoteSummary));
       }
 
@@ -416,16 +1179,473 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'list_tags': {
-        const allNotes = await vault.getAllNotes();
-        const tagSet = new Set<string>();
-        allNotes.forEach(note => {
-          note.frontmatter.tags?.forEach(tag => tagSet.add(tag));
-        });
-        const sortedTags = Array.from(tagSet).sort();
+        if (args?.source !== undefined && !isValidTagSource(args.source)) {
+          return createErrorResponse('Invalid source. Must be one of: frontmatter, inline');
+        }
+
+        if (args?.format !== undefined && args.format !== 'flat' && args.format !== 'tree') {
+          return createErrorResponse('Invalid format. Must be one of: flat, tree');
+        }
+
+        const source = args?.source as TagSource | undefined;
+        if (args?.format === 'tree') {
+          return createSuccessResponse(await vault.getTagTree(source));
+        }
+
+        // Ancestors of hierarchical tags are included in the counts; only list tags used as written
+        const tagCounts = await vault.getTagCounts(source);
+        const sortedTags = tagCounts.filter(count => count.directCount > 0).map(count => count.tag);
 
         return createSuccessResponse(sortedTags);
       }
 
+      case 'query_tasks': {
+        const limit = typeof args?.limit === 'number' ? args.limit : 50;
+        if (limit < 1 || limit > vaultConfig.maxSearchResults) {
+          return createErrorResponse(`Limit must be between 1 and ${vaultConfig.maxSearchResults}`);
+        }
+
+        if (args?.status !== undefined && !isValidTaskStatus(args.status)) {
+          return createErrorResponse('Invalid status. Must be one of: open, done, in_progress, cancelled');
+        }
+
+        if (args?.priority !== undefined && !isValidTaskPriority(args.priority)) {
+          return createErrorResponse('Invalid priority. Must be one of: highest, high, medium, normal, low, lowest');
+        }
+
+        if (args?.dueFrom && !parseDate(args.dueFrom as string)) {
+          return createErrorResponse('dueFrom must be in YYYY-MM-DD format');
+        }
+
+        if (args?.dueTo && !parseDate(args.dueTo as string)) {
+          return createErrorResponse('dueTo must be in YYYY-MM-DD format');
+        }
+
+        const query: TaskQuery = {
+          status: args?.status as TaskQuery['status'],
+          priority: args?.priority as TaskQuery['priority'],
+          dueFrom: args?.dueFrom as string | undefined,
+          dueTo: args?.dueTo as string | undefined,
+          tag: typeof args?.tag === 'string' ? args.tag.replace(/^#/, '') : undefined,
+          path: typeof args?.path === 'string' ? args.path : undefined,
+          includeArchive: typeof args?.includeArchive === 'boolean' ? args.includeArchive : undefined,
+          limit
+        };
+
+        return createSuccessResponse(await vault.queryTasks(query));
+      }
+
+      case 'create_note': {
+        const requestedPath = args?.path;
+
+        if (!requestedPath || typeof requestedPath !== 'string') {
+          return createErrorResponse('Path parameter is required and must be a string');
+        }
+
+        const normalizedPath = sanitizeNotePath(requestedPath.endsWith('.md') ? requestedPath : `${requestedPath}.md`);
+        if (normalizedPath === null) {
+          return createErrorResponse('Access denied. Path is outside vault directory');
+        }
+
+        if (args?.content !== undefined && typeof args.content !== 'string') {
+          return createErrorResponse('Content must be a string');
+        }
+
+        if (args?.tags !== undefined && (!Array.isArray(args.tags) || !args.tags.every(tag => typeof tag === 'string'))) {
+          return createErrorResponse('Tags must be an array of strings');
+        }
+
+        if (args?.type !== undefined && !isValidType(args.type)) {
+          return createErrorResponse('Invalid type. Must be one of: note, project, task, daily, meeting');
+        }
+
+        if (args?.status !== undefined && !isValidStatus(args.status)) {
+          return createErrorResponse('Invalid status. Must be one of: active, archived, idea, completed');
+        }
+
+        if (args?.category !== undefined && !isValidCategory(args.category)) {
+          return createErrorResponse('Invalid category. Must be one of: work, personal, knowledge, life, dailies');
+        }
+
+        const custom = args?.frontmatter;
+        if (custom !== undefined && (typeof custom !== 'object' || custom === null || Array.isArray(custom))) {
+          return createErrorResponse('Frontmatter must be an object');
+        }
+        const builtInKeys = ['created', 'modified', 'tags', 'type', 'status', 'category'];
+        const reservedKey = Object.keys(custom ?? {}).find(key => builtInKeys.includes(key));
+        if (reservedKey) {
+          return createErrorResponse(`Frontmatter field "${reservedKey}" is set automatically or by its own parameter`);
+        }
+
+        const frontmatter: NoteFrontmatter = {
+          ...(custom as Record<string, unknown> | undefined),
+          tags: args?.tags as string[] | undefined,
+          type: args?.type as NoteFrontmatter['type'],
+          status: args?.status as NoteFrontmatter['status'],
+          category: args?.category as NoteFrontmatter['category']
+        };
+
+        const note = await vault.createNote(normalizedPath, (args?.content as string | undefined) ?? '', frontmatter);
+        return createSuccessResponse(note);
+      }
+
+      case 'list_templates': {
+        return createSuccessResponse(await vault.listTemplates());
+      }
+
+      case 'create_note_from_template': {
+        const requestedPath = args?.path;
+
+        if (!requestedPath || typeof requestedPath !== 'string') {
+          return createErrorResponse('Path parameter is required and must be a string');
+        }
+
+        if (typeof args?.template !== 'string' || args.template.trim() === '') {
+          return createErrorResponse('Template parameter is required and must be a non-empty string');
+        }
+
+        const variables = args?.variables ?? {};
+        if (typeof variables !== 'object' || variables === null || Array.isArray(variables) ||
+          !Object.values(variables).every(value => typeof value === 'string')) {
+          return createErrorResponse('Variables must be an object with string values');
+        }
+        const builtIn = Object.keys(variables).find(key => (BUILT_IN_TEMPLATE_VARIABLES as readonly string[]).includes(key.toLowerCase()));
+        if (builtIn) {
+          return createErrorResponse(`Variable "${builtIn}" is set automatically`);
+        }
+
+        const normalizedPath = sanitizeNotePath(requestedPath.endsWith('.md') ? requestedPath : `${requestedPath}.md`);
+        if (normalizedPath === null) {
+          return createErrorResponse('Access denied. Path is outside vault directory');
+        }
+
+        const result = await vault.createNoteFromTemplate(normalizedPath, args.template.trim(), variables as Record<string, string>);
+        return createSuccessResponse(result);
+      }
+
+      case 'append_to_note': {
+        const requestedPath = args?.path;
+
+        if (!requestedPath || typeof requestedPath !== 'string') {
+          return createErrorResponse('Path parameter is required and must be a string');
+        }
+
+        if (typeof args?.content !== 'string' || args.content.trim() === '') {
+          return createErrorResponse('Content parameter is required and must be a non-empty string');
+        }
+
+        const mode = (args?.mode ?? 'append') as InsertMode;
+        if (!['append', 'prepend', 'heading'].includes(mode)) {
+          return createErrorResponse('Invalid mode. Must be one of: append, prepend, heading');
+        }
+
+        if (mode === 'heading' && (typeof args?.heading !== 'string' || args.heading.replace(/^#+/, '').trim() === '')) {
+          return createErrorResponse('Heading parameter is required for mode "heading"');
+        }
+
+        const headingLevel = args?.headingLevel ?? 2;
+        if (typeof headingLevel !== 'number' || !Number.isInteger(headingLevel) || headingLevel < 1 || headingLevel > 6) {
+          return createErrorResponse('headingLevel must be an integer between 1 and 6');
+        }
+
+        const normalizedPath = sanitizeNotePath(requestedPath);
+        if (normalizedPath === null) {
+          return createErrorResponse('Access denied. Path is outside vault directory');
+        }
+
+        const note = await vault.appendToNote(normalizedPath, args.content, {
+          mode,
+          heading: args?.heading as string | undefined,
+          headingLevel
+        }, expectedVersion);
+        return createSuccessResponse(note);
+      }
+
+      case 'update_frontmatter': {
+        const requestedPaths = args?.paths;
+        if (!Array.isArray(requestedPaths) || requestedPaths.length === 0 || !requestedPaths.every(path => typeof path === 'string')) {
+          return createErrorResponse('Paths parameter is required and must be a non-empty array of strings');
+        }
+        if (requestedPaths.length > vaultConfig.maxSearchResults) {
+          return createErrorResponse(`At most ${vaultConfig.maxSearchResults} notes can be updated at once`);
+        }
+
+        const operations = args?.operations;
+        if (!Array.isArray(operations) || operations.length === 0) {
+          return createErrorResponse('Operations parameter is required and must be a non-empty array');
+        }
+        for (const operation of operations) {
+          const error = validateFrontmatterOperation(operation);
+          if (error) {
+            return createErrorResponse(error);
+          }
+        }
+
+        const normalizedPaths: string[] = [];
+        for (const requestedPath of requestedPaths as string[]) {
+          const normalizedPath = sanitizeNotePath(requestedPath);
+          if (normalizedPath === null) {
+            return createErrorResponse(`Access denied. Path is outside vault directory: ${requestedPath}`);
+          }
+          normalizedPaths.push(normalizedPath);
+        }
+
+        const uniquePaths = Array.from(new Set(normalizedPaths));
+        if (expectedVersion !== undefined && uniquePaths.length > 1) {
+          return createErrorResponse('expectedVersion can only be used when updating a single note');
+        }
+
+        const expectedVersions = expectedVersion !== undefined ? { [uniquePaths[0]]: expectedVersion } : {};
+        const results = await vault.updateFrontmatter(uniquePaths, operations as FrontmatterOperation[], expectedVersions);
+        return createSuccessResponse(results);
+      }
+
+      case 'complete_task':
+      case 'update_task': {
+        const requestedPath = args?.path;
+        if (!requestedPath || typeof requestedPath !== 'string') {
+          return createErrorResponse('Path parameter is required and must be a string');
+        }
+        if (typeof args?.line !== 'number' || !Number.isInteger(args.line) || args.line < 1) {
+          return createErrorResponse('Line must be a positive integer');
+        }
+        if (typeof args?.text !== 'string') {
+          return createErrorResponse('Text parameter is required and must be a string');
+        }
+
+        const normalizedPath = sanitizeNotePath(requestedPath);
+        if (normalizedPath === null) {
+          return createErrorResponse('Access denied. Path is outside vault directory');
+        }
+
+        let update: TaskUpdate;
+        if (name === 'complete_task') {
+          if (args?.doneDate !== undefined && !parseDate(args.doneDate as string)) {
+            return createErrorResponse('doneDate must be in YYYY-MM-DD format');
+          }
+          update = {
+            status: args?.completed === false ? 'open' : 'done',
+            doneDate: args?.doneDate as string | undefined
+          };
+        } else {
+          if (args?.status !== undefined && !isValidTaskStatus(args.status)) {
+            return createErrorResponse('Invalid status. Must be one of: open, done, in_progress, cancelled');
+          }
+          if (args?.due !== undefined && args.due !== null && !parseDate(args.due as string)) {
+            return createErrorResponse('due must be in YYYY-MM-DD format or null');
+          }
+          if (args?.status === undefined && args?.due === undefined) {
+            return createErrorResponse('Provide status and/or due to update');
+          }
+          update = {
+            status: args?.status as TaskUpdate['status'],
+            due: args?.due as string | null | undefined
+          };
+        }
+
+        return createSuccessResponse(await vault.updateTask(normalizedPath, args.line, args.text, update, expectedVersion, name));
+      }
+
+      case 'rename_tag': {
+        if (typeof args?.tag !== 'string' || typeof args?.newTag !== 'string') {
+          return createErrorResponse('tag and newTag parameters are required and must be strings');
+        }
+        if (args?.mergeTags !== undefined && (!Array.isArray(args.mergeTags) || !args.mergeTags.every(tag => typeof tag === 'string'))) {
+          return createErrorResponse('mergeTags must be an array of strings');
+        }
+
+        const requestedTags = [args.tag, ...((args?.mergeTags as string[] | undefined) ?? [])];
+        const from = requestedTags.map(normalizeTagName);
+        const to = normalizeTagName(args.newTag);
+        const invalidIndex = from.indexOf(null);
+        if (invalidIndex !== -1) {
+          return createErrorResponse(`Invalid tag: ${requestedTags[invalidIndex]}`);
+        }
+        if (to === null) {
+          return createErrorResponse(`Invalid tag: ${args.newTag}`);
+        }
+
+        const result = await vault.renameTag(Array.from(new Set(from as string[])), to, {
+          includeChildren: args?.includeChildren !== false,
+          dryRun: args?.dryRun === true
+        });
+        return createSuccessResponse(result);
+      }
+
+      case 'move_note': {
+        if (typeof args?.path !== 'string' || !args.path || typeof args?.newPath !== 'string' || !args.newPath) {
+          return createErrorResponse('path and newPath parameters are required and must be strings');
+        }
+
+        const fromPath = sanitizeNotePath(args.path);
+        const toPath = sanitizeNotePath(args.newPath.endsWith('.md') ? args.newPath : `${args.newPath}.md`);
+        if (fromPath === null || toPath === null) {
+          return createErrorResponse('Access denied. Path is outside vault directory');
+        }
+
+        const result = await vault.moveNote(fromPath, toPath, { dryRun: args?.dryRun === true, expectedVersion });
+        return createSuccessResponse(result);
+      }
+
+      case 'archive_note':
+      case 'delete_note': {
+        const requestedPath = args?.path;
+
+        if (!requestedPath || typeof requestedPath !== 'string') {
+          return createErrorResponse('Path parameter is required and must be a string');
+        }
+
+        const normalizedPath = sanitizeNotePath(requestedPath);
+        if (normalizedPath === null) {
+          return createErrorResponse('Access denied. Path is outside vault directory');
+        }
+
+        const action = name === 'archive_note' ? 'archive' : 'delete';
+        if (args?.confirm !== true) {
+          return createErrorResponse(`Set confirm to true to ${action} ${normalizedPath}`);
+        }
+
+        const result = name === 'archive_note'
+          ? await vault.archiveNote(normalizedPath, expectedVersion)
+          : await vault.deleteNote(normalizedPath, expectedVersion);
+        return createSuccessResponse(result);
+      }
+
+      case 'list_recent_changes': {
+        const limit = typeof args?.limit === 'number' ? args.limit : 20;
+
+        if (!Number.isInteger(limit) || limit < 1 || limit > vaultConfig.maxRecentNotes) {
+          return createErrorResponse(`Limit must be between 1 and ${vaultConfig.maxRecentNotes}`);
+        }
+
+        const entries = await vault.listRecentChanges(limit);
+        return createSuccessResponse(args?.includeContent === true ? entries : entries.map(formatJournalSummary));
+      }
+
+      case 'undo_change': {
+        if (typeof args?.id !== 'number' || !Number.isInteger(args.id) || args.id < 1) {
+          return createErrorResponse('Id parameter is required and must be a positive integer');
+        }
+
+        return createSuccessResponse(formatJournalSummary(await vault.undoChange(args.id)));
+      }
+
+      case 'get_backlinks':
+      case 'get_outgoing_links': {
+        const requestedPath = args?.path;
+
+        if (!requestedPath || typeof requestedPath !== 'string') {
+          return createErrorResponse('Path parameter is required and must be a string');
+        }
+
+        const normalizedPath = sanitizeNotePath(requestedPath);
+        if (normalizedPath === null) {
+          return createErrorResponse('Access denied. Path is outside vault directory');
+        }
+
+        const links = name === 'get_backlinks'
+          ? await vault.getBacklinks(normalizedPath)
+          : await vault.getOutgoingLinks(normalizedPath);
+        if (!links) {
+          return createErrorResponse(`Note not found: ${normalizedPath}`);
+        }
+
+        return createSuccessResponse(links);
+      }
+
+      case 'find_broken_links':
+      case 'find_orphans': {
+        if (args?.category !== undefined && !isValidCategory(args.category)) {
+          return createErrorResponse('Invalid category. Must be one of: work, personal, knowledge, life, dailies');
+        }
+
+        const options: SearchOptions = {
+          tags: Array.isArray(args?.tags) ? args.tags as string[] : undefined,
+          category: args?.category as typeof options.category,
+          path: typeof args?.path === 'string' ? args.path : undefined,
+          includeArchive: typeof args?.includeArchive === 'boolean' ? args.includeArchive : undefined
+        };
+
+        if (name === 'find_broken_links') {
+          return createSuccessResponse(await vault.findBrokenLinks(options));
+        }
+
+        const orphans = await vault.findOrphans(options);
+        return createSuccessResponse(orphans.map(formatNoteSummary));
+      }
+
+      case 'get_note_neighborhood': {
+        const requestedPath = args?.path;
+
+        if (!requestedPath || typeof requestedPath !== 'string') {
+          return createErrorResponse('Path parameter is required and must be a string');
+        }
+
+        const normalizedPath = sanitizeNotePath(requestedPath);
+        if (normalizedPath === null) {
+          return createErrorResponse('Access denied. Path is outside vault directory');
+        }
+
+        const depth = typeof args?.depth === 'number' ? args.depth : 1;
+        if (!Number.isInteger(depth) || depth < 1 || depth > 5) {
+          return createErrorResponse('Depth must be an integer between 1 and 5');
+        }
+
+        const direction = args?.direction ?? 'both';
+        if (direction !== 'outgoing' && direction !== 'incoming' && direction !== 'both') {
+          return createErrorResponse('Invalid direction. Must be one of: outgoing, incoming, both');
+        }
+
+        if (args?.type !== undefined && !isValidType(args.type)) {
+          return createErrorResponse('Invalid type. Must be one of: note, project, task, daily, meeting');
+        }
+
+        const graph = await vault.getNoteNeighborhood(normalizedPath, {
+          depth,
+          direction,
+          tags: Array.isArray(args?.tags) ? args.tags as string[] : undefined,
+          type: args?.type as SearchOptions['type']
+        });
+        if (!graph) {
+          return createErrorResponse(`Note not found: ${normalizedPath}`);
+        }
+
+        return createSuccessResponse({ center: normalizedPath, ...graph });
+      }
+
+      case 'find_path_between_notes': {
+        const from = args?.from;
+        const to = args?.to;
+
+        if (!from || typeof from !== 'string' || !to || typeof to !== 'string') {
+          return createErrorResponse('From and to parameters are required and must be strings');
+        }
+
+        const fromPath = sanitizeNotePath(from);
+        const toPath = sanitizeNotePath(to);
+        if (fromPath === null || toPath === null) {
+          return createErrorResponse('Access denied. Path is outside vault directory');
+        }
+
+        const direction = args?.direction ?? 'both';
+        if (direction !== 'outgoing' && direction !== 'both') {
+          return createErrorResponse('Invalid direction. Must be one of: outgoing, both');
+        }
+
+        const chain = await vault.findPathBetweenNotes(fromPath, toPath, direction);
+        if (!chain) {
+          return createErrorResponse(`Note not found: ${await vault.getNote(fromPath) ? toPath : fromPath}`);
+        }
+
+        return createSuccessResponse({
+          from: fromPath,
+          to: toPath,
+          found: chain.nodes.length > 0,
+          length: Math.max(chain.nodes.length - 1, 0),
+          ...chain
+        });
+      }
+
       case 'summarize_notes': {
         // Validate enum arguments if provided
         if (args?.type !== undefined && !isValidType(args.type)) {
@@ -478,6 +1698,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         return createErrorResponse(`Unknown tool: ${name}`);
     }
   } catch (error) {
+    if (error instanceof VersionConflictError) {
+      return createErrorResponse(`${error.message}\n\nCurrent content:\n${error.currentContent}`);
+    }
     return createErrorResponse(error instanceof Error ? error.message : String(error));
   }
 });
@@ -488,6 +1711,9 @@ async function main() {
     console.error(`Vault path: ${resolvedVaultPath}`);
 
     await vault.initialize();
+    if (vaultConfig.watch) {
+      vault.startWatching();
+    }
 
     const transport = new StdioServerTransport();
     await server.connect(transport);
@@ -0,0 +1,220 @@
+import { posix } from 'path';
+import { NoteLink } from './types.js';
+import { forEachTextLine, maskInlineCode } from './markdown.js';
+
+const WIKILINK_PATTERN = /(!?)\[\[([^[\]\n]+?)\]\]/g;
+const MARKDOWN_LINK_PATTERN = /(!?)\[([^\]\n]*)\]\((?:<([^>\n]+)>|([^)\s]+))(?:\s+"[^"\n]*")?\)/g;
+const URL_SCHEME_PATTERN = /^[a-z][a-z0-9+.-]*:/i;
+const ATTACHMENT_EXTENSION_PATTERN = /\.(png|jpe?g|gif|bmp|svg|webp|avif|pdf|mp3|wav|ogg|m4a|flac|mp4|webm|mov|mkv|canvas|excalidraw)$/i;
+
+/**
+ * Extract wikilinks, embeds and markdown links to local notes from a note body
+ * @param body - Markdown content (frontmatter removed)
+ * @param lineOffset - Number of frontmatter lines preceding the body
+ * @returns Links in document order; links inside code are ignored
+ */
+export function extractLinks(body: string, lineOffset: number = 0): NoteLink[] {
+  const links: NoteLink[] = [];
+
+  forEachTextLine(body, lineOffset, (line, lineNumber) => {
+    const text = maskInlineCode(line);
+
+    for (const match of text.matchAll(WIKILINK_PATTERN)) {
+      const link = parseWikilink(match[2], match[1] === '!', lineNumber);
+      if (link) links.push(link);
+    }
+
+    for (const match of text.matchAll(MARKDOWN_LINK_PATTERN)) {
+      const link = parseMarkdownLink(match[3] ?? match[4], match[2], match[1] === '!', lineNumber);
+      if (link) links.push(link);
+    }
+  });
+
+  return links;
+}
+
+/**
+ * Replace link targets on a single line, keeping embeds, aliases and heading/block suffixes as written
+ * @param line - Line text outside fenced code blocks
+ * @param lineNumber - 1-based line number reported on the parsed links
+ * @param replacer - Receives each parsed link, its target as written (for markdown links, the raw
+ *   href without any #subpath) and the link syntax ("markdown-angle" for hrefs written in <angle brackets>);
+ *   returns the new target text or null to keep the link
+ * @returns The line with replaced targets
+ */
+export function replaceLinkTargets(
+  line: string,
+  lineNumber: number,
+  replacer: (link: NoteLink, rawTarget: string, syntax: 'wikilink' | 'markdown' | 'markdown-angle') => string | null
+): string {
+  const text = maskInlineCode(line);
+  const edits: Array<{ start: number; end: number; replacement: string }> = [];
+
+  for (const match of text.matchAll(WIKILINK_PATTERN)) {
+    const link = parseWikilink(match[2], match[1] === '!', lineNumber);
+    if (!link) continue;
+
+    const start = match.index! + match[1].length + 2;
+    const cut = match[2].search(/\\?\||[#^]/);
+    const rawTarget = cut === -1 ? match[2] : match[2].slice(0, cut);
+    const replacement = replacer(link, rawTarget.trim(), 'wikilink');
+    if (replacement !== null) {
+      edits.push({ start, end: start + rawTarget.length, replacement });
+    }
+  }
+
+  for (const match of text.matchAll(MARKDOWN_LINK_PATTERN)) {
+    const href = match[3] ?? match[4];
+    const link = parseMarkdownLink(href, match[2], match[1] === '!', lineNumber);
+    if (!link) continue;
+
+    const hashIndex = href.indexOf('#');
+    const rawTarget = hashIndex === -1 ? href : href.slice(0, hashIndex);
+    const start = match.index! + match[0].indexOf('](') + 2 + (match[3] !== undefined ? 1 : 0);
+    const replacement = replacer(link, rawTarget, match[3] !== undefined ? 'markdown-angle' : 'markdown');
+    if (replacement !== null) {
+      edits.push({ start, end: start + rawTarget.length, replacement });
+    }
+  }
+
+  return edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.slice(0, edit.start) + edit.replacement + result.slice(edit.end), line);
+}
+
+function parseWikilink(inner: string, embed: boolean, line: number): NoteLink | null {
+  const pipeIndex = inner.indexOf('|');
+  let target = pipeIndex === -1 ? inner : inner.slice(0, pipeIndex);
+  const alias = pipeIndex === -1 ? '' : inner.slice(pipeIndex + 1).trim();
+
+  // Pipes inside tables are escaped as \|
+  if (target.endsWith('\\')) {
+    target = target.slice(0, -1);
+  }
+
+  const subpathIndex = target.search(/[#^]/);
+  const subpath = subpathIndex === -1 ? '' : target.slice(subpathIndex).trim();
+  target = (subpathIndex === -1 ? target : target.slice(0, subpathIndex)).trim();
+
+  // Same-note links ([[#Heading]]) and attachments are not note-to-note links
+  if (!target || ATTACHMENT_EXTENSION_PATTERN.test(target)) {
+    return null;
+  }
+
+  return {
+    target,
+    ...(subpath ? { subpath } : {}),
+    ...(alias ? { alias } : {}),
+    kind: embed ? 'embed' : 'wikilink',
+    line
+  };
+}
+
+function parseMarkdownLink(href: string, text: string, embed: boolean, line: number): NoteLink | null {
+  if (URL_SCHEME_PATTERN.test(href) || href.startsWith('#')) {
+    return null;
+  }
+
+  const hashIndex = href.indexOf('#');
+  const target = decodeLinkPart(hashIndex === -1 ? href : href.slice(0, hashIndex));
+  const subpath = hashIndex === -1 ? '' : decodeLinkPart(href.slice(hashIndex));
+
+  if (!target.toLowerCase().endsWith('.md')) {
+    return null;
+  }
+
+  return {
+    target,
+    ...(subpath ? { subpath } : {}),
+    ...(text.trim() ? { alias: text.trim() } : {}),
+    kind: embed ? 'embed' : 'markdown',
+    line
+  };
+}
+
+function decodeLinkPart(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function toPosix(path: string): string {
+  return path.replace(/\\/g, '/');
+}
+
+/**
+ * Case-insensitive lookup key for a note path or link target, without the .md extension
+ */
+function linkKey(path: string): string {
+  return posix.normalize(toPosix(path)).replace(/^\/+/, '').replace(/\.md$/i, '').toLowerCase();
+}
+
+/**
+ * Lowercased file name (without .md) a link target points at, used to narrow backlink lookups
+ * @param target - Link target as written (e.g. "Folder/Note.md" or "note")
+ */
+export function linkTargetName(target: string): string {
+  return posix.basename(linkKey(target));
+}
+
+/**
+ * Resolves link targets to note paths the way Obsidian does: an exact vault path wins,
+ * otherwise the target is matched against trailing path segments (case-insensitive,
+ * extension optional), preferring a note in the source's folder and then the shortest path.
+ */
+export class LinkResolver {
+  private readonly byKey = new Map<string, string>();
+  private readonly byName = new Map<string, Array<{ key: string; path: string }>>();
+
+  /**
+   * @param paths - Vault-relative paths of all indexed notes
+   */
+  constructor(paths: string[]) {
+    for (const path of paths) {
+      const key = linkKey(path);
+      this.byKey.set(key, path);
+
+      const name = posix.basename(key);
+      const candidates = this.byName.get(name) ?? [];
+      candidates.push({ key, path });
+      this.byName.set(name, candidates);
+    }
+
+    for (const candidates of this.byName.values()) {
+      candidates.sort((a, b) =>
+        a.key.split('/').length - b.key.split('/').length ||
+        a.key.length - b.key.length ||
+        a.key.localeCompare(b.key)
+      );
+    }
+  }
+
+  /**
+   * Resolve a link found in `sourcePath`
+   * @returns The path of the linked note, or null if the link is broken
+   */
+  resolve(link: NoteLink, sourcePath: string): string | null {
+    const target = toPosix(link.target);
+    const sourceDir = posix.dirname(toPosix(sourcePath));
+
+    // Markdown links and explicit ./ or ../ paths are relative to the source note
+    if (link.kind === 'markdown' || target.startsWith('./') || target.startsWith('../')) {
+      const relativeMatch = this.byKey.get(linkKey(posix.join(sourceDir, target)));
+      if (relativeMatch) return relativeMatch;
+    }
+
+    const key = linkKey(target);
+    const exactMatch = this.byKey.get(key);
+    if (exactMatch) return exactMatch;
+
+    const candidates = (this.byName.get(posix.basename(key)) ?? [])
+      .filter(candidate => candidate.key.endsWith('/' + key));
+    if (candidates.length === 0) return null;
+
+    const sourceKeyDir = sourceDir.toLowerCase();
+    const sibling = candidates.find(candidate => posix.dirname(candidate.key) === sourceKeyDir);
+    return (sibling ?? candidates[0]).path;
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Shared helpers for scanning markdown note bodies line by line
+ */
+
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+
+/**
+ * Number of lines that precede the markdown body in the raw file (i.e. the frontmatter block)
+ * @param raw - Full file content
+ * @param body - Markdown content with frontmatter removed
+ * @returns Offset to add to a 1-based body line number to get the file line number
+ */
+export function bodyLineOffset(raw: string, body: string): number {
+  if (!raw.endsWith(body)) return 0;
+  return raw.slice(0, raw.length - body.length).split('\n').length - 1;
+}
+
+/**
+ * Calls `fn` for every line that is not inside a fenced code block
+ * @param body - Markdown content
+ * @param lineOffset - Offset added to line numbers (see bodyLineOffset)
+ * @param fn - Receives the line text and its 1-based line number in the file
+ */
+export function forEachTextLine(
+  body: string,
+  lineOffset: number,
+  fn: (line: string, lineNumber: number) => void
+): void {
+  let fence: string | null = null;
+
+  body.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+    const fenceMatch = line.match(FENCE_PATTERN);
+
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      return;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      return;
+    }
+
+    fn(line, index + 1 + lineOffset);
+  });
+}
+
+/**
+ * Blank out inline code spans so their contents are not parsed, keeping character offsets intact
+ */
+export function maskInlineCode(line: string): string {
+  return line.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, match => ' '.repeat(match.length));
+}
+
+/**
+ * Parse an ATX heading line ("## Title"), ignoring optional closing hashes
+ * @returns The heading level (1-6) and text, or null if the line is not a heading
+ */
+export function parseHeading(line: string): { level: number; text: string } | null {
+  const match = line.match(HEADING_PATTERN);
+  return match ? { level: match[1].length, text: match[2] } : null;
+}
@@ -1,6 +1,36 @@
-import Fuse from 'fuse.js';
-import { Note, SearchOptions, parseDate } from './types.js';
-import { IStorage } from './storage.js';
+import Fuse, { FuseResultMatch } from 'fuse.js';
+import { ChunkVector, FileFingerprint, IndexedLink, IndexedTask, JournalEntry, Note, NoteChunk, SearchOptions, TagCount, TagSource, TaskQuery, parseDate } from './types.js';
+import { linkTargetName } from './links.js';
+import { IStorage, MAX_JOURNAL_ENTRIES } from './storage.js';
+import { TextTerm, compileQueryToPredicate, parseQuery, positiveTagFilters, positiveTextTerms } from './query.js';
+import { ScoringWeights, relevanceFromFuse, searchScore } from './scoring.js';
+import { TextRange, findPhraseRanges, fuzzyMatchRanges, tagMatches, textMatches } from './snippets.js';
+
+/**
+ * Note fields searched by Fuse.js, with the search weight each one uses
+ */
+const FUSE_KEYS: Record<string, 'title' | 'tags' | 'frontmatter' | 'content'> = {
+  'title': 'title',
+  'frontmatter.tags': 'tags',
+  'inlineTags': 'tags',
+  'frontmatter.type': 'frontmatter',
+  'frontmatter.status': 'frontmatter',
+  'frontmatter.category': 'frontmatter',
+  'content': 'content'
+};
+
+/**
+ * Fuse.js score and matches of a note for one search word
+ */
+interface FuseHit {
+  score: number;
+  matches: readonly FuseResultMatch[];
+}
+
+/**
+ * Fuse.js hits per search word, by note path
+ */
+type FuseMatchCache = Map<string, Map<string, FuseHit>>;
 
 /**
  * In-memory storage implementation using Fuse.js for search
@@ -9,14 +39,12 @@ import { IStorage } from './storage.js';
 export class MemoryStorage implements IStorage {
   private notes: Map<string, Note> = new Map();
   private fuse: Fuse<Note> | null = null;
-  private readonly searchWeights: {
-    title: number;
-    tags: number;
-    frontmatter: number;
-    content: number;
-  };
-
-  constructor(searchWeights: { title: number; tags: number; frontmatter: number; content: number }) {
+  private chunks: Map<string, { embedderId: string; sourceHash: string; chunks: NoteChunk[] }> = new Map();
+  private journal: JournalEntry[] = [];
+  private nextJournalId = 1;
+  private readonly searchWeights: ScoringWeights;
+
+  constructor(searchWeights: ScoringWeights) {
     this.searchWeights = searchWeights;
   }
 
@@ -36,6 +64,52 @@ export class MemoryStorage implements IStorage {
     this.rebuildSearchIndex();
   }
 
+  async deleteNote(path: string): Promise<void> {
+    this.chunks.delete(path);
+    if (this.notes.delete(path)) {
+      this.rebuildSearchIndex();
+    }
+  }
+
+  async deleteNotes(paths: string[]): Promise<void> {
+    let removed = false;
+    for (const path of paths) {
+      this.chunks.delete(path);
+      removed = this.notes.delete(path) || removed;
+    }
+    if (removed) {
+      this.rebuildSearchIndex();
+    }
+  }
+
+  async replaceNotes(removedPaths: string[], notes: Note[]): Promise<void> {
+    for (const path of removedPaths) {
+      this.chunks.delete(path);
+      this.notes.delete(path);
+    }
+    for (const note of notes) {
+      this.notes.set(note.path, note);
+    }
+    this.rebuildSearchIndex();
+  }
+
+  async getNotePaths(options?: SearchOptions): Promise<string[]> {
+    if (!options) {
+      return Array.from(this.notes.keys());
+    }
+    return this.applyFilters(Array.from(this.notes.values()), options).map(note => note.path);
+  }
+
+  async getFingerprints(): Promise<Map<string, FileFingerprint>> {
+    const fingerprints = new Map<string, FileFingerprint>();
+    for (const note of this.notes.values()) {
+      if (note.fingerprint) {
+        fingerprints.set(note.path, note.fingerprint);
+      }
+    }
+    return fingerprints;
+  }
+
   async getNote(path: string): Promise<Note | null> {
     return this.notes.get(path) || null;
   }
@@ -44,37 +118,180 @@ export class MemoryStorage implements IStorage {
     return Array.from(this.notes.values());
   }
 
+  async getLinks(filter: { source?: string; targetName?: string } = {}): Promise<IndexedLink[]> {
+    const notes = filter.source !== undefined
+      ? [this.notes.get(filter.source)].filter((n): n is Note => n !== undefined)
+      : Array.from(this.notes.values());
+
+    return notes.flatMap(note =>
+      (note.links ?? [])
+        .filter(link => filter.targetName === undefined || linkTargetName(link.target) === filter.targetName)
+        .map(link => ({ ...link, source: note.path }))
+    );
+  }
+
   async searchNotes(query: string, options: SearchOptions = {}): Promise<Note[]> {
-    let results: Note[];
+    if (options.mode === 'advanced' && query.trim() !== '') {
+      throw new Error('Advanced search mode needs the SQLite index and is not available with in-memory storage; use plain mode');
+    }
 
-    if (query && this.fuse) {
-      results = this.fuse.search(query).map(result => result.item);
-    } else {
-      results = Array.from(this.notes.values());
+    const tree = parseQuery(query, { lenient: true });
+    let results = Array.from(this.notes.values());
+    const fuseMatches: FuseMatchCache = new Map();
+
+    if (tree) {
+      const predicate = compileQueryToPredicate(
+        tree,
+        term => this.textPredicate(term, fuseMatches),
+        note => this.getTags(note)
+      );
+      results = results.filter(predicate);
     }
 
-    results = this.applyFilters(results, options);
-    results = this.sortByRecency(results);
+    results = this.sortByRecency(this.applyFilters(results, options));
+
+    // Rank by relevance to the text terms (ties keep the recency order), as DatabaseStorage does
+    const terms = positiveTextTerms(tree);
+    if (terms.length > 0) {
+      const scores = new Map(results.map(note => [note.path, this.score(note, terms, fuseMatches)]));
+      results = results
+        .map(note => ({ ...note, score: scores.get(note.path)! }))
+        .sort((a, b) => b.score - a.score);
+    }
 
     const limit = options.limit || 20;
-    return results.slice(0, limit);
+    return this.withMatches(results.slice(0, limit), terms, [...positiveTagFilters(tree), ...(options.tags ?? [])], fuseMatches);
   }
 
-  async getNotesByTag(tag: string): Promise<Note[]> {
+  async getNotesByTag(tag: string, source?: TagSource): Promise<Note[]> {
     const notes = Array.from(this.notes.values());
     const filtered = notes.filter(note =>
-      note.frontmatter.tags?.some(noteTag => this.matchesTag(noteTag, tag))
+      this.getTags(note, source).some(noteTag => this.matchesTag(noteTag, tag))
     );
     return this.sortByRecency(filtered);
   }
 
+  async getTagCounts(source?: TagSource): Promise<TagCount[]> {
+    const stats = new Map<string, { direct: Set<string>; total: Set<string>; lastModified: string | null }>();
+
+    for (const note of this.notes.values()) {
+      const modified = note.frontmatter.modified || null;
+      for (const tag of new Set(this.getTags(note, source))) {
+        const segments = tag.split('/');
+        for (let depth = 1; depth <= segments.length; depth++) {
+          const prefix = segments.slice(0, depth).join('/');
+          const entry = stats.get(prefix) ?? { direct: new Set<string>(), total: new Set<string>(), lastModified: null };
+          entry.total.add(note.path);
+          if (prefix === tag) entry.direct.add(note.path);
+          if (modified && (!entry.lastModified || modified > entry.lastModified)) {
+            entry.lastModified = modified;
+          }
+          stats.set(prefix, entry);
+        }
+      }
+    }
+
+    return Array.from(stats.entries())
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([tag, entry]) => ({
+        tag,
+        directCount: entry.direct.size,
+        totalCount: entry.total.size,
+        lastModified: entry.lastModified
+      }));
+  }
+
+  async queryTasks(query: TaskQuery): Promise<IndexedTask[]> {
+    const notes = this.applyFilters(Array.from(this.notes.values()), {
+      path: query.path,
+      includeArchive: query.includeArchive
+    });
+
+    const tasks: IndexedTask[] = [];
+    for (const note of notes) {
+      for (const task of note.tasks ?? []) {
+        if (query.status && task.status !== query.status) continue;
+        if (query.priority && task.priority !== query.priority) continue;
+        if (query.dueFrom && (!task.due || task.due < query.dueFrom)) continue;
+        if (query.dueTo && (!task.due || task.due > query.dueTo)) continue;
+        if (query.tag && ![...task.tags, ...this.getTags(note)].some(tag => this.matchesTag(tag, query.tag!))) continue;
+        tasks.push({ path: note.path, ...task });
+      }
+    }
+
+    tasks.sort((a, b) =>
+      (a.due ? 0 : 1) - (b.due ? 0 : 1) ||
+      (a.due ?? '').localeCompare(b.due ?? '') ||
+      (a.path < b.path ? -1 : a.path > b.path ? 1 : 0) ||
+      a.line - b.line
+    );
+    return query.limit ? tasks.slice(0, query.limit) : tasks;
+  }
+
   async getRecentNotes(limit: number): Promise<Note[]> {
     const notes = Array.from(this.notes.values());
     return this.sortByRecency(notes).slice(0, limit);
   }
 
+  async getChunkSources(embedderId: string): Promise<Map<string, string>> {
+    const sources = new Map<string, string>();
+    for (const [path, entry] of this.chunks) {
+      if (entry.embedderId !== embedderId) {
+        this.chunks.delete(path);
+      } else {
+        sources.set(path, entry.sourceHash);
+      }
+    }
+    return sources;
+  }
+
+  async setNoteChunks(path: string, embedderId: string, sourceHash: string, chunks: NoteChunk[]): Promise<void> {
+    this.chunks.set(path, { embedderId, sourceHash, chunks });
+  }
+
+  async getChunkVectors(paths?: string[]): Promise<ChunkVector[]> {
+    const entries = paths
+      ? paths.flatMap(path => {
+        const entry = this.chunks.get(path);
+        return entry ? [[path, entry] as const] : [];
+      })
+      : Array.from(this.chunks.entries());
+    return entries.flatMap(([path, entry]) =>
+      entry.chunks.map(({ text: _text, ...chunk }, position) => ({ path, position, ...chunk }))
+    );
+  }
+
+  async getChunkText(path: string, position: number): Promise<string | null> {
+    return this.chunks.get(path)?.chunks[position]?.text ?? null;
+  }
+
+  async addJournalEntry(entry: Omit<JournalEntry, 'id' | 'undoneBy'>): Promise<number> {
+    const id = this.nextJournalId++;
+    this.journal.push({ ...entry, id });
+    if (this.journal.length > MAX_JOURNAL_ENTRIES) {
+      this.journal.splice(0, this.journal.length - MAX_JOURNAL_ENTRIES);
+    }
+    return id;
+  }
+
+  async getJournalEntries(limit: number): Promise<JournalEntry[]> {
+    return this.journal.slice(-limit).reverse();
+  }
+
+  async getJournalEntry(id: number): Promise<JournalEntry | null> {
+    return this.journal.find(entry => entry.id === id) ?? null;
+  }
+
+  async markJournalEntryUndone(id: number, undoneBy: number): Promise<void> {
+    const entry = this.journal.find(candidate => candidate.id === id);
+    if (entry) {
+      entry.undoneBy = undoneBy;
+    }
+  }
+
   async clear(): Promise<void> {
     this.notes.clear();
+    this.chunks.clear();
     this.fuse = null;
   }
 
@@ -88,16 +305,10 @@ export class MemoryStorage implements IStorage {
   private rebuildSearchIndex(): void {
     const notesArray = Array.from(this.notes.values());
     this.fuse = new Fuse(notesArray, {
-      keys: [
-        { name: 'title', weight: this.searchWeights.title },
-        { name: 'frontmatter.tags', weight: this.searchWeights.tags },
-        { name: 'frontmatter.type', weight: this.searchWeights.frontmatter },
-        { name: 'frontmatter.status', weight: this.searchWeights.frontmatter },
-        { name: 'frontmatter.category', weight: this.searchWeights.frontmatter },
-        { name: 'content', weight: this.searchWeights.content }
-      ],
+      keys: Object.entries(FUSE_KEYS).map(([name, field]) => ({ name, weight: this.searchWeights[field] })),
       threshold: 0.4,
       includeScore: true,
+      includeMatches: true,
       ignoreLocation: true
     });
   }
@@ -129,7 +340,7 @@ export class MemoryStorage implements IStorage {
     if (options.tags && options.tags.length > 0) {
       filtered = filtered.filter(note =>
         options.tags!.some(tag =>
-          note.frontmatter.tags?.some(noteTag =>
+          this.getTags(note, options.tagSource).some(noteTag =>
             this.matchesTag(noteTag, tag)
           )
         )
@@ -171,6 +382,99 @@ export class MemoryStorage implements IStorage {
     return filtered;
   }
 
+  /**
+   * Match a text term: phrases by exact (case-insensitive) substring of the title or content,
+   * words by fuzzy Fuse.js search
+   * @param fuseMatches - Fuse results per search word, shared across the terms of one query
+   */
+  private textPredicate(term: TextTerm, fuseMatches: FuseMatchCache): (note: Note) => boolean {
+    if (term.phrase) {
+      const phrase = term.text.toLowerCase();
+      return note => note.title.toLowerCase().includes(phrase) || note.content.toLowerCase().includes(phrase);
+    }
+
+    const matches = this.fuseSearch(term.text, fuseMatches);
+    return note => matches.has(note.path);
+  }
+
+  /**
+   * Fuse.js matches for a search word, by note path
+   */
+  private fuseSearch(word: string, fuseMatches: FuseMatchCache): Map<string, FuseHit> {
+    let hits = fuseMatches.get(word);
+    if (!hits) {
+      hits = new Map((this.fuse?.search(word) ?? []).map(result => [
+        result.item.path,
+        { score: result.score ?? 0, matches: result.matches ?? [] }
+      ]));
+      fuseMatches.set(word, hits);
+    }
+    return hits;
+  }
+
+  /**
+   * Score a note against the text terms (see scoring.ts). A term's relevance is how well it
+   * matched (the Fuse.js score for words, 1 for a phrase found as written) times the weight of
+   * the best field it matched in, relative to the largest weight; the note's is the mean over terms.
+   */
+  private score(note: Note, terms: TextTerm[], fuseMatches: FuseMatchCache): number {
+    const weights = this.searchWeights;
+    const maxWeight = Math.max(weights.title, weights.tags, weights.frontmatter, weights.content);
+
+    const relevance = terms.reduce((sum, term) => {
+      if (term.phrase) {
+        const phrase = term.text.toLowerCase();
+        const weight = Math.max(
+          note.title.toLowerCase().includes(phrase) ? weights.title : 0,
+          note.content.toLowerCase().includes(phrase) ? weights.content : 0
+        );
+        return sum + weight / maxWeight;
+      }
+
+      const hit = this.fuseSearch(term.text, fuseMatches).get(note.path);
+      if (!hit) return sum;
+      // Ignore fields where Fuse.js only found stray letters, unless that is all it found
+      const fields = hit.matches.filter(match => fuzzyMatchRanges(match.indices, term.text).length > 0);
+      const weight = Math.max(0, ...(fields.length > 0 ? fields : hit.matches).map(match => weights[FUSE_KEYS[match.key ?? '']] ?? 0));
+      return sum + relevanceFromFuse(hit.score) * weight / maxWeight;
+    }, 0) / terms.length;
+
+    return searchScore(relevance, note.frontmatter.modified || note.frontmatter.created, weights);
+  }
+
+  /**
+   * Copy the notes with the passages that matched a search: title and content lines where
+   * Fuse.js found the words (or the phrases occur), and tags matching the words or tag filters
+   */
+  private withMatches(notes: Note[], terms: TextTerm[], tagFilters: string[], fuseMatches: FuseMatchCache): Note[] {
+    if (terms.length === 0 && tagFilters.length === 0) return notes;
+
+    return notes.map(note => {
+      const ranges: Record<'title' | 'content', TextRange[]> = { title: [], content: [] };
+      for (const term of terms) {
+        if (term.phrase) {
+          ranges.title.push(...findPhraseRanges(note.title, term.text));
+          ranges.content.push(...findPhraseRanges(note.content, term.text));
+          continue;
+        }
+        for (const match of this.fuseSearch(term.text, fuseMatches).get(note.path)?.matches ?? []) {
+          if (match.key === 'title' || match.key === 'content') {
+            ranges[match.key].push(...fuzzyMatchRanges(match.indices, term.text));
+          }
+        }
+      }
+
+      return {
+        ...note,
+        matches: [
+          ...textMatches('title', note.title, ranges.title),
+          ...textMatches('content', note.content, ranges.content, note.lineOffset),
+          ...tagMatches(this.getTags(note), terms, tagFilters)
+        ]
+      };
+    });
+  }
+
   /**
    * Sort notes by recency (most recent first)
    */
@@ -182,6 +486,15 @@ export class MemoryStorage implements IStorage {
     });
   }
 
+  /**
+   * Get a note's tags from the given source (both frontmatter and inline tags by default)
+   */
+  private getTags(note: Note, source?: TagSource): string[] {
+    const frontmatterTags = source === 'inline' ? [] : note.frontmatter.tags ?? [];
+    const inlineTags = source === 'frontmatter' ? [] : note.inlineTags ?? [];
+    return [...frontmatterTags, ...inlineTags];
+  }
+
   /**
    * Matches a note tag against a search tag with support for hierarchical tags
    */
@@ -0,0 +1,73 @@
+import { findFrontmatterEnd } from './frontmatter.js';
+import { forEachTextLine, parseHeading } from './markdown.js';
+
+/**
+ * Where to add content: at the end, right after the frontmatter, or at the end of a heading's section
+ */
+export type InsertMode = 'append' | 'prepend' | 'heading';
+
+/**
+ * Options for insertContent
+ */
+export interface InsertOptions {
+  mode: InsertMode;
+  /** Heading text to insert under (mode "heading"), matched case-insensitively at any level */
+  heading?: string;
+  /** Level of the heading created when it is missing (default: 2) */
+  headingLevel?: number;
+}
+
+/**
+ * Insert markdown into a raw note file, leaving the frontmatter and all other lines untouched
+ * @param raw - Full file content
+ * @param content - Markdown to insert (trailing newlines are normalised)
+ * @param options - Insert position; a missing heading is created at the end of the note
+ * @returns The updated file content, using the file's own line endings
+ */
+export function insertContent(raw: string, content: string, options: InsertOptions): string {
+  const eol = raw.includes('\r\n') ? '\r\n' : '\n';
+  const block = content.replace(/(\r?\n)+$/, '').replace(/\r?\n/g, eol);
+  const lines = raw.split('\n');
+  const frontmatterEnd = findFrontmatterEnd(lines);
+  const bodyStart = frontmatterEnd + 1;
+  const blockLines = block.split('\n').map((line, index, all) => index < all.length - 1 ? line : line + (eol === '\r\n' ? '\r' : ''));
+
+  if (options.mode === 'prepend') {
+    lines.splice(bodyStart, 0, ...blockLines);
+    return lines.join('\n');
+  }
+
+  if (options.mode === 'heading') {
+    const wanted = (options.heading ?? '').replace(/^#+\s*/, '').trim().toLowerCase();
+    const headings: Array<{ index: number; level: number; text: string }> = [];
+    forEachTextLine(lines.slice(bodyStart).join('\n'), bodyStart, (line, lineNumber) => {
+      const heading = parseHeading(line);
+      if (heading) headings.push({ index: lineNumber - 1, ...heading });
+    });
+
+    const position = headings.findIndex(heading => heading.text.trim().toLowerCase() === wanted);
+    if (position !== -1) {
+      const { index, level } = headings[position];
+      const next = headings.slice(position + 1).find(heading => heading.level <= level);
+      let insertAt = next ? next.index : lines.length;
+      // Keep blank lines that separate this section from the next one after the new content
+      while (insertAt - 1 > index && lines[insertAt - 1].trim() === '') {
+        insertAt--;
+      }
+      lines.splice(insertAt, 0, ...blockLines);
+      return lines.join('\n');
+    }
+
+    const headingLine = `${'#'.repeat(options.headingLevel ?? 2)} ${(options.heading ?? '').replace(/^#+\s*/, '').trim()}`;
+    return appendBlock(raw, `${headingLine}${eol}${block}`, eol, true);
+  }
+
+  return appendBlock(raw, block, eol, false);
+}
+
+function appendBlock(raw: string, block: string, eol: string, separate: boolean): string {
+  if (raw.trim() === '') return raw + block + eol;
+
+  const base = raw.endsWith('\n') ? raw : raw + eol;
+  return base + (separate && !/\n\s*\n$/.test(base) ? eol : '') + block + eol;
+}
@@ -0,0 +1,127 @@
+import { posix } from 'path';
+import { LinkResolver, replaceLinkTargets } from './links.js';
+import { forEachTextLine } from './markdown.js';
+import { findFrontmatterEnd } from './frontmatter.js';
+
+/**
+ * A single line rewritten by a note move
+ */
+export interface MoveNoteLineChange {
+  /** 1-based line number in the file */
+  line: number;
+  before: string;
+  after: string;
+}
+
+/**
+ * Link changes made to one note by a move
+ */
+export interface MoveNoteFileChange {
+  /** Path of the note before the move */
+  path: string;
+  /** Number of links rewritten */
+  replacements: number;
+  changes: MoveNoteLineChange[];
+}
+
+/**
+ * Outcome of moving or renaming a note
+ */
+export interface MoveNoteResult {
+  /** True if no files were moved or written */
+  dryRun: boolean;
+  from: string;
+  to: string;
+  /** Total links rewritten across all files */
+  replacements: number;
+  /** Every file touched: the moved note itself plus each note whose links were rewritten */
+  files: MoveNoteFileChange[];
+}
+
+/**
+ * Result of rewriting the links in one file
+ */
+export interface LinkRewrite {
+  content: string;
+  replacements: number;
+  changes: MoveNoteLineChange[];
+}
+
+/**
+ * Rewrite the links in a raw note file that would resolve differently once a note is moved.
+ * A link is rewritten when it pointed at a note before the move and would no longer point at
+ * that note (or its new location) afterwards; broken links are left alone.
+ * Embeds, aliases and heading/block suffixes are kept as written, as is everything else in the file.
+ * @param raw - Full file content
+ * @param sourcePath - Path of the file before the move
+ * @param from - Path of the moved note before the move
+ * @param to - Path of the moved note after the move
+ * @param before - Resolver over the vault before the move
+ * @param after - Resolver over the vault after the move
+ */
+export function rewriteLinksForMove(
+  raw: string,
+  sourcePath: string,
+  from: string,
+  to: string,
+  before: LinkResolver,
+  after: LinkResolver
+): LinkRewrite {
+  const lines = raw.split('\n');
+  const changes: MoveNoteLineChange[] = [];
+  let replacements = 0;
+
+  const newSourcePath = sourcePath === from ? to : sourcePath;
+  const frontmatterEnd = findFrontmatterEnd(lines);
+  const bodyStart = frontmatterEnd > 0 ? frontmatterEnd + 1 : 0;
+
+  forEachTextLine(lines.slice(bodyStart).join('\n'), bodyStart, (line, lineNumber) => {
+    const updated = replaceLinkTargets(line, lineNumber, (link, rawTarget, syntax) => {
+      const resolved = before.resolve(link, sourcePath);
+      if (resolved === null) return null;
+
+      const wanted = resolved === from ? to : resolved;
+      if (after.resolve(link, newSourcePath) === wanted) return null;
+
+      replacements++;
+      return syntax === 'wikilink'
+        ? formatWikilinkTarget(rawTarget, newSourcePath, wanted, after)
+        : formatMarkdownTarget(newSourcePath, wanted, syntax === 'markdown-angle');
+    });
+
+    if (updated !== line) {
+      const original = lines[lineNumber - 1];
+      lines[lineNumber - 1] = original.endsWith('\r') ? updated + '\r' : updated;
+      changes.push({ line: lineNumber, before: line, after: updated });
+    }
+  });
+
+  return { content: lines.join('\n'), replacements, changes };
+}
+
+/**
+ * Shortest wikilink target that resolves to `targetPath`, in the style of the original:
+ * a bare name stays a bare name when it is unambiguous, otherwise the vault path is used
+ */
+function formatWikilinkTarget(rawTarget: string, sourcePath: string, targetPath: string, resolver: LinkResolver): string {
+  const extension = /\.md$/i.test(rawTarget) ? '.md' : '';
+  const fullPath = targetPath.replace(/\.md$/i, '');
+  const candidates = rawTarget.includes('/') ? [fullPath] : [posix.basename(fullPath), fullPath];
+
+  for (const candidate of candidates) {
+    const target = candidate + extension;
+    if (resolver.resolve({ target, kind: 'wikilink', line: 0 }, sourcePath) === targetPath) {
+      return target;
+    }
+  }
+  return fullPath + '.md';
+}
+
+/**
+ * Relative href from `sourcePath` to `targetPath`; spaces and parentheses are percent-encoded
+ * unless the href is written in <angle brackets>
+ */
+function formatMarkdownTarget(sourcePath: string, targetPath: string, angleBrackets: boolean): string {
+  const href = posix.relative(posix.dirname(sourcePath), targetPath);
+  return angleBrackets ? href : href.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
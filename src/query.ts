@@ -0,0 +1,514 @@
+import { Note, isValidCategory, isValidStatus, isValidType, parseDate } from './types.js';
+
+/**
+ * Search query language shared by both storage backends, e.g.
+ * `tag:work/puppet type:meeting path:Work/** modified:>2024-01-01 -status:archived "exact phrase" OR foo`.
+ *
+ * Terms separated by spaces must all match; OR binds looser than that, so `a b OR c` means
+ * `(a AND b) OR c`. Parentheses group, `-` negates the following term, and `"..."` is an exact phrase.
+ * Queries are parsed once into a tree, which each backend compiles: to a WHERE clause for SQLite,
+ * or to a predicate over notes for the in-memory index. Plain searches parse leniently, so
+ * ordinary text such as `TODO: fix` or a stray quote is searched rather than rejected.
+ */
+
+/**
+ * Fields that can be used as `field:value`
+ */
+export const QUERY_FIELDS = ['tag', 'type', 'status', 'category', 'path', 'modified', 'created'] as const;
+
+export type QueryField = typeof QUERY_FIELDS[number];
+
+/**
+ * Comparison for the date fields; `=` is used when none is written
+ */
+export type ComparisonOperator = '=' | '>' | '>=' | '<' | '<=';
+
+/**
+ * Free text to find in the note: a single word (optionally a `prefix*`) or a quoted phrase
+ */
+export interface TextTerm {
+  kind: 'text';
+  text: string;
+  phrase: boolean;
+  /** True for `word*`, which matches any word starting with `text` */
+  prefix: boolean;
+  /** Offset of the term in the query string */
+  position: number;
+}
+
+export interface FieldTerm {
+  kind: 'field';
+  field: QueryField;
+  value: string;
+  operator: ComparisonOperator;
+  position: number;
+}
+
+export type QueryNode =
+  | TextTerm
+  | FieldTerm
+  | { kind: 'not'; operand: QueryNode }
+  | { kind: 'and'; operands: QueryNode[] }
+  | { kind: 'or'; operands: QueryNode[] };
+
+/**
+ * Raised for a query that cannot be parsed. The message points at the offending position.
+ */
+export class QueryParseError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly query: string,
+    /** 0-based offset in the query string */
+    readonly position: number
+  ) {
+    super(`Invalid query: ${reason} at position ${position}\n  ${query}\n  ${' '.repeat(position)}^`);
+    this.name = 'QueryParseError';
+  }
+}
+
+type Token =
+  | { type: 'word'; text: string; position: number }
+  | { type: 'phrase'; text: string; position: number }
+  | { type: 'field'; field: QueryField; value: string; valuePosition: number; position: number }
+  | { type: 'or' | 'and' | 'not' | 'open' | 'close'; position: number };
+
+const DATE_OPERATOR_PATTERN = /^(>=|<=|>|<|=)?(.*)$/;
+
+function isBoundary(char: string | undefined): boolean {
+  return char === undefined || /\s/.test(char) || char === '(' || char === ')';
+}
+
+function isQueryField(name: string): name is QueryField {
+  return (QUERY_FIELDS as readonly string[]).includes(name.toLowerCase());
+}
+
+/**
+ * Whether a word has anything the full-text index would search for
+ */
+function hasWordCharacters(text: string): boolean {
+  return /[\p{L}\p{N}]/u.test(text);
+}
+
+function tokenize(query: string, lenient: boolean): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  // Read a "quoted" string starting at the opening quote
+  const readQuoted = (start: number): { text: string; end: number } => {
+    const close = query.indexOf('"', start + 1);
+    if (close === -1) {
+      throw new QueryParseError('unterminated quote', query, start);
+    }
+    const text = query.slice(start + 1, close);
+    if (text.trim() === '') {
+      throw new QueryParseError('empty quotes', query, start);
+    }
+    return { text, end: close + 1 };
+  };
+
+  while (index < query.length) {
+    const char = query[index];
+    const start = index;
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close', position: start });
+      index++;
+    } else if (char === '-' && isBoundary(query[index - 1]) && query[index + 1] !== undefined && !/[\s)]/.test(query[index + 1])) {
+      tokens.push({ type: 'not', position: start });
+      index++;
+    } else if (char === '"' && lenient && !query.includes('"', start + 1)) {
+      // A stray quote is part of the word it starts
+      index++;
+      while (index < query.length && !isBoundary(query[index])) index++;
+      const word = query.slice(start, index);
+      if (hasWordCharacters(word)) tokens.push({ type: 'word', text: word, position: start });
+    } else if (char === '"' && lenient && query.slice(start + 1, query.indexOf('"', start + 1)).trim() === '') {
+      // Empty quotes search for nothing
+      index = query.indexOf('"', start + 1) + 1;
+    } else if (char === '"') {
+      const { text, end } = readQuoted(start);
+      tokens.push({ type: 'phrase', text, position: start });
+      index = end;
+    } else {
+      while (index < query.length && !isBoundary(query[index]) && query[index] !== '"') {
+        index++;
+        // A field name ends at the colon; its value may be quoted. Leniently, other
+        // `name:` prefixes are part of the word, as in `https://example.com`
+        const prefix = query.slice(start, index);
+        if (query[index - 1] === ':' && /^[A-Za-z]+:$/.test(prefix) && (!lenient || isQueryField(prefix.slice(0, -1)))) break;
+      }
+      const word = query.slice(start, index);
+
+      if (word.endsWith(':') && /^[A-Za-z]+:$/.test(word) && (!lenient || isQueryField(word.slice(0, -1)))) {
+        const name = word.slice(0, -1).toLowerCase();
+        if (!isQueryField(name)) {
+          throw new QueryParseError(
+            `unknown field "${word.slice(0, -1)}" (expected one of: ${QUERY_FIELDS.join(', ')}; quote the term to search for it as text)`,
+            query,
+            start
+          );
+        }
+
+        const valuePosition = index;
+        let value: string;
+        if (query[index] === '"') {
+          const quoted = readQuoted(index);
+          value = quoted.text;
+          index = quoted.end;
+        } else {
+          while (index < query.length && !isBoundary(query[index])) index++;
+          value = query.slice(valuePosition, index);
+        }
+        if (value === '') {
+          throw new QueryParseError(`expected a value after "${word}"`, query, valuePosition);
+        }
+        tokens.push({ type: 'field', field: name as QueryField, value, valuePosition, position: start });
+      } else if (word === 'OR' || word === 'AND') {
+        tokens.push({ type: word === 'OR' ? 'or' : 'and', position: start });
+      } else if (!lenient || hasWordCharacters(word)) {
+        // Leniently, punctuation on its own (`-`, `&`, `/`) is left out: the full-text index
+        // would ignore it, and as a term it could never match
+        tokens.push({ type: 'word', text: word, position: start });
+      }
+    }
+  }
+
+  return lenient ? literalizeStrayOperators(tokens) : tokens;
+}
+
+/**
+ * Turn operators that cannot be parsed into text: AND/OR without a term on both sides are
+ * searched as words, and unmatched parentheses or a `-` with nothing to negate are dropped,
+ * as the full-text index would ignore them anyway, like other words without letters or digits
+ */
+function literalizeStrayOperators(tokens: Token[]): Token[] {
+  const unmatched = new Set<Token>();
+  const open: number[] = [];
+  tokens.forEach((token, index) => {
+    if (token.type === 'open') {
+      open.push(index);
+    } else if (token.type === 'close') {
+      const match = open.pop();
+      if (match === undefined) {
+        unmatched.add(token);
+      } else if (match === index - 1) {
+        unmatched.add(tokens[match]).add(token);
+      }
+    }
+  });
+  open.forEach(index => unmatched.add(tokens[index]));
+  const grouped = tokens.filter(token => !unmatched.has(token));
+
+  const joined: Token[] = [];
+  grouped.forEach((token, index) => {
+    if (token.type === 'and' || token.type === 'or') {
+      const previous = joined[joined.length - 1]?.type;
+      const next = grouped[index + 1]?.type;
+      if (!previous || ['or', 'and', 'not', 'open'].includes(previous) || !next || ['or', 'and', 'close'].includes(next)) {
+        joined.push({ type: 'word', text: token.type.toUpperCase(), position: token.position });
+        return;
+      }
+    }
+    joined.push(token);
+  });
+
+  return joined.filter((token, index) => {
+    const next = joined[index + 1]?.type;
+    return token.type !== 'not' || (next !== undefined && !['or', 'and', 'close'].includes(next));
+  });
+}
+
+function parseFieldTerm(query: string, token: Extract<Token, { type: 'field' }>): FieldTerm {
+  const { field, position, valuePosition } = token;
+  let value = token.value;
+  let operator: ComparisonOperator = '=';
+
+  switch (field) {
+    case 'modified':
+    case 'created': {
+      const [, written, date] = value.match(DATE_OPERATOR_PATTERN)!;
+      operator = (written ?? '=') as ComparisonOperator;
+      if (!parseDate(date)) {
+        throw new QueryParseError(`${field} must be a date in YYYY-MM-DD format, optionally after >, >=, < or <=`, query, valuePosition + (written?.length ?? 0));
+      }
+      value = date;
+      break;
+    }
+    case 'type':
+      if (!isValidType(value)) {
+        throw new QueryParseError('type must be one of: note, project, task, daily, meeting', query, valuePosition);
+      }
+      break;
+    case 'status':
+      if (!isValidStatus(value)) {
+        throw new QueryParseError('status must be one of: active, archived, idea, completed', query, valuePosition);
+      }
+      break;
+    case 'category':
+      if (!isValidCategory(value)) {
+        throw new QueryParseError('category must be one of: work, personal, knowledge, life, dailies', query, valuePosition);
+      }
+      break;
+    case 'tag':
+      value = value.replace(/^#/, '');
+      break;
+  }
+
+  return { kind: 'field', field, value, operator, position };
+}
+
+/**
+ * Parse a search query
+ * @param query - Query string; see the module comment for the syntax
+ * @param options.lenient - Search what cannot be parsed as text instead of rejecting it: unknown
+ *   `name:` prefixes, a stray quote, AND/OR without a term on both sides and unmatched
+ *   parentheses. Values of the known fields are still checked.
+ * @returns The query tree, or null if the query has no terms
+ * @throws {QueryParseError} With the position of the first error
+ */
+export function parseQuery(query: string, options: { lenient?: boolean } = {}): QueryNode | null {
+  const tokens = tokenize(query, options.lenient ?? false);
+  let index = 0;
+
+  const describe = (token: Token) => token.type === 'or' ? 'OR' : token.type === 'and' ? 'AND' : token.type === 'close' ? '")"' : 'term';
+
+  const parseOr = (): QueryNode => {
+    const operands = [parseAnd()];
+    while (tokens[index]?.type === 'or') {
+      const or = tokens[index++];
+      if (index >= tokens.length || tokens[index].type === 'close' || tokens[index].type === 'or') {
+        throw new QueryParseError('expected a term after OR', query, tokens[index]?.position ?? or.position + 2);
+      }
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { kind: 'or', operands };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const operands: QueryNode[] = [];
+    while (index < tokens.length && tokens[index].type !== 'or' && tokens[index].type !== 'close') {
+      if (tokens[index].type === 'and') {
+        const and = tokens[index++];
+        if (operands.length === 0 || index >= tokens.length || ['or', 'and', 'close'].includes(tokens[index].type)) {
+          throw new QueryParseError('AND must be between two terms', query, and.position);
+        }
+        continue;
+      }
+      operands.push(parseUnary());
+    }
+    if (operands.length === 0) {
+      const token = tokens[index];
+      throw new QueryParseError(
+        token?.type === 'close' ? 'unexpected ")"' : token ? `expected a term before ${describe(token)}` : 'expected a term',
+        query,
+        token?.position ?? query.length
+      );
+    }
+    return operands.length === 1 ? operands[0] : { kind: 'and', operands };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = tokens[index++];
+    switch (token.type) {
+      case 'not': {
+        const next = tokens[index];
+        if (!next || next.type === 'or' || next.type === 'and' || next.type === 'close') {
+          throw new QueryParseError('expected a term after "-"', query, token.position + 1);
+        }
+        return { kind: 'not', operand: parseUnary() };
+      }
+      case 'open': {
+        if (tokens[index]?.type === 'close') {
+          throw new QueryParseError('empty parentheses', query, token.position);
+        }
+        const inner = parseOr();
+        if (tokens[index]?.type !== 'close') {
+          throw new QueryParseError('missing ")" for this "("', query, token.position);
+        }
+        index++;
+        return inner;
+      }
+      case 'phrase':
+        return { kind: 'text', text: token.text, phrase: true, prefix: false, position: token.position };
+      case 'word': {
+        const prefix = token.text.length > 1 && token.text.endsWith('*');
+        return { kind: 'text', text: prefix ? token.text.slice(0, -1) : token.text, phrase: false, prefix, position: token.position };
+      }
+      case 'field':
+        return parseFieldTerm(query, token);
+      default:
+        throw new QueryParseError(`unexpected ${describe(token)}`, query, token.position);
+    }
+  };
+
+  if (tokens.length === 0) return null;
+
+  const tree = parseOr();
+  if (index < tokens.length) {
+    // Only a stray ")" can stop the top-level parse early
+    throw new QueryParseError('unexpected ")"', query, tokens[index].position);
+  }
+  return tree;
+}
+
+/**
+ * Terms that results must (or may) satisfy, i.e. those not under a negation
+ */
+function positiveTerms(node: QueryNode | null): Array<TextTerm | FieldTerm> {
+  if (!node) return [];
+  switch (node.kind) {
+    case 'text':
+    case 'field': return [node];
+    case 'not': return [];
+    default: return node.operands.flatMap(positiveTerms);
+  }
+}
+
+/**
+ * Text terms that results must (or may) contain; used to rank results by relevance
+ */
+export function positiveTextTerms(node: QueryNode | null): TextTerm[] {
+  return positiveTerms(node).filter((term): term is TextTerm => term.kind === 'text');
+}
+
+/**
+ * Values of the `tag:` terms that are not negated; used to report which tags matched
+ */
+export function positiveTagFilters(node: QueryNode | null): string[] {
+  return positiveTerms(node).flatMap(term => (term.kind === 'field' && term.field === 'tag' ? [term.value] : []));
+}
+
+/**
+ * Turn a path pattern into a case-insensitive regular expression. `*` and `**` match any
+ * characters (including "/") and `?` one character; a pattern without wildcards matches
+ * any path that contains it.
+ */
+export function pathPatternToRegExp(pattern: string): RegExp {
+  const hasWildcards = /[*?]/.test(pattern);
+  const source = pattern
+    .split(/(\*+|\?)/)
+    .map(part => part.startsWith('*') ? '.*' : part === '?' ? '.' : part.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(hasWildcards ? `^${source}$` : source, 'i');
+}
+
+/**
+ * Turn a path pattern into a LIKE pattern (with "\" as the escape character) that matches
+ * the same paths as pathPatternToRegExp
+ */
+export function pathPatternToLike(pattern: string): string {
+  const hasWildcards = /[*?]/.test(pattern);
+  const like = pattern
+    .split(/(\*+|\?)/)
+    .map(part => part.startsWith('*') ? '%' : part === '?' ? '_' : part.replace(/[\\%_]/g, '\\$&'))
+    .join('');
+  return hasWildcards ? like : `%${like}%`;
+}
+
+/**
+ * Compile a query tree to a SQL condition over the `notes` table aliased as `n`
+ * @param node - Parsed query
+ * @param textCondition - SQL for a single text term, supplied by the storage backend
+ */
+export function compileQueryToSql(
+  node: QueryNode,
+  textCondition: (term: TextTerm) => { sql: string; params: unknown[] }
+): { sql: string; params: unknown[] } {
+  switch (node.kind) {
+    case 'text':
+      return textCondition(node);
+    case 'field':
+      return fieldToSql(node);
+    case 'not': {
+      const operand = compileQueryToSql(node.operand, textCondition);
+      return { sql: `NOT ${operand.sql}`, params: operand.params };
+    }
+    default: {
+      const parts = node.operands.map(operand => compileQueryToSql(operand, textCondition));
+      return {
+        sql: `(${parts.map(part => part.sql).join(node.kind === 'and' ? ' AND ' : ' OR ')})`,
+        params: parts.flatMap(part => part.params)
+      };
+    }
+  }
+}
+
+// Every condition yields 0 or 1, never NULL, so NOT behaves as it does for the predicates
+function fieldToSql(term: FieldTerm): { sql: string; params: unknown[] } {
+  switch (term.field) {
+    case 'tag':
+      return {
+        sql: 'EXISTS (SELECT 1 FROM note_tags qt WHERE qt.note_path = n.path AND (LOWER(qt.tag) = LOWER(?) OR qt.tag LIKE ? ESCAPE \'\\\'))',
+        params: [term.value, `${term.value.replace(/[\\%_]/g, '\\$&')}/%`]
+      };
+    case 'path':
+      return { sql: '(n.path LIKE ? ESCAPE \'\\\')', params: [pathPatternToLike(term.value)] };
+    case 'modified':
+    case 'created':
+      return { sql: `(COALESCE(n.${term.field}, '') <> '' AND n.${term.field} ${term.operator} ?)`, params: [term.value] };
+    default:
+      return { sql: `(n.${term.field} IS ?)`, params: [term.value] };
+  }
+}
+
+/**
+ * Compile a query tree to a predicate over notes
+ * @param node - Parsed query
+ * @param textPredicate - Predicate for a single text term, supplied by the storage backend
+ * @param getTags - The note's tags to match `tag:` against
+ */
+export function compileQueryToPredicate(
+  node: QueryNode,
+  textPredicate: (term: TextTerm) => (note: Note) => boolean,
+  getTags: (note: Note) => string[]
+): (note: Note) => boolean {
+  switch (node.kind) {
+    case 'text':
+      return textPredicate(node);
+    case 'field':
+      return fieldToPredicate(node, getTags);
+    case 'not': {
+      const operand = compileQueryToPredicate(node.operand, textPredicate, getTags);
+      return note => !operand(note);
+    }
+    default: {
+      const operands = node.operands.map(operand => compileQueryToPredicate(operand, textPredicate, getTags));
+      return node.kind === 'and'
+        ? note => operands.every(operand => operand(note))
+        : note => operands.some(operand => operand(note));
+    }
+  }
+}
+
+function fieldToPredicate(term: FieldTerm, getTags: (note: Note) => string[]): (note: Note) => boolean {
+  switch (term.field) {
+    case 'tag': {
+      const tag = term.value.toLowerCase();
+      return note => getTags(note).some(noteTag => {
+        const normalized = noteTag.toLowerCase();
+        return normalized === tag || normalized.startsWith(`${tag}/`);
+      });
+    }
+    case 'path': {
+      const pattern = pathPatternToRegExp(term.value);
+      return note => pattern.test(note.path);
+    }
+    case 'modified':
+    case 'created':
+      return note => {
+        const date = note.frontmatter[term.field];
+        if (!date) return false;
+        switch (term.operator) {
+          case '>': return date > term.value;
+          case '>=': return date >= term.value;
+          case '<': return date < term.value;
+          case '<=': return date <= term.value;
+          default: return date === term.value;
+        }
+      };
+    default:
+      return note => note.frontmatter[term.field as 'type' | 'status' | 'category'] === term.value;
+  }
+}
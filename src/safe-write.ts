@@ -0,0 +1,56 @@
+import { link, rename, unlink, writeFile } from 'fs/promises';
+import { createHash, randomBytes } from 'crypto';
+import { basename, dirname, join } from 'path';
+
+/**
+ * SHA-256 hash of a note's raw content, as recorded in its fingerprint
+ */
+export function contentHash(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Version token for a note file: its modification time plus a prefix of its content hash.
+ * Any edit, by Obsidian or by a write tool, produces a new token.
+ * @param mtimeMs - Last modification time in milliseconds since the epoch
+ * @param hash - SHA-256 hash of the raw content (see contentHash)
+ */
+export function noteVersion(mtimeMs: number, hash: string): string {
+  return `${Math.round(mtimeMs)}-${hash.slice(0, 16)}`;
+}
+
+/**
+ * Raised when a write is made against a version of a note that is no longer current
+ */
+export class VersionConflictError extends Error {
+  constructor(
+    readonly path: string,
+    readonly expectedVersion: string,
+    readonly currentVersion: string,
+    /** Raw content of the file as it is now */
+    readonly currentContent: string
+  ) {
+    super(`Version conflict: ${path} has changed since version ${expectedVersion} was read (current version: ${currentVersion})`);
+    this.name = 'VersionConflictError';
+  }
+}
+
+/**
+ * Write a file by writing a temporary sibling and renaming it into place, so readers such as
+ * Obsidian never see a partially written file. The temporary file is hidden, so the vault
+ * watcher ignores it.
+ * @param fullPath - Absolute path of the file to write
+ * @param content - New file content
+ * @param options - exclusive fails with EEXIST instead of replacing an existing file
+ */
+export async function writeFileAtomic(fullPath: string, content: string, options: { exclusive?: boolean } = {}): Promise<void> {
+  const tempPath = join(dirname(fullPath), `.${basename(fullPath)}.${randomBytes(6).toString('hex')}.tmp`);
+  await writeFile(tempPath, content, { encoding: 'utf-8', flag: 'wx' });
+
+  try {
+    // link() refuses to replace an existing file, unlike rename()
+    await (options.exclusive ? link(tempPath, fullPath) : rename(tempPath, fullPath));
+  } finally {
+    await unlink(tempPath).catch(() => undefined);
+  }
+}
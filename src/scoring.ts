@@ -0,0 +1,62 @@
+import { SearchWeights, parseDate } from './types.js';
+
+/**
+ * Search scoring shared by the storage backends, so both rank results the same way:
+ * score = relevance × recency boost.
+ *
+ * Relevance (0 to 1) measures the text match, with the title, tags, frontmatter and content
+ * weighted by `searchWeights`: BM25 over the FTS5 columns in SQLite, the Fuse.js score in memory.
+ * The recency boost multiplies the score of a note modified today by `searchWeights.recency`
+ * and halves its effect every `recencyHalfLifeDays`, so old notes are scored on relevance alone.
+ */
+
+/** Default half-life of the recency boost, in days */
+export const DEFAULT_RECENCY_HALF_LIFE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Recency settings; a missing `recency` weight means no boost
+ */
+export type RecencySettings = Partial<Pick<SearchWeights, 'recency' | 'recencyHalfLifeDays'>>;
+
+/**
+ * Weights a storage backend scores with: the column weights, and optionally the recency boost
+ */
+export type ScoringWeights = Pick<SearchWeights, 'title' | 'tags' | 'frontmatter' | 'content'> & RecencySettings;
+
+/**
+ * Relevance of an FTS5 bm25() value, which is negative with more negative meaning more relevant
+ */
+export function relevanceFromBm25(bm25: number): number {
+  const strength = Math.max(0, -bm25);
+  return strength / (1 + strength);
+}
+
+/**
+ * Relevance of a Fuse.js score, which runs from 0 (exact match) to 1 (no match)
+ */
+export function relevanceFromFuse(score: number): number {
+  return 1 - Math.min(1, Math.max(0, score));
+}
+
+/**
+ * Multiplier for a note's score: `recency` for a note modified now, falling towards 1 with age
+ * @param modified - Modification (or creation) date as YYYY-MM-DD; notes without one get no boost
+ */
+export function recencyBoost(modified: string | null | undefined, settings: RecencySettings, now: Date = new Date()): number {
+  const weight = settings.recency ?? 1;
+  const date = parseDate(modified ?? '');
+  if (!date || weight === 1) return 1;
+
+  const ageDays = Math.max(0, (now.getTime() - date.getTime()) / DAY_MS);
+  const halfLife = settings.recencyHalfLifeDays ?? DEFAULT_RECENCY_HALF_LIFE_DAYS;
+  return 1 + (weight - 1) * Math.pow(0.5, ageDays / halfLife);
+}
+
+/**
+ * Final score of a search result
+ */
+export function searchScore(relevance: number, modified: string | null | undefined, settings: RecencySettings, now?: Date): number {
+  return relevance * recencyBoost(modified, settings, now);
+}
@@ -0,0 +1,256 @@
+import { Embedder, normalize } from './embeddings.js';
+import { forEachTextLine, parseHeading } from './markdown.js';
+import { IStorage } from './storage.js';
+import { ChunkVector, Note, NoteChunk } from './types.js';
+
+/** A paragraph boundary ends the current chunk once it is this long */
+const MIN_CHUNK_LENGTH = 400;
+/** A chunk never grows past this length unless a single line is longer */
+const MAX_CHUNK_LENGTH = 1200;
+
+/** Constant k of reciprocal rank fusion; larger values flatten the difference between ranks */
+export const RRF_K = 60;
+
+/**
+ * Semantic search ranks notes by embedding similarity alone ("vector"), or fuses that
+ * ranking with keyword search ("hybrid")
+ */
+export type SemanticSearchMode = 'hybrid' | 'vector';
+
+/**
+ * The passage of a note most similar to a query
+ */
+export interface SemanticHit {
+  path: string;
+  /** Cosine similarity of the passage to the query */
+  similarity: number;
+  /** The passage, without its text (see SemanticIndex.passage) */
+  chunk: ChunkVector;
+}
+
+/**
+ * A note found by semantic search
+ */
+export interface SemanticSearchResult {
+  note: Note;
+  /** Fused rank score in hybrid mode, similarity in vector mode */
+  score: number;
+  /** Similarity of the best passage, if the note was found by embedding */
+  similarity?: number;
+  /** The best passage, if the note was found by embedding */
+  passage?: { line: number; heading?: string; text: string };
+}
+
+/**
+ * Split a note body into passages to embed: a heading starts a new passage, and paragraphs
+ * are gathered until the passage is long enough. Fenced code blocks are left out.
+ * @param lineOffset - Number of frontmatter lines preceding the body
+ * @returns Passages without vectors; a note without text still gets one empty passage,
+ *   so it can be found by its title
+ */
+export function chunkNote(body: string, lineOffset: number = 0): Array<Omit<NoteChunk, 'vector'>> {
+  const chunks: Array<Omit<NoteChunk, 'vector'>> = [];
+  let heading: string | undefined;
+  let current: { line: number; heading?: string; lines: string[]; length: number } | null = null;
+
+  const flush = () => {
+    if (current) {
+      chunks.push({ line: current.line, ...(current.heading ? { heading: current.heading } : {}), text: current.lines.join('\n') });
+      current = null;
+    }
+  };
+
+  forEachTextLine(body, lineOffset, (line, lineNumber) => {
+    const parsed = parseHeading(line);
+    if (parsed) {
+      flush();
+      heading = parsed.text;
+      return;
+    }
+    if (!line.trim()) {
+      if (current && current.length >= MIN_CHUNK_LENGTH) flush();
+      return;
+    }
+    if (current && current.length + line.length > MAX_CHUNK_LENGTH) flush();
+    current ??= { line: lineNumber, heading, lines: [], length: 0 };
+    current.lines.push(line.trim());
+    current.length += line.length + 1;
+  });
+  flush();
+
+  return chunks.length > 0 ? chunks : [{ line: lineOffset + 1, text: '' }];
+}
+
+/**
+ * Reciprocal rank fusion: each ranked list adds 1 / (k + rank) to the score of every item in it
+ * @returns Fused scores by item, in no particular order
+ */
+export function reciprocalRankFusion(lists: string[][], k: number = RRF_K): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const list of lists) {
+    list.forEach((item, index) => scores.set(item, (scores.get(item) ?? 0) + 1 / (k + index + 1)));
+  }
+  return scores;
+}
+
+/**
+ * Embedding index over note passages, stored alongside the notes. The vectors and the
+ * document frequency of each dimension are also kept in memory, loaded from storage once
+ * and then updated for the notes that are embedded again, so a search reads no vectors.
+ */
+export class SemanticIndex {
+  /** Vectors by note path; null until loaded by the first sync */
+  private vectors: Map<string, ChunkVector[]> | null = null;
+  /** Source hash each note was embedded from */
+  private sources: Map<string, string> = new Map();
+  /** Number of chunks using each dimension, sized by the first vector seen */
+  private frequency: Float32Array | null = null;
+  private chunkCount = 0;
+
+  constructor(
+    private readonly storage: IStorage,
+    private readonly embedder: Embedder
+  ) {}
+
+  /**
+   * Embed the notes that are new or have changed since they were last embedded. Chunks of
+   * removed notes go with them; chunks made by another embedder are rebuilt.
+   * @returns Number of notes embedded
+   */
+  async sync(): Promise<number> {
+    const vectors = await this.load();
+    const fingerprints = await this.storage.getFingerprints();
+    const paths = await this.storage.getNotePaths();
+    let embedded = 0;
+
+    const current = new Set(paths);
+    for (const path of Array.from(vectors.keys())) {
+      if (!current.has(path)) this.forget(path);
+    }
+
+    for (const path of paths) {
+      const fingerprint = fingerprints.get(path);
+      const source = fingerprint ? fingerprint.hash ?? `${fingerprint.mtimeMs}:${fingerprint.size}` : '';
+      if (this.sources.get(path) === source) continue;
+
+      const note = await this.storage.getNote(path);
+      if (!note) continue;
+      const chunks = await this.embedNote(note);
+      await this.storage.setNoteChunks(path, this.embedder.id, source, chunks);
+
+      this.forget(path);
+      this.sources.set(path, source);
+      this.remember(path, chunks.map(({ text: _text, ...chunk }, position) => ({ path, position, ...chunk })));
+      embedded++;
+    }
+    return embedded;
+  }
+
+  /**
+   * Find the notes with passages most similar to the query, after bringing the index up to date.
+   * Dimensions are weighted by inverse document frequency over all passages, which favours rare
+   * words for sparse embeddings and changes nothing for dense ones.
+   * @param paths - Only consider these notes
+   * @returns The best passage of each note with a positive similarity, most similar first
+   */
+  async search(query: string, paths: Set<string>): Promise<SemanticHit[]> {
+    await this.sync();
+    const [queryVector] = await this.embedder.embed([query]);
+    const weights = this.inverseDocumentFrequency(queryVector.length);
+    const weightedQuery = normalize(queryVector.map((value, index) => value * weights[index]));
+
+    const best = new Map<string, SemanticHit>();
+    for (const path of paths) {
+      for (const chunk of this.vectors?.get(path) ?? []) {
+        if (chunk.vector.length !== queryVector.length) continue;
+        const similarity = weightedCosine(weightedQuery, chunk.vector, weights);
+        if (similarity > 0 && similarity > (best.get(path)?.similarity ?? 0)) {
+          best.set(path, { path, similarity, chunk });
+        }
+      }
+    }
+    return Array.from(best.values()).sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Read the text of a passage found by search
+   */
+  async passage(hit: SemanticHit): Promise<{ line: number; heading?: string; text: string }> {
+    const { line, heading, position } = hit.chunk;
+    const text = await this.storage.getChunkText(hit.path, position) ?? '';
+    return { line, ...(heading ? { heading } : {}), text };
+  }
+
+  /**
+   * Load the stored vectors on first use
+   */
+  private async load(): Promise<Map<string, ChunkVector[]>> {
+    if (!this.vectors) {
+      this.vectors = new Map();
+      this.sources = await this.storage.getChunkSources(this.embedder.id);
+      const byPath = new Map<string, ChunkVector[]>();
+      for (const chunk of await this.storage.getChunkVectors()) {
+        const chunks = byPath.get(chunk.path) ?? [];
+        chunks.push(chunk);
+        byPath.set(chunk.path, chunks);
+      }
+      byPath.forEach((chunks, path) => this.remember(path, chunks));
+    }
+    return this.vectors;
+  }
+
+  private remember(path: string, chunks: ChunkVector[]): void {
+    this.vectors!.set(path, chunks);
+    this.count(chunks, 1);
+  }
+
+  private forget(path: string): void {
+    this.count(this.vectors!.get(path) ?? [], -1);
+    this.vectors!.delete(path);
+    this.sources.delete(path);
+  }
+
+  /**
+   * Add (or with -1, remove) chunks to the document frequency of each dimension
+   */
+  private count(chunks: ChunkVector[], sign: 1 | -1): void {
+    for (const { vector } of chunks) {
+      this.frequency ??= new Float32Array(vector.length);
+      if (vector.length !== this.frequency.length) continue;
+      for (let index = 0; index < vector.length; index++) {
+        if (vector[index] !== 0) this.frequency[index] += sign;
+      }
+      this.chunkCount += sign;
+    }
+  }
+
+  /**
+   * ln((n + 1) / (df + 1)) + 1 per dimension, where df counts the chunks using it
+   */
+  private inverseDocumentFrequency(dimensions: number): Float32Array {
+    const frequency = this.frequency?.length === dimensions ? this.frequency : new Float32Array(dimensions);
+    return frequency.map(count => Math.log((this.chunkCount + 1) / (count + 1)) + 1);
+  }
+
+  private async embedNote(note: Note): Promise<NoteChunk[]> {
+    const chunks = chunkNote(note.content, note.lineOffset);
+    const vectors = await this.embedder.embed(
+      chunks.map(chunk => [note.title, chunk.heading, chunk.text].filter(Boolean).join('\n'))
+    );
+    return chunks.map((chunk, index) => ({ ...chunk, vector: vectors[index] }));
+  }
+}
+
+/**
+ * Cosine similarity of a weighted, normalised query and a vector weighted the same way
+ */
+function weightedCosine(query: Float32Array, vector: Float32Array, weights: Float32Array): number {
+  let dot = 0;
+  let norm = 0;
+  for (let index = 0; index < vector.length; index++) {
+    const value = vector[index] * weights[index];
+    dot += query[index] * value;
+    norm += value * value;
+  }
+  return norm > 0 ? dot / Math.sqrt(norm) : 0;
+}
@@ -0,0 +1,172 @@
+import { TextTerm } from './query.js';
+import { SearchMatch } from './types.js';
+
+/**
+ * Markers FTS5 highlight() is asked to put around matched words; control characters that
+ * do not occur in note text
+ */
+export const HIGHLIGHT_OPEN = '\u0002';
+export const HIGHLIGHT_CLOSE = '\u0003';
+
+/** Most content lines reported per note */
+const MAX_CONTENT_MATCHES = 5;
+/** Longest snippet text; longer lines are cut around their first match */
+const MAX_SNIPPET_LENGTH = 160;
+/** Characters kept before the first match when a line is cut */
+const SNIPPET_CONTEXT = 40;
+
+/**
+ * [start, end) character offsets
+ */
+export type TextRange = [number, number];
+
+/**
+ * Remove highlight markers from FTS5 highlight() output
+ * @returns The original text and the ranges that were highlighted
+ */
+export function parseHighlighted(highlighted: string): { text: string; ranges: TextRange[] } {
+  const ranges: TextRange[] = [];
+  let text = '';
+  let start = -1;
+  for (const char of highlighted) {
+    if (char === HIGHLIGHT_OPEN) {
+      start = text.length;
+    } else if (char === HIGHLIGHT_CLOSE) {
+      if (start >= 0) ranges.push([start, text.length]);
+      start = -1;
+    } else {
+      text += char;
+    }
+  }
+  return { text, ranges };
+}
+
+/**
+ * Every case-insensitive occurrence of a phrase in the text
+ */
+export function findPhraseRanges(text: string, phrase: string): TextRange[] {
+  const ranges: TextRange[] = [];
+  const needle = phrase.toLowerCase();
+  if (!needle) return ranges;
+  const haystack = text.toLowerCase();
+  for (let index = haystack.indexOf(needle); index >= 0; index = haystack.indexOf(needle, index + needle.length)) {
+    ranges.push([index, index + needle.length]);
+  }
+  return ranges;
+}
+
+/**
+ * Fuse.js reports every character that agrees with the pattern, most of them stray letters;
+ * keep the runs long enough to be the fuzzy-matched word
+ * @param indices - Inclusive [start, end] pairs from a Fuse match
+ */
+export function fuzzyMatchRanges(indices: ReadonlyArray<readonly [number, number]>, term: string): TextRange[] {
+  const minLength = Math.max(2, Math.ceil(term.length * 0.75));
+  return indices
+    .filter(([start, end]) => end - start + 1 >= minLength)
+    .map(([start, end]) => [start, end + 1]);
+}
+
+/**
+ * Group highlighted ranges of a title or body into one match per line
+ * @param lineOffset - Number of frontmatter lines preceding the body (content only)
+ */
+export function textMatches(field: 'title' | 'content', text: string, ranges: TextRange[], lineOffset: number = 0): SearchMatch[] {
+  const byLine = new Map<number, TextRange[]>();
+  const lines = text.split('\n');
+  let lineStart = 0;
+  let lineIndex = 0;
+
+  for (const [start, end] of mergeRanges(ranges)) {
+    while (lineIndex < lines.length - 1 && start >= lineStart + lines[lineIndex].length + 1) {
+      lineStart += lines[lineIndex].length + 1;
+      lineIndex++;
+    }
+    // A phrase can run onto the next line; it is cut at the end of the line it starts on
+    const lineRanges = byLine.get(lineIndex) ?? [];
+    lineRanges.push([start - lineStart, Math.min(end - lineStart, lines[lineIndex].length)]);
+    byLine.set(lineIndex, lineRanges);
+  }
+
+  return Array.from(byLine.entries())
+    .slice(0, field === 'content' ? MAX_CONTENT_MATCHES : 1)
+    .map(([index, lineRanges]) => ({
+      field,
+      ...(field === 'content' ? { line: index + 1 + lineOffset } : {}),
+      ...clipLine(lines[index].replace(/\r$/, ''), lineRanges)
+    }));
+}
+
+/**
+ * Tags that explain why a note matched: those under a tag filter, and those with a path
+ * segment equal to a search word (or starting with it, for `prefix*`)
+ */
+export function tagMatches(tags: string[], terms: TextTerm[], tagFilters: string[]): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+
+  for (const tag of new Set(tags)) {
+    const lower = tag.toLowerCase();
+    const ranges: TextRange[] = [];
+
+    for (const filter of tagFilters) {
+      const wanted = filter.toLowerCase();
+      if (lower === wanted || lower.startsWith(`${wanted}/`)) {
+        ranges.push([0, wanted.length]);
+      }
+    }
+
+    let segmentStart = 0;
+    for (const segment of lower.split('/')) {
+      for (const term of terms) {
+        const word = term.text.toLowerCase();
+        if (segment === word || (term.prefix && segment.startsWith(word))) {
+          ranges.push([segmentStart, segmentStart + (term.prefix ? word.length : segment.length)]);
+        }
+      }
+      segmentStart += segment.length + 1;
+    }
+
+    if (ranges.length > 0) {
+      matches.push({ field: 'tag', text: tag, highlights: mergeRanges(ranges) });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Sort ranges and join those that overlap or touch
+ */
+function mergeRanges(ranges: TextRange[]): TextRange[] {
+  const merged: TextRange[] = [];
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0] || a[1] - b[1])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Cut a long line to a window around its first match, keeping the offsets pointing at the same words
+ */
+function clipLine(line: string, ranges: TextRange[]): { text: string; highlights: TextRange[] } {
+  if (line.length <= MAX_SNIPPET_LENGTH) {
+    return { text: line, highlights: ranges };
+  }
+
+  const start = Math.max(0, Math.min(ranges[0][0] - SNIPPET_CONTEXT, line.length - MAX_SNIPPET_LENGTH));
+  const end = start + MAX_SNIPPET_LENGTH;
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < line.length ? '…' : '';
+  const shift = prefix.length - start;
+
+  return {
+    text: `${prefix}${line.slice(start, end)}${suffix}`,
+    highlights: ranges
+      .filter(([rangeStart]) => rangeStart >= start && rangeStart < end)
+      .map(([rangeStart, rangeEnd]) => [rangeStart + shift, Math.min(rangeEnd, end) + shift])
+  };
+}
@@ -9,14 +9,9 @@ import { MemoryStorage } from './memory-storage.js';
 export function createStorage(config: VaultConfig): IStorage {
   if (config.useMemory) {
     console.error('Using in-memory storage (Fuse.js)');
-    return new MemoryStorage({
-      title: config.searchWeights.title,
-      tags: config.searchWeights.tags,
-      frontmatter: config.searchWeights.frontmatter,
-      content: config.searchWeights.content
-    });
+    return new MemoryStorage(config.searchWeights);
   }
 
   console.error('Using database storage (SQLite)');
-  return new DatabaseStorage(config.vaultPath);
+  return new DatabaseStorage(config.vaultPath, config.searchWeights);
 }
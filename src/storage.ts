@@ -1,4 +1,9 @@
-import { Note, SearchOptions } from './types.js';
+import { ChunkVector, FileFingerprint, IndexedLink, IndexedTask, JournalEntry, Note, NoteChunk, SearchOptions, TagCount, TagSource, TaskQuery } from './types.js';
+
+/**
+ * Number of journal entries kept; older entries are dropped as new ones are added
+ */
+export const MAX_JOURNAL_ENTRIES = 500;
 
 /**
  * Storage interface for note indexing and retrieval
@@ -20,11 +25,46 @@ export interface IStorage {
    */
   upsertNotes(notes: Note[]): Promise<void>;
 
+  /**
+   * Remove a note and all of its derived data (tags, frontmatter, search index)
+   */
+  deleteNote(path: string): Promise<void>;
+
+  /**
+   * Remove multiple notes (bulk operation)
+   */
+  deleteNotes(paths: string[]): Promise<void>;
+
+  /**
+   * Remove some notes and store others in a single operation (e.g. when notes are moved)
+   * @param removedPaths - Paths to remove
+   * @param notes - Notes to store or update
+   */
+  replaceNotes(removedPaths: string[], notes: Note[]): Promise<void>;
+
+  /**
+   * Get the paths of stored notes
+   * @param options - When given, only notes matching these filters (as in searchNotes, ignoring limit)
+   */
+  getNotePaths(options?: SearchOptions): Promise<string[]>;
+
+  /**
+   * Get the file fingerprints recorded when each note was last indexed, keyed by path
+   */
+  getFingerprints(): Promise<Map<string, FileFingerprint>>;
+
   /**
    * Get a note by path
    */
   getNote(path: string): Promise<Note | null>;
 
+  /**
+   * Get indexed links, optionally narrowed to one source note and/or a target file name
+   * @param filter.source - Only links appearing in this note
+   * @param filter.targetName - Only links whose target file name matches (see linkTargetName)
+   */
+  getLinks(filter?: { source?: string; targetName?: string }): Promise<IndexedLink[]>;
+
   /**
    * Get all notes
    */
@@ -37,14 +77,75 @@ export interface IStorage {
 
   /**
    * Get notes by tag (with hierarchical support)
+   * @param source - Only match frontmatter or inline tags (default: both)
+   */
+  getNotesByTag(tag: string, source?: TagSource): Promise<Note[]>;
+
+  /**
+   * Count notes per tag, including every ancestor of a hierarchical tag
+   * @param source - Only count frontmatter or inline tags (default: both)
+   * @returns One entry per tag and ancestor, sorted by tag
    */
-  getNotesByTag(tag: string): Promise<Note[]>;
+  getTagCounts(source?: TagSource): Promise<TagCount[]>;
+
+  /**
+   * Query checkbox tasks across all notes
+   * @returns Matching tasks, by due date (undated last), then path and line
+   */
+  queryTasks(query: TaskQuery): Promise<IndexedTask[]>;
 
   /**
    * Get recent notes
    */
   getRecentNotes(limit: number): Promise<Note[]>;
 
+  /**
+   * Get the source each note's embedded chunks were made from (see setNoteChunks), keyed by path.
+   * Chunks made by a different embedder are discarded first.
+   * @param embedderId - Id of the embedder in use
+   */
+  getChunkSources(embedderId: string): Promise<Map<string, string>>;
+
+  /**
+   * Replace the embedded chunks of a note; they are removed along with the note
+   * @param sourceHash - Identifies the file content the chunks were made from
+   */
+  setNoteChunks(path: string, embedderId: string, sourceHash: string, chunks: NoteChunk[]): Promise<void>;
+
+  /**
+   * Get the embeddings of stored chunks, without their text
+   * @param paths - Only chunks of these notes (default: all notes)
+   */
+  getChunkVectors(paths?: string[]): Promise<ChunkVector[]>;
+
+  /**
+   * Get the text of a stored chunk
+   * @returns The text, or null if there is no such chunk
+   */
+  getChunkText(path: string, position: number): Promise<string | null>;
+
+  /**
+   * Record a change made by a write tool. Unlike the note index, the journal is kept when
+   * the index is cleared or rebuilt.
+   * @returns The id of the new entry
+   */
+  addJournalEntry(entry: Omit<JournalEntry, 'id' | 'undoneBy'>): Promise<number>;
+
+  /**
+   * Get journal entries, newest first
+   */
+  getJournalEntries(limit: number): Promise<JournalEntry[]>;
+
+  /**
+   * Get a journal entry by id
+   */
+  getJournalEntry(id: number): Promise<JournalEntry | null>;
+
+  /**
+   * Mark a journal entry as reverted by a later undo entry
+   */
+  markJournalEntryUndone(id: number, undoneBy: number): Promise<void>;
+
   /**
    * Clear all stored notes
    */
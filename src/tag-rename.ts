@@ -0,0 +1,218 @@
+import { forEachTextLine } from './markdown.js';
+import { findInlineTags } from './tags.js';
+import { findFrontmatterEnd } from './frontmatter.js';
+
+const TAG_PATTERN = /^[\p{L}\p{N}_\-/]+$/u;
+const TAGS_KEY_PATTERN = /^tags:[ \t]*(.*?)[ \t]*$/;
+const BLOCK_ITEM_PATTERN = /^(\s*-[ \t]+)(.*?)[ \t]*$/;
+
+/**
+ * Maps a tag to its new name, or returns null when the tag is not affected
+ */
+export type TagRenamer = (tag: string) => string | null;
+
+/**
+ * A single line rewritten by a tag rename
+ */
+export interface TagRenameLineChange {
+  /** 1-based line number in the original file */
+  line: number;
+  before: string;
+  /** New line text, or null if the line was removed (duplicate frontmatter tag) */
+  after: string | null;
+}
+
+/**
+ * Result of rewriting the tags in one file
+ */
+export interface TagRewrite {
+  content: string;
+  /** Number of tag occurrences renamed */
+  replacements: number;
+  changes: TagRenameLineChange[];
+}
+
+/**
+ * Tag changes made to one note
+ */
+export interface TagRenameFileChange {
+  path: string;
+  replacements: number;
+  changes: TagRenameLineChange[];
+}
+
+/**
+ * Outcome of a vault-wide tag rename or merge
+ */
+export interface TagRenameResult {
+  /** True if no files were written */
+  dryRun: boolean;
+  from: string[];
+  to: string;
+  /** Total tag occurrences renamed across all files */
+  replacements: number;
+  files: TagRenameFileChange[];
+}
+
+/**
+ * Strip a leading "#" and surrounding slashes from a user-supplied tag
+ * @returns The normalized tag, or null if it is not a valid tag
+ */
+export function normalizeTagName(tag: string): string | null {
+  const normalized = tag.trim().replace(/^#/, '').replace(/^\/+|\/+$/g, '');
+  if (!normalized || !TAG_PATTERN.test(normalized) || normalized.includes('//') || !/[^\d/]/.test(normalized)) {
+    return null;
+  }
+  return normalized;
+}
+
+/**
+ * Build a renamer that folds each of `from` into `to` (case-insensitive, like Obsidian)
+ * @param from - Tags to rename; more than one merges them into `to`
+ * @param to - New tag name
+ * @param includeChildren - Also rename hierarchical children (e.g. "work/puppet" → "job/puppet")
+ */
+export function createTagRenamer(from: string[], to: string, includeChildren: boolean): TagRenamer {
+  const sources = from.map(tag => tag.toLowerCase());
+
+  return tag => {
+    const lower = tag.toLowerCase();
+    for (const source of sources) {
+      if (lower === source) {
+        return tag === to ? null : to;
+      }
+      if (includeChildren && lower.startsWith(source + '/')) {
+        const renamed = to + tag.slice(source.length);
+        return renamed === tag ? null : renamed;
+      }
+    }
+    return null;
+  };
+}
+
+/**
+ * Rename tags in a raw note file: the frontmatter `tags` array (flow or block style)
+ * and inline #tags in the body. Everything else is left byte-for-byte unchanged.
+ * Frontmatter entries that become duplicates after renaming are dropped.
+ * @param raw - Full file content
+ * @param rename - Renamer from createTagRenamer
+ */
+export function rewriteTags(raw: string, rename: TagRenamer): TagRewrite {
+  const lines = raw.split('\n');
+  const changes: TagRenameLineChange[] = [];
+  let replacements = 0;
+
+  const frontmatterEnd = findFrontmatterEnd(lines);
+  const replaced = new Map<number, string | null>();
+
+  if (frontmatterEnd > 0) {
+    replacements += rewriteFrontmatterTags(lines, frontmatterEnd, rename, replaced);
+  }
+
+  const bodyStart = frontmatterEnd > 0 ? frontmatterEnd + 1 : 0;
+  forEachTextLine(lines.slice(bodyStart).join('\n'), bodyStart, (line, lineNumber) => {
+    let updated = line;
+    // Replace right to left so earlier offsets stay valid
+    for (const match of findInlineTags(line).reverse()) {
+      const renamed = rename(match.tag);
+      if (renamed !== null) {
+        updated = updated.slice(0, match.start) + renamed + updated.slice(match.end);
+        replacements++;
+      }
+    }
+    if (updated !== line) {
+      const original = lines[lineNumber - 1];
+      replaced.set(lineNumber - 1, original.endsWith('\r') ? updated + '\r' : updated);
+    }
+  });
+
+  const output: string[] = [];
+  lines.forEach((line, index) => {
+    if (!replaced.has(index)) {
+      output.push(line);
+      return;
+    }
+    const after = replaced.get(index)!;
+    changes.push({ line: index + 1, before: stripCarriageReturn(line), after: after === null ? null : stripCarriageReturn(after) });
+    if (after !== null) {
+      output.push(after);
+    }
+  });
+
+  return { content: output.join('\n'), replacements, changes };
+}
+
+function rewriteFrontmatterTags(
+  lines: string[],
+  frontmatterEnd: number,
+  rename: TagRenamer,
+  replaced: Map<number, string | null>
+): number {
+  const keyIndex = lines.slice(1, frontmatterEnd).findIndex(line => TAGS_KEY_PATTERN.test(stripCarriageReturn(line))) + 1;
+  if (keyIndex === 0) return 0;
+
+  const keyLine = lines[keyIndex];
+  const carriageReturn = keyLine.endsWith('\r') ? '\r' : '';
+  const value = stripCarriageReturn(keyLine).match(TAGS_KEY_PATTERN)![1];
+
+  // Flow style: tags: [a, "b", c]
+  if (value.startsWith('[') && value.endsWith(']')) {
+    const items = value.slice(1, -1).split(',').map(item => item.trim()).filter(item => item !== '');
+    const seen = new Set<string>();
+    const output: string[] = [];
+    let count = 0;
+
+    for (const item of items) {
+      const { tag, quote } = unquote(item);
+      const renamed = rename(tag);
+      if (renamed !== null) count++;
+      const next = renamed ?? tag;
+      if (seen.has(next.toLowerCase())) continue;
+      seen.add(next.toLowerCase());
+      output.push(renamed === null ? item : quote + renamed + quote);
+    }
+
+    if (count > 0) {
+      const prefix = keyLine.slice(0, keyLine.indexOf(value));
+      replaced.set(keyIndex, `${prefix}[${output.join(', ')}]${carriageReturn}`);
+    }
+    return count;
+  }
+
+  // Block style: tags:\n  - a\n  - b
+  if (value !== '') return 0;
+
+  const seen = new Set<string>();
+  let count = 0;
+  for (let index = keyIndex + 1; index < frontmatterEnd; index++) {
+    const line = stripCarriageReturn(lines[index]);
+    const match = line.match(BLOCK_ITEM_PATTERN);
+    if (!match) {
+      if (line.trim() === '' || line.trim().startsWith('#')) continue;
+      break;
+    }
+
+    const { tag, quote } = unquote(match[2]);
+    const renamed = rename(tag);
+    const next = renamed ?? tag;
+    if (renamed !== null) count++;
+
+    if (seen.has(next.toLowerCase())) {
+      replaced.set(index, null);
+    } else if (renamed !== null) {
+      replaced.set(index, `${match[1]}${quote}${renamed}${quote}${lines[index].endsWith('\r') ? '\r' : ''}`);
+    }
+    seen.add(next.toLowerCase());
+  }
+  return count;
+}
+
+function unquote(item: string): { tag: string; quote: string } {
+  const quote = /^(["']).*\1$/.test(item) ? item[0] : '';
+  const tag = quote ? item.slice(1, -1) : item;
+  return { tag: tag.replace(/^#/, ''), quote };
+}
+
+function stripCarriageReturn(line: string): string {
+  return line.endsWith('\r') ? line.slice(0, -1) : line;
+}
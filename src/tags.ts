@@ -0,0 +1,85 @@
+import { forEachTextLine, maskInlineCode } from './markdown.js';
+import { TagCount, TagTreeNode } from './types.js';
+
+const HEADING_PATTERN = /^\s{0,3}#{1,6}(\s|$)/;
+const URL_PATTERN = /\b[a-z][a-z0-9+.-]*:\/\/\S+/gi;
+const LINK_DESTINATION_PATTERN = /\]\([^)]*\)/g;
+const INLINE_TAG_PATTERN = /(^|[\s([{,;])#([\p{L}\p{N}_\-/]+)/gu;
+
+/**
+ * An inline #tag found on a line
+ */
+export interface InlineTagMatch {
+  /** Tag without the leading "#" or trailing "/" */
+  tag: string;
+  /** Offset of the first character after "#" */
+  start: number;
+  /** Offset just past the last character of `tag` */
+  end: number;
+}
+
+/**
+ * Find inline #tags on a single line outside fenced code, the way Obsidian recognises them.
+ * Tags inside inline code, URLs and on heading lines are ignored,
+ * and purely numeric tags (e.g. "#123") are not tags.
+ * @param line - One line of markdown that is not inside a fenced code block
+ */
+export function findInlineTags(line: string): InlineTagMatch[] {
+  if (HEADING_PATTERN.test(line)) return [];
+
+  const text = maskInlineCode(line)
+    .replace(URL_PATTERN, match => ' '.repeat(match.length))
+    .replace(LINK_DESTINATION_PATTERN, match => ' '.repeat(match.length));
+
+  const matches: InlineTagMatch[] = [];
+  for (const match of text.matchAll(INLINE_TAG_PATTERN)) {
+    const tag = match[2].replace(/\/+$/, '');
+    if (/[^\d/]/.test(tag)) {
+      const start = match.index! + match[1].length + 1;
+      matches.push({ tag, start, end: start + tag.length });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Extract inline #tags from a note body (see findInlineTags for what counts as a tag)
+ * @param body - Markdown content (frontmatter removed)
+ * @returns Unique tags without the leading "#", in order of first appearance
+ */
+export function extractInlineTags(body: string): string[] {
+  const tags = new Set<string>();
+
+  forEachTextLine(body, 0, line => {
+    for (const match of findInlineTags(line)) {
+      tags.add(match.tag);
+    }
+  });
+
+  return Array.from(tags);
+}
+
+/**
+ * Nest flat tag counts into a hierarchy (work → work/puppet → …)
+ * @param counts - Counts for every tag and ancestor, as returned by getTagCounts
+ * @returns Top-level tag nodes; children are in the same order as `counts`
+ */
+export function buildTagTree(counts: TagCount[]): TagTreeNode[] {
+  const roots: TagTreeNode[] = [];
+  const nodes = new Map<string, TagTreeNode>();
+
+  for (const count of counts) {
+    const separatorIndex = count.tag.lastIndexOf('/');
+    const node: TagTreeNode = {
+      name: count.tag.slice(separatorIndex + 1),
+      ...count,
+      children: []
+    };
+    nodes.set(count.tag, node);
+
+    const parent = separatorIndex === -1 ? undefined : nodes.get(count.tag.slice(0, separatorIndex));
+    (parent ? parent.children : roots).push(node);
+  }
+
+  return roots;
+}
@@ -0,0 +1,150 @@
+import { NoteTask, TaskPriority, TaskStatus, formatDate } from './types.js';
+import { forEachTextLine, parseHeading } from './markdown.js';
+import { findInlineTags } from './tags.js';
+
+const TASK_PATTERN = /^(\s*(?:>\s*)*(?:[-*+]|\d+[.)])\s+\[)(.)\](?:(\s+)(.*))?$/;
+const DATE_PATTERN = /(📅|⏳|🛫|✅)\uFE0F?\s*(\d{4}-\d{2}-\d{2})/gu;
+const PRIORITY_PATTERN = /(🔺|⏫|🔼|🔽|⏬)\uFE0F?/gu;
+
+const DUE_DATE_PATTERN = /\s*📅\uFE0F?\s*\d{4}-\d{2}-\d{2}/gu;
+const DONE_DATE_PATTERN = /\s*✅\uFE0F?\s*\d{4}-\d{2}-\d{2}/gu;
+
+const STATUS_BY_SYMBOL: Record<string, TaskStatus> = {
+  ' ': 'open',
+  'x': 'done',
+  'X': 'done',
+  '/': 'in_progress',
+  '-': 'cancelled'
+};
+
+const SYMBOL_BY_STATUS: Record<TaskStatus, string> = {
+  open: ' ',
+  done: 'x',
+  in_progress: '/',
+  cancelled: '-'
+};
+
+const DATE_FIELD_BY_EMOJI: Record<string, 'due' | 'scheduled' | 'start' | 'done'> = {
+  '📅': 'due',
+  '⏳': 'scheduled',
+  '🛫': 'start',
+  '✅': 'done'
+};
+
+const PRIORITY_BY_EMOJI: Record<string, TaskPriority> = {
+  '🔺': 'highest',
+  '⏫': 'high',
+  '🔼': 'medium',
+  '🔽': 'low',
+  '⏬': 'lowest'
+};
+
+/**
+ * Changes to apply to a task line
+ */
+export interface TaskUpdate {
+  /** New status; completing adds a ✅ done date, leaving done removes it */
+  status?: TaskStatus;
+  /** New 📅 due date (YYYY-MM-DD), or null to remove it */
+  due?: string | null;
+  /** Done date to record when completing (YYYY-MM-DD, default: today) */
+  doneDate?: string;
+}
+
+/**
+ * Parse a single line as a markdown checkbox task
+ * @param line - Line text (without line terminator)
+ * @param lineNumber - 1-based line number in the file
+ * @param heading - Nearest heading above the line, if any
+ * @returns The task, or null if the line is not a checkbox list item
+ */
+export function parseTaskLine(line: string, lineNumber: number, heading?: string): NoteTask | null {
+  const match = line.match(TASK_PATTERN);
+  if (!match) return null;
+
+  const text = (match[4] ?? '').trimEnd();
+  const task: NoteTask = {
+    line: lineNumber,
+    text,
+    description: '',
+    status: STATUS_BY_SYMBOL[match[2]] ?? 'open',
+    priority: 'normal',
+    ...(heading ? { heading } : {}),
+    tags: Array.from(new Set(findInlineTags(text).map(tag => tag.tag)))
+  };
+
+  for (const [, emoji, date] of text.matchAll(DATE_PATTERN)) {
+    task[DATE_FIELD_BY_EMOJI[emoji]] = date;
+  }
+  for (const [, emoji] of text.matchAll(PRIORITY_PATTERN)) {
+    task.priority = PRIORITY_BY_EMOJI[emoji];
+  }
+
+  task.description = text
+    .replace(DATE_PATTERN, '')
+    .replace(PRIORITY_PATTERN, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return task;
+}
+
+/**
+ * Extract checkbox tasks from a note body, skipping fenced code blocks
+ * @param body - Markdown content (frontmatter removed)
+ * @param lineOffset - Number of frontmatter lines preceding the body
+ * @returns Tasks in document order
+ */
+export function extractTasks(body: string, lineOffset: number = 0): NoteTask[] {
+  const tasks: NoteTask[] = [];
+  let heading: string | undefined;
+
+  forEachTextLine(body, lineOffset, (line, lineNumber) => {
+    const headingMatch = parseHeading(line);
+    if (headingMatch) {
+      heading = headingMatch.text;
+      return;
+    }
+
+    const task = parseTaskLine(line, lineNumber, heading);
+    if (task) tasks.push(task);
+  });
+
+  return tasks;
+}
+
+/**
+ * Rewrite a task line with a new status and/or due date, in Tasks-plugin format
+ * @param line - Line text (without line terminator); must be a checkbox list item
+ * @param update - Changes to apply
+ * @returns The updated line; list marker, indentation and other text are preserved
+ */
+export function updateTaskLine(line: string, update: TaskUpdate): string {
+  const match = line.match(TASK_PATTERN);
+  if (!match) {
+    throw new Error('Line is not a checkbox task');
+  }
+
+  const wasDone = STATUS_BY_SYMBOL[match[2]] === 'done';
+  const symbol = update.status ? SYMBOL_BY_STATUS[update.status] : match[2];
+  let text = (match[4] ?? '').trimEnd();
+
+  if (update.due !== undefined) {
+    text = text.replace(DUE_DATE_PATTERN, '');
+    if (update.due !== null) {
+      // Keep the due date ahead of a done date, where the Tasks plugin writes it
+      const doneIndex = text.search(DONE_DATE_PATTERN);
+      text = doneIndex === -1
+        ? `${text} 📅 ${update.due}`
+        : `${text.slice(0, doneIndex)} 📅 ${update.due}${text.slice(doneIndex)}`;
+    }
+  }
+
+  if (update.status === 'done' && !wasDone) {
+    text = `${text.replace(DONE_DATE_PATTERN, '')} ✅ ${update.doneDate ?? formatDate(new Date())}`;
+  } else if (update.status && update.status !== 'done') {
+    text = text.replace(DONE_DATE_PATTERN, '');
+  }
+
+  return `${match[1]}${symbol}]${match[3] ?? ' '}${text.trim()}`;
+}
@@ -0,0 +1,70 @@
+/**
+ * Variable substitution for note templates, in the style of Obsidian's core Templates plugin:
+ * `{{title}}`, `{{date}}`, `{{time}}`, `{{date:FORMAT}}`, `{{time:FORMAT}}` and caller-supplied
+ * `{{name}}` variables. Anything else (including Templater `<% %>` commands) is left as written.
+ */
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*(?::([^}]*))?\}\}/g;
+const FORMAT_TOKEN_PATTERN = /YYYY|YY|MM|DD|HH|mm|ss/g;
+
+/**
+ * Names of the variables every template can use; callers cannot override them
+ */
+export const BUILT_IN_TEMPLATE_VARIABLES = ['title', 'date', 'time'] as const;
+
+/**
+ * Values substituted into a template
+ */
+export interface TemplateContext {
+  /** Title of the new note (its file name without .md) */
+  title: string;
+  /** Point in time used for {{date}} and {{time}} */
+  now: Date;
+  /** Caller-supplied variables, by name */
+  variables?: Record<string, string>;
+}
+
+/**
+ * Format a date with moment-style tokens: YYYY, YY, MM, DD, HH, mm and ss.
+ * Other characters are copied as written.
+ */
+export function formatTemplateDate(date: Date, format: string): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return format.replace(FORMAT_TOKEN_PATTERN, token => {
+    switch (token) {
+      case 'YYYY': return String(date.getFullYear());
+      case 'YY': return String(date.getFullYear()).slice(-2);
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'DD': return pad(date.getDate());
+      case 'HH': return pad(date.getHours());
+      case 'mm': return pad(date.getMinutes());
+      default: return pad(date.getSeconds());
+    }
+  });
+}
+
+/**
+ * Substitute variables into a template
+ * @param template - Raw template content, including any frontmatter
+ * @param context - Title, time and custom variables
+ * @returns The rendered content and the names of placeholders that had no value (left as written)
+ */
+export function renderTemplate(template: string, context: TemplateContext): { content: string; unresolved: string[] } {
+  const unresolved = new Set<string>();
+
+  const content = template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string, format: string | undefined) => {
+    const key = name.toLowerCase();
+    if (key === 'date') return formatTemplateDate(context.now, format?.trim() || 'YYYY-MM-DD');
+    if (key === 'time') return formatTemplateDate(context.now, format?.trim() || 'HH:mm');
+    if (key === 'title' && format === undefined) return context.title;
+
+    const value = format === undefined ? context.variables?.[name] : undefined;
+    if (value === undefined) {
+      unresolved.add(name);
+      return placeholder;
+    }
+    return value;
+  });
+
+  return { content, unresolved: Array.from(unresolved) };
+}
@@ -18,6 +18,174 @@ export interface NoteFrontmatter {
   [key: string]: unknown;
 }
 
+/**
+ * Where a tag was found: the frontmatter `tags` array or an inline #tag in the body
+ */
+export type TagSource = 'frontmatter' | 'inline';
+
+/**
+ * How a search query is read: "plain" for the query language with every word searched as
+ * text, "advanced" for raw SQLite FTS5 syntax (NEAR, prefix*, column filters)
+ */
+export type SearchMode = 'plain' | 'advanced';
+
+/**
+ * Note counts for a tag, including notes tagged with any of its descendants
+ */
+export interface TagCount {
+  /** Full hierarchical tag (e.g., "work/puppet") */
+  tag: string;
+  /** Notes tagged with exactly this tag */
+  directCount: number;
+  /** Notes tagged with this tag or any descendant, each note counted once */
+  totalCount: number;
+  /** Latest `modified` date (YYYY-MM-DD) among those notes, or null if none has one */
+  lastModified: string | null;
+}
+
+/**
+ * A node in the hierarchical tag tree
+ */
+export interface TagTreeNode extends TagCount {
+  /** Last segment of the tag (e.g., "puppet" for "work/puppet") */
+  name: string;
+  children: TagTreeNode[];
+}
+
+/**
+ * Snapshot of a note file's on-disk state, used to skip unchanged files when re-indexing
+ */
+export interface FileFingerprint {
+  /** Last modification time in milliseconds since the epoch */
+  mtimeMs: number;
+  /** File size in bytes */
+  size: number;
+  /** SHA-256 hash of the raw file content */
+  hash?: string;
+}
+
+/**
+ * A link from one note to another, as written in the source note
+ */
+export interface NoteLink {
+  /** Link target as written, without alias or subpath (e.g. "Folder/Note" or "Note.md") */
+  target: string;
+  /** Heading or block reference inside the target (e.g. "#Heading", "#^block") */
+  subpath?: string;
+  /** Display text ([[Note|alias]] or the text of a markdown link) */
+  alias?: string;
+  /** Syntax used: [[wikilink]], ![[embed]] or [markdown](link.md) */
+  kind: 'wikilink' | 'embed' | 'markdown';
+  /** 1-based line number in the file */
+  line: number;
+}
+
+/**
+ * A link together with the note it appears in
+ */
+export interface IndexedLink extends NoteLink {
+  /** Path of the note containing the link */
+  source: string;
+}
+
+/**
+ * A link with its target resolved against the indexed notes
+ */
+export interface ResolvedLink extends IndexedLink {
+  /** Path of the linked note, or null if the link is broken */
+  resolved: string | null;
+}
+
+/**
+ * Completion state of a checkbox task: [ ] open, [x] done, [/] in progress, [-] cancelled
+ */
+export type TaskStatus = 'open' | 'done' | 'in_progress' | 'cancelled';
+
+/**
+ * Tasks-plugin priority (🔺 highest, ⏫ high, 🔼 medium, none normal, 🔽 low, ⏬ lowest)
+ */
+export type TaskPriority = 'highest' | 'high' | 'medium' | 'normal' | 'low' | 'lowest';
+
+/**
+ * A markdown checkbox task (`- [ ] ...`) found in a note
+ */
+export interface NoteTask {
+  /** 1-based line number in the file */
+  line: number;
+  /** Text after the checkbox, exactly as written */
+  text: string;
+  /** Text with Tasks-plugin metadata (emoji dates and priority) removed */
+  description: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  /** Nearest heading above the task, if any */
+  heading?: string;
+  /** Inline #tags in the task text */
+  tags: string[];
+  /** 📅 due date (YYYY-MM-DD) */
+  due?: string;
+  /** ⏳ scheduled date (YYYY-MM-DD) */
+  scheduled?: string;
+  /** 🛫 start date (YYYY-MM-DD) */
+  start?: string;
+  /** ✅ done date (YYYY-MM-DD) */
+  done?: string;
+}
+
+/**
+ * One file changed by a write tool, as recorded in the journal
+ */
+export interface JournalFileChange {
+  /** Vault-relative path of the file */
+  path: string;
+  /** Content before the change, or null if the file did not exist */
+  before: string | null;
+  /** Content after the change, or null if the file was removed (moved or deleted) */
+  after: string | null;
+}
+
+/**
+ * A journal entry for one call of a write tool
+ */
+export interface JournalEntry {
+  id: number;
+  /** Name of the write tool that made the change */
+  tool: string;
+  /** ISO 8601 time of the change */
+  timestamp: string;
+  files: JournalFileChange[];
+  /** Id of the undo_change entry that reverted this change, if any */
+  undoneBy?: number;
+}
+
+/**
+ * A task together with the note it appears in
+ */
+export interface IndexedTask extends NoteTask {
+  /** Path of the note containing the task */
+  path: string;
+}
+
+/**
+ * Filters for querying tasks across the vault
+ */
+export interface TaskQuery {
+  status?: TaskStatus;
+  /** Only tasks due on or after this date (YYYY-MM-DD) */
+  dueFrom?: string;
+  /** Only tasks due on or before this date (YYYY-MM-DD) */
+  dueTo?: string;
+  /** Tag on the task or its note (supports hierarchical matching) */
+  tag?: string;
+  /** Filter by note path pattern (e.g., "Work/**") */
+  path?: string;
+  priority?: TaskPriority;
+  /** Include tasks in archived notes (default: false) */
+  includeArchive?: boolean;
+  /** Maximum number of results to return */
+  limit?: number;
+}
+
 /**
  * Represents a single note in the vault
  */
@@ -32,6 +200,60 @@ export interface Note {
   frontmatter: NoteFrontmatter;
   /** Plain text excerpt (markdown stripped) */
   excerpt?: string;
+  /** On-disk state of the file when it was indexed */
+  fingerprint?: FileFingerprint;
+  /** Version token (mtime + content hash) to pass as expectedVersion to write tools */
+  version?: string;
+  /** Outgoing links found in the note body */
+  links?: NoteLink[];
+  /** Inline #tags found in the note body (without the leading #) */
+  inlineTags?: string[];
+  /** Checkbox tasks found in the note body */
+  tasks?: NoteTask[];
+  /** Number of frontmatter lines preceding the body, to turn body lines into file lines */
+  lineOffset?: number;
+  /** Passages that matched the query (set by searchNotes) */
+  matches?: SearchMatch[];
+  /** Relevance to the query's text, boosted for recent notes (set by searchNotes for text queries) */
+  score?: number;
+}
+
+/**
+ * A passage of a note that matched a search query
+ */
+export interface SearchMatch {
+  /** Where the match was found */
+  field: 'title' | 'content' | 'tag';
+  /** 1-based line number in the file (content matches only) */
+  line?: number;
+  /** The matching line, title or tag; long lines are shortened around the match with "…" */
+  text: string;
+  /** [start, end) character offsets of the matched words in `text` */
+  highlights: Array<[number, number]>;
+}
+
+/**
+ * A passage of a note with its embedding, for semantic search
+ */
+export interface NoteChunk {
+  /** 1-based line number in the file where the passage starts */
+  line: number;
+  /** Heading the passage is under, if any */
+  heading?: string;
+  /** Text of the passage */
+  text: string;
+  /** Embedding of the note title, heading and text */
+  vector: Float32Array;
+}
+
+/**
+ * The embedding of a stored chunk, without its text, as compared against a query
+ */
+export interface ChunkVector extends Omit<NoteChunk, 'text'> {
+  /** Path of the note */
+  path: string;
+  /** Index of the chunk within the note */
+  position: number;
 }
 
 /**
@@ -40,6 +262,8 @@ export interface Note {
 export interface SearchOptions {
   /** Filter by tags (supports hierarchical matching) */
   tags?: string[];
+  /** Only match tags from this source (default: both frontmatter and inline tags) */
+  tagSource?: TagSource;
   /** Filter by note type */
   type?: NoteFrontmatter['type'];
   /** Filter by status */
@@ -54,10 +278,42 @@ export interface SearchOptions {
   path?: string;
   /** Include archived notes (default: false) */
   includeArchive?: boolean;
+  /** How the query is read (default: plain) */
+  mode?: SearchMode;
   /** Maximum number of results to return (1-100) */
   limit?: number;
 }
 
+/**
+ * Search scoring weights (see scoring.ts)
+ */
+export interface SearchWeights {
+  /** Weight for title matches */
+  title: number;
+  /** Weight for tag matches */
+  tags: number;
+  /** Weight for frontmatter matches (type, status, category) */
+  frontmatter: number;
+  /** Weight for content matches */
+  content: number;
+  /** Score multiplier for a note modified today, fading with age (1 disables the boost) */
+  recency: number;
+  /** Days after which the recency boost has halved (default: 30) */
+  recencyHalfLifeDays?: number;
+}
+
+/**
+ * Restrictions on one write tool (or, under "*", on every write tool)
+ */
+export interface WriteRule {
+  /** Set to false to disable the tool entirely (default: true) */
+  enabled?: boolean;
+  /** Glob patterns for the paths the tool may write; when set, every other path is refused */
+  allow?: string[];
+  /** Glob patterns for paths the tool may never write; takes precedence over allow */
+  deny?: string[];
+}
+
 /**
  * Configuration for vault indexing and search
  */
@@ -78,19 +334,22 @@ export interface VaultConfig {
   maxRecentNotes: number;
   /** Use in-memory storage instead of database (default: false) */
   useMemory?: boolean;
+  /** Watch the vault for changes and re-index them incrementally (CLI default: true) */
+  watch?: boolean;
+  /** Debounce window for file watcher events in milliseconds (default: 300) */
+  watchDebounceMs?: number;
+  /** Vault-relative folder holding note templates; never indexed (default: _Meta/Templates) */
+  templateFolder?: string;
+  /** Build an embedding index and enable semantic_search (default: false) */
+  semanticSearch?: boolean;
+  /** Path of a JavaScript module that provides the embedder (default: built-in hashing embedder) */
+  embedderModule?: string;
+  /** Refuse every write and hide the write tools (default: false) */
+  readOnly?: boolean;
+  /** Per-tool write restrictions keyed by tool name; rules under "*" apply to every write tool */
+  writeRules?: Record<string, WriteRule>;
   /** Search scoring weights */
-  searchWeights: {
-    /** Weight for title matches */
-    title: number;
-    /** Weight for tag matches */
-    tags: number;
-    /** Weight for frontmatter matches */
-    frontmatter: number;
-    /** Weight for content matches */
-    content: number;
-    /** Weight boost for recent notes */
-    recency: number;
-  };
+  searchWeights: SearchWeights;
 }
 
 /**
@@ -125,6 +384,15 @@ export function parseDate(dateString: string): Date | null {
   return date;
 }
 
+/**
+ * Utility: Formats a date as YYYY-MM-DD (local time)
+ */
+export function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
 /**
  * Utility: Validates if a value is a valid note type
  */
@@ -148,3 +416,35 @@ export function isValidCategory(value: unknown): value is NoteFrontmatter['categ
   return typeof value === 'string' &&
     ['work', 'personal', 'knowledge', 'life', 'dailies'].includes(value);
 }
+
+/**
+ * Utility: Validates if a value is a valid tag source
+ */
+export function isValidTagSource(value: unknown): value is TagSource {
+  return typeof value === 'string' &&
+    ['frontmatter', 'inline'].includes(value);
+}
+
+/**
+ * Utility: Validates if a value is a valid search mode
+ */
+export function isValidSearchMode(value: unknown): value is SearchMode {
+  return typeof value === 'string' &&
+    ['plain', 'advanced'].includes(value);
+}
+
+/**
+ * Utility: Validates if a value is a valid task status
+ */
+export function isValidTaskStatus(value: unknown): value is TaskStatus {
+  return typeof value === 'string' &&
+    ['open', 'done', 'in_progress', 'cancelled'].includes(value);
+}
+
+/**
+ * Utility: Validates if a value is a valid task priority
+ */
+export function isValidTaskPriority(value: unknown): value is TaskPriority {
+  return typeof value === 'string' &&
+    ['highest', 'high', 'medium', 'normal', 'low', 'lowest'].includes(value);
+}
@@ -1,10 +1,27 @@
-import { readFile, stat } from 'fs/promises';
+/* global setTimeout, clearTimeout */
+import { mkdir, readFile, rename, stat, unlink } from 'fs/promises';
+import { watch, FSWatcher, Stats } from 'fs';
 import { glob } from 'glob';
 import matter from 'gray-matter';
-import { basename, relative } from 'path';
-import { Note, SearchOptions, VaultConfig, isValidType, isValidStatus, isValidCategory, NoteFrontmatter } from './types.js';
+import { minimatch } from 'minimatch';
+import { basename, dirname, join, relative, sep } from 'path';
+import { IndexedTask, JournalEntry, JournalFileChange, Note, SearchOptions, TagCount, TaskQuery, TagSource, TagTreeNode, VaultConfig, isValidType, isValidStatus, isValidCategory, NoteFrontmatter, formatDate, IndexedLink, ResolvedLink } from './types.js';
 import { IStorage } from './storage.js';
 import { createStorage } from './storage-factory.js';
+import { LinkResolver, extractLinks, linkTargetName } from './links.js';
+import { bodyLineOffset } from './markdown.js';
+import { buildTagTree, extractInlineTags } from './tags.js';
+import { TaskUpdate, extractTasks, updateTaskLine } from './tasks.js';
+import { InsertOptions, insertContent } from './note-edit.js';
+import { FrontmatterOperation, applyFrontmatterOperations, replaceFrontmatter, setFrontmatterDate } from './frontmatter.js';
+import { TagRenameFileChange, TagRenameResult, createTagRenamer, rewriteTags } from './tag-rename.js';
+import { MoveNoteFileChange, MoveNoteResult, rewriteLinksForMove } from './note-move.js';
+import { VersionConflictError, contentHash, noteVersion, writeFileAtomic } from './safe-write.js';
+import { GraphEdge, GraphNode, LinkDirection, LinkGraph, NoteGraph } from './graph.js';
+import { WritePolicy, WriteTool } from './write-policy.js';
+import { renderTemplate } from './templates.js';
+import { loadEmbedder, tokenize } from './embeddings.js';
+import { SemanticIndex, SemanticSearchMode, SemanticSearchResult, reciprocalRankFusion } from './semantic-index.js';
 
 /**
  * Manages indexing and searching of an Obsidian vault
@@ -13,10 +30,17 @@ export class ObsidianVault {
   private storage: IStorage;
   private config: VaultConfig;
   private indexErrors: Array<{ path: string; error: string }> = [];
+  private watcher: FSWatcher | null = null;
+  private pendingChanges: Set<string> = new Set();
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private changeQueue: Promise<void> = Promise.resolve();
+  private writePolicy: WritePolicy;
+  private semantic: SemanticIndex | null = null;
 
   constructor(config: VaultConfig) {
     this.config = config;
     this.storage = createStorage(config);
+    this.writePolicy = new WritePolicy(config);
   }
 
   /**
@@ -28,9 +52,22 @@ export class ObsidianVault {
       console.error('Initializing Obsidian vault...');
       this.indexErrors = []; // Reset errors
       await this.storage.initialize();
-      const notes = await this.indexNotes();
+      const files = await this.scanVault();
+      const notes = await this.indexNotes(files);
       await this.storage.upsertNotes(notes);
-      console.error(`Indexed ${notes.length} notes`);
+      const unchanged = files.length - notes.length - this.indexErrors.length;
+      console.error(`Indexed ${notes.length} notes (${unchanged} unchanged)`);
+
+      const removed = await this.pruneMissingNotes(files);
+      if (removed > 0) {
+        console.error(`Removed ${removed} note(s) no longer in the vault`);
+      }
+
+      if (this.config.semanticSearch) {
+        this.semantic = new SemanticIndex(this.storage, await loadEmbedder(this.config.embedderModule));
+        const embedded = await this.semantic.sync();
+        console.error(`Embedded ${embedded} note(s) for semantic search`);
+      }
 
       if (this.indexErrors.length > 0) {
         console.error(`Warning: ${this.indexErrors.length} file(s) failed to index`);
@@ -45,67 +82,65 @@ export class ObsidianVault {
     }
   }
 
-  private async indexNotes(): Promise<Note[]> {
-    const files: string[] = [];
+  /**
+   * Find all markdown files matching the index patterns
+   * @returns Absolute paths, deduplicated across overlapping patterns
+   */
+  private async scanVault(): Promise<string[]> {
+    const files = new Set<string>();
 
     try {
       for (const pattern of this.config.indexPatterns) {
         const matches = await glob(pattern, {
           cwd: this.config.vaultPath,
           absolute: true,
-          ignore: this.config.excludePatterns
+          ignore: this.excludePatterns
         });
-        files.push(...matches);
+        matches.forEach(match => files.add(match));
       }
     } catch (error) {
       throw new Error(`Failed to scan vault directory: ${error instanceof Error ? error.message : String(error)}`);
     }
 
-    if (files.length === 0) {
+    if (files.size === 0) {
       console.error('Warning: No markdown files found matching the index patterns');
     }
 
+    return Array.from(files);
+  }
+
+  /**
+   * Remove stored notes whose files were deleted, moved or excluded since they were indexed
+   * @param files - Absolute paths of the files currently in the vault
+   * @returns Number of notes removed from storage
+   */
+  private async pruneMissingNotes(files: string[]): Promise<number> {
+    const onDisk = new Set(files.map(filePath => relative(this.config.vaultPath, filePath)));
+    const stale = (await this.storage.getNotePaths()).filter(path => !onDisk.has(path));
+
+    if (stale.length > 0) {
+      await this.storage.deleteNotes(stale);
+    }
+    return stale.length;
+  }
+
+  /**
+   * Parse the files that changed since they were last indexed
+   * @param files - Absolute paths of the files to consider
+   * @returns Notes for new or modified files; unchanged files are skipped after a single stat
+   */
+  private async indexNotes(files: string[]): Promise<Note[]> {
+    const fingerprints = await this.storage.getFingerprints();
+
     const notesWithPossibleNulls = await Promise.all(
       files.map(async (filePath) => {
         try {
-          // Check file size before reading
           const fileStats = await stat(filePath);
-          if (fileStats.size > this.config.maxFileSize) {
-            this.indexErrors.push({
-              path: filePath,
-              error: `File too large (${Math.round(fileStats.size / 1024 / 1024)}MB, max ${Math.round(this.config.maxFileSize / 1024 / 1024)}MB)`
-            });
+          const previous = fingerprints.get(relative(this.config.vaultPath, filePath));
+          if (previous && previous.mtimeMs === fileStats.mtimeMs && previous.size === fileStats.size) {
             return null;
           }
-
-          const content = await readFile(filePath, 'utf-8');
-          const { data, content: markdownContent } = matter(content);
-
-          const title = basename(filePath, '.md');
-          const excerpt = this.createExcerpt(markdownContent);
-
-          // Provide safe defaults for missing frontmatter fields with validation
-          const { created, modified, tags, type, status, category, ...rest } = data;
-          const frontmatter: NoteFrontmatter = {
-            created: typeof created === 'string' ? created : '',
-            modified: typeof modified === 'string' ? modified : '',
-            tags: Array.isArray(tags) ? tags : [],
-            type: isValidType(type) ? type : 'note',
-            status: isValidStatus(status) ? status : 'active',
-            category: isValidCategory(category) ? category : 'personal',
-            ...rest // Add other custom fields after validation
-          };
-
-          // Use path.relative for secure path handling
-          const relativePath = relative(this.config.vaultPath, filePath);
-
-          return {
-            path: relativePath,
-            title,
-            content: markdownContent,
-            frontmatter,
-            excerpt
-          } as Note;
+          return await this.loadNote(filePath, fileStats);
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : String(error);
           this.indexErrors.push({ path: filePath, error: errorMessage });
@@ -117,6 +152,56 @@ export class ObsidianVault {
     return notesWithPossibleNulls.filter((n): n is Note => n !== null);
   }
 
+  /**
+   * Read and parse a single markdown file into a Note
+   * @param filePath - Absolute path to the file
+   * @param fileStats - Stats already read for the file, if any
+   * @throws {Error} If the file is too large or cannot be read
+   */
+  private async loadNote(filePath: string, fileStats?: Stats): Promise<Note> {
+    // Check file size before reading
+    fileStats ??= await stat(filePath);
+    if (fileStats.size > this.config.maxFileSize) {
+      throw new Error(`File too large (${Math.round(fileStats.size / 1024 / 1024)}MB, max ${Math.round(this.config.maxFileSize / 1024 / 1024)}MB)`);
+    }
+
+    const content = await readFile(filePath, 'utf-8');
+    const { data, content: markdownContent } = matter(content);
+    const hash = contentHash(content);
+    const lineOffset = bodyLineOffset(content, markdownContent);
+
+    const title = basename(filePath, '.md');
+    const excerpt = this.createExcerpt(markdownContent);
+
+    // Provide safe defaults for missing frontmatter fields with validation
+    const { created, modified, tags, type, status, category, ...rest } = data;
+    const frontmatter: NoteFrontmatter = {
+      created: typeof created === 'string' ? created : '',
+      modified: typeof modified === 'string' ? modified : '',
+      tags: Array.isArray(tags) ? tags : [],
+      type: isValidType(type) ? type : 'note',
+      status: isValidStatus(status) ? status : 'active',
+      category: isValidCategory(category) ? category : 'personal',
+      ...rest // Add other custom fields after validation
+    };
+
+    // Use path.relative for secure path handling
+    const relativePath = relative(this.config.vaultPath, filePath);
+
+    return {
+      path: relativePath,
+      title,
+      content: markdownContent,
+      frontmatter,
+      excerpt,
+      fingerprint: { mtimeMs: fileStats.mtimeMs, size: fileStats.size, hash },
+      links: extractLinks(markdownContent, lineOffset),
+      inlineTags: extractInlineTags(markdownContent),
+      tasks: extractTasks(markdownContent, lineOffset),
+      lineOffset
+    };
+  }
+
   private createExcerpt(content: string, length: number = 200): string {
     // Pre-slice to avoid processing entire large files
     const maxProcessLength = length * 3;
@@ -154,6 +239,144 @@ export class ObsidianVault {
   }
 
 
+  /**
+   * Start watching the vault for created, changed, renamed and deleted notes.
+   * Bursts of events are debounced and applied as single-note updates.
+   */
+  startWatching(): void {
+    if (this.watcher) return;
+
+    this.watcher = watch(this.config.vaultPath, { recursive: true }, (_eventType, filename) => {
+      if (filename) {
+        this.queueChange(filename.toString());
+      }
+    });
+    this.watcher.on('error', (error) => {
+      console.error('File watcher error:', error instanceof Error ? error.message : String(error));
+    });
+    console.error('Watching vault for changes');
+  }
+
+  /**
+   * Stop watching the vault and wait for in-flight updates to finish
+   */
+  async stopWatching(): Promise<void> {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.pendingChanges.clear();
+    this.watcher?.close();
+    this.watcher = null;
+    await this.changeQueue;
+  }
+
+  /**
+   * Vault-relative template folder, without a trailing slash
+   */
+  private get templateFolder(): string {
+    return (this.config.templateFolder ?? '_Meta/Templates').split(sep).join('/').replace(/\/+$/, '');
+  }
+
+  /**
+   * Configured exclude patterns plus the template folder, whose notes are never indexed
+   */
+  private get excludePatterns(): string[] {
+    return [...this.config.excludePatterns, `${this.templateFolder}/**`];
+  }
+
+  /**
+   * Check whether a vault-relative path matches the index and exclude patterns
+   */
+  private isIndexable(relativePath: string): boolean {
+    const posixPath = relativePath.split(sep).join('/');
+    return posixPath.endsWith('.md') &&
+      this.config.indexPatterns.some(pattern => minimatch(posixPath, pattern)) &&
+      !this.excludePatterns.some(pattern => minimatch(posixPath, pattern));
+  }
+
+  private queueChange(filename: string): void {
+    if (!this.watcher) return;
+
+    const relativePath = relative(this.config.vaultPath, join(this.config.vaultPath, filename));
+    // Non-markdown events only matter when they may be folders being moved or deleted;
+    // hidden paths (including our own .obsidian-mcp database) are never indexed
+    if (!relativePath.endsWith('.md') && relativePath.split(sep).some(segment => segment.startsWith('.'))) {
+      return;
+    }
+
+    this.pendingChanges.add(relativePath);
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      const paths = Array.from(this.pendingChanges);
+      this.pendingChanges.clear();
+      this.changeQueue = this.changeQueue.then(() => this.applyChanges(paths));
+    }, this.config.watchDebounceMs ?? 300);
+  }
+
+  /**
+   * Re-index or remove each changed note depending on whether it still exists
+   */
+  private async applyChanges(relativePaths: string[]): Promise<void> {
+    for (const relativePath of relativePaths) {
+      try {
+        if (relativePath.endsWith('.md')) {
+          await this.reindexFile(relativePath);
+        } else {
+          await this.reindexFolder(relativePath);
+        }
+      } catch (error) {
+        console.error(`Failed to re-index ${relativePath}:`, error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  /**
+   * Handle a folder that was created, moved or deleted as a whole
+   * @param relativePath - Vault-relative path of the folder (or of a non-markdown file, which is ignored)
+   */
+  private async reindexFolder(relativePath: string): Promise<void> {
+    const fullPath = join(this.config.vaultPath, relativePath);
+    const fileStats = await stat(fullPath).catch(() => null);
+
+    if (fileStats?.isDirectory()) {
+      const files = await glob('**/*.md', { cwd: fullPath, absolute: true });
+      for (const filePath of files) {
+        await this.reindexFile(relative(this.config.vaultPath, filePath));
+      }
+    } else if (!fileStats) {
+      const prefix = relativePath + sep;
+      const stale = (await this.storage.getNotePaths()).filter(path => path.startsWith(prefix));
+      if (stale.length > 0) {
+        await this.storage.deleteNotes(stale);
+      }
+    }
+  }
+
+  /**
+   * Bring the index for a single vault-relative path in line with the file on disk
+   */
+  private async reindexFile(relativePath: string): Promise<void> {
+    const fullPath = join(this.config.vaultPath, relativePath);
+    const exists = await stat(fullPath).then(s => s.isFile(), () => false);
+
+    if (!exists || !this.isIndexable(relativePath)) {
+      await this.storage.deleteNote(relativePath);
+      return;
+    }
+
+    try {
+      await this.storage.upsertNote(await this.loadNote(fullPath));
+    } catch (error) {
+      // Never keep serving a stale copy of a note that can no longer be indexed
+      await this.storage.deleteNote(relativePath);
+      throw error;
+    }
+  }
+
   /**
    * Search notes with fuzzy matching and filters
    * @param query - Search query string (optional)
@@ -164,13 +387,92 @@ export class ObsidianVault {
     return this.storage.searchNotes(query, options);
   }
 
+  /**
+   * Search notes by meaning: passages are compared with the query by embedding similarity.
+   * In hybrid mode that ranking is fused with keyword search by reciprocal rank fusion, so a
+   * note found both ways ranks above one found only one way.
+   * @param query - Natural-language query
+   * @param options - Filters and limit as in searchNotes; `mode` is ignored
+   * @param mode - "hybrid" (default) or "vector"
+   * @returns Notes with their score and, when found by embedding, the most similar passage
+   * @throws {Error} If semantic search was not enabled
+   */
+  async semanticSearch(query: string, options: SearchOptions = {}, mode: SemanticSearchMode = 'hybrid'): Promise<SemanticSearchResult[]> {
+    if (!this.semantic) {
+      throw new Error('Semantic search is disabled; start the server with --semantic');
+    }
+
+    const limit = options.limit ?? 20;
+    const filters: SearchOptions = { ...options, mode: undefined, limit: undefined };
+    const paths = new Set(await this.storage.getNotePaths(filters));
+    const hits = await this.semantic.search(query, paths);
+    const hitsByPath = new Map(hits.map(hit => [hit.path, hit]));
+
+    let scores: Map<string, number>;
+    if (mode === 'vector') {
+      scores = new Map(hits.map(hit => [hit.path, hit.similarity]));
+    } else {
+      // Keyword leg: any of the query's words, so a question still finds notes sharing some of them
+      const words = Array.from(new Set(tokenize(query)));
+      const candidates = Math.max(limit, 50);
+      const keywordHits = words.length > 0
+        ? await this.storage.searchNotes(words.join(' OR '), { ...filters, limit: candidates })
+        : [];
+      scores = reciprocalRankFusion([
+        hits.slice(0, candidates).map(hit => hit.path),
+        keywordHits.map(note => note.path)
+      ]);
+    }
+
+    const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]).slice(0, limit);
+    const results: SemanticSearchResult[] = [];
+    for (const [path, score] of ranked) {
+      const note = await this.storage.getNote(path);
+      if (!note) continue;
+      const hit = hitsByPath.get(path);
+      results.push({
+        note,
+        score,
+        ...(hit ? { similarity: hit.similarity, passage: await this.semantic.passage(hit) } : {})
+      });
+    }
+    return results;
+  }
+
   /**
    * Get a specific note by its path
    * @param path - Relative path from vault root
-   * @returns The note or undefined if not found
+   * @returns The note with its current `version`, or null if not found
    */
   async getNote(path: string): Promise<Note | null> {
-    return this.storage.getNote(path);
+    const note = await this.storage.getNote(path);
+    if (!note?.fingerprint?.hash) return note;
+    return { ...note, version: noteVersion(note.fingerprint.mtimeMs, note.fingerprint.hash) };
+  }
+
+  /**
+   * Read a note that is about to be rewritten, checking that it is still at the version the caller read
+   * @param path - Vault-relative path of an indexed note
+   * @param expectedVersion - Version from getNote; no check is made when omitted
+   * @returns The raw file content
+   * @throws {VersionConflictError} If the file has changed since `expectedVersion`
+   */
+  private async readNoteForWrite(path: string, expectedVersion?: string): Promise<string> {
+    const fullPath = join(this.config.vaultPath, path);
+    const raw = await this.storage.getNote(path)
+      ? await readFile(fullPath, 'utf-8').catch(() => null)
+      : null;
+    if (raw === null) {
+      throw new Error(`Note not found: ${path}`);
+    }
+
+    if (expectedVersion !== undefined) {
+      const currentVersion = noteVersion((await stat(fullPath)).mtimeMs, contentHash(raw));
+      if (currentVersion !== expectedVersion) {
+        throw new VersionConflictError(path, expectedVersion, currentVersion, raw);
+      }
+    }
+    return raw;
   }
 
   /**
@@ -184,10 +486,596 @@ export class ObsidianVault {
   /**
    * Get notes with a specific tag (supports hierarchical matching)
    * @param tag - Tag to search for (e.g., "work" or "work/puppet")
+   * @param source - Only match frontmatter or inline tags (default: both)
    * @returns Array of matching notes
    */
-  async getNotesByTag(tag: string): Promise<Note[]> {
-    return this.storage.getNotesByTag(tag);
+  async getNotesByTag(tag: string, source?: TagSource): Promise<Note[]> {
+    return this.storage.getNotesByTag(tag, source);
+  }
+
+  /**
+   * Count notes per tag, including every ancestor of a hierarchical tag
+   * @param source - Only count frontmatter or inline tags (default: both)
+   * @returns Tag counts sorted by tag
+   */
+  async getTagCounts(source?: TagSource): Promise<TagCount[]> {
+    return this.storage.getTagCounts(source);
+  }
+
+  /**
+   * Get all tags as a hierarchy with direct and rolled-up note counts
+   * @param source - Only count frontmatter or inline tags (default: both)
+   * @returns Top-level tag nodes
+   */
+  async getTagTree(source?: TagSource): Promise<TagTreeNode[]> {
+    return buildTagTree(await this.storage.getTagCounts(source));
+  }
+
+  /**
+   * Create a new note with generated frontmatter and index it immediately
+   * @param path - Vault-relative path ending in .md; must match the index patterns
+   * @param content - Markdown body
+   * @param frontmatter - Frontmatter fields; `created` and `modified` are set to today and
+   *   `tags`, `type` and `status` default to [], "note" and "active"
+   * @returns The indexed note
+   * @throws {Error} If the path would not be indexed or a file already exists there, or writes to it are not allowed
+   */
+  async createNote(path: string, content: string = '', frontmatter: NoteFrontmatter = {}): Promise<Note> {
+    this.assertCanWrite('create_note', [path]);
+    if (!this.isIndexable(path)) {
+      throw new Error(`Path is not covered by the index patterns or is excluded: ${path}`);
+    }
+
+    const today = formatDate(new Date());
+    const { tags, type, status, category, ...custom } = frontmatter;
+    delete custom.created;
+    delete custom.modified;
+    const data: NoteFrontmatter = {
+      created: today,
+      modified: today,
+      tags: tags ?? [],
+      type: type ?? 'note',
+      status: status ?? 'active',
+      ...(category ? { category } : {}),
+      ...custom
+    };
+
+    return this.writeNewNote(path, matter.stringify(content, data), 'create_note');
+  }
+
+  /**
+   * List the templates in the template folder
+   * @returns Template names (path inside the template folder, without .md) and vault-relative paths, sorted by name
+   */
+  async listTemplates(): Promise<Array<{ name: string; path: string }>> {
+    const files = await glob('**/*.md', { cwd: join(this.config.vaultPath, this.templateFolder), posix: true });
+    return files
+      .map(file => ({ name: file.replace(/\.md$/, ''), path: join(this.templateFolder, file) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Create a note from a template, substituting {{title}}, {{date}}, {{time}} and custom variables.
+   * The rendered template, frontmatter included, becomes the note's content as it is.
+   * @param path - Vault-relative path ending in .md; must match the index patterns
+   * @param template - Template name from listTemplates; a bare file name works when it is unambiguous
+   * @param variables - Values for custom {{name}} placeholders
+   * @returns The indexed note, and the names of placeholders left as written because they had no value
+   * @throws {Error} If the template does not exist, the path would not be indexed or a file already exists there,
+   *   or writes to it are not allowed
+   */
+  async createNoteFromTemplate(
+    path: string,
+    template: string,
+    variables: Record<string, string> = {}
+  ): Promise<{ note: Note; unresolvedVariables: string[] }> {
+    this.assertCanWrite('create_note_from_template', [path]);
+    if (!this.isIndexable(path)) {
+      throw new Error(`Path is not covered by the index patterns or is excluded: ${path}`);
+    }
+
+    const templates = await this.listTemplates();
+    const wanted = template.split(sep).join('/').replace(/\.md$/i, '').toLowerCase();
+    let matches = templates.filter(candidate => candidate.name.toLowerCase() === wanted);
+    if (matches.length === 0 && !wanted.includes('/')) {
+      matches = templates.filter(candidate => basename(candidate.name).toLowerCase() === wanted);
+    }
+    if (matches.length === 0) {
+      throw new Error(`Template not found: ${template}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Template name "${template}" is ambiguous; use one of: ${matches.map(match => match.name).join(', ')}`);
+    }
+
+    const raw = await readFile(join(this.config.vaultPath, matches[0].path), 'utf-8');
+    const { content, unresolved } = renderTemplate(raw, {
+      title: basename(path, '.md'),
+      now: new Date(),
+      variables
+    });
+
+    const note = await this.writeNewNote(path, content, 'create_note_from_template');
+    return { note, unresolvedVariables: unresolved };
+  }
+
+  /**
+   * Write a file that must not exist yet, journal it and index it
+   */
+  private async writeNewNote(path: string, raw: string, tool: WriteTool): Promise<Note> {
+    const fullPath = join(this.config.vaultPath, path);
+    await mkdir(dirname(fullPath), { recursive: true });
+    // An exclusive write fails if the file exists, so a concurrent create can never be overwritten
+    await writeFileAtomic(fullPath, raw, { exclusive: true }).catch((error: Error & { code?: string }) => {
+      throw error.code === 'EEXIST' ? new Error(`Note already exists: ${path}`) : error;
+    });
+    await this.recordChange(tool, [{ path, before: null, after: raw }]);
+    await this.reindexFile(path);
+
+    const note = await this.getNote(path);
+    if (!note) {
+      throw new Error(`Note was created but could not be indexed: ${path}`);
+    }
+    return note;
+  }
+
+  /**
+   * Add content to an existing note and re-index it. The frontmatter is kept byte-for-byte
+   * apart from `modified`, which is set to today.
+   * @param path - Vault-relative path of an indexed note
+   * @param content - Markdown to add
+   * @param options - append (end of note), prepend (after the frontmatter) or heading
+   *   (end of the named heading's section, creating the heading if it is missing)
+   * @param expectedVersion - Version from getNote; the write is rejected if the file has changed since
+   * @returns The re-indexed note
+   * @throws {Error} If the note does not exist or writes to it are not allowed
+   * @throws {VersionConflictError} If the note is no longer at `expectedVersion`
+   */
+  async appendToNote(path: string, content: string, options: InsertOptions, expectedVersion?: string): Promise<Note> {
+    this.assertCanWrite('append_to_note', [path]);
+    const raw = await this.readNoteForWrite(path, expectedVersion);
+
+    const updated = setFrontmatterDate(insertContent(raw, content, options), 'modified', formatDate(new Date()));
+    await writeFileAtomic(join(this.config.vaultPath, path), updated);
+    await this.recordChange('append_to_note', [{ path, before: raw, after: updated }]);
+    await this.reindexFile(path);
+
+    const note = await this.getNote(path);
+    if (!note) {
+      throw new Error(`Note could not be re-indexed: ${path}`);
+    }
+    return note;
+  }
+
+  /**
+   * Apply frontmatter operations to one or more notes and re-index them. Only the frontmatter
+   * block is re-serialised; the body is kept byte-for-byte. `modified` is set to today unless
+   * an operation changes it. Nothing is written unless every note can be updated.
+   * @param paths - Vault-relative paths of indexed notes
+   * @param operations - Validated set/unset/add/remove operations, applied in order
+   * @param expectedVersions - Version from getNote for any of the notes, keyed by path
+   * @returns The updated frontmatter and new version of each note
+   * @throws {Error} Listing every note that could not be updated, or if writes to any of them are not allowed
+   * @throws {VersionConflictError} If a note is no longer at its expected version
+   */
+  async updateFrontmatter(
+    paths: string[],
+    operations: FrontmatterOperation[],
+    expectedVersions: Record<string, string> = {}
+  ): Promise<Array<{ path: string; frontmatter: NoteFrontmatter; version?: string }>> {
+    this.assertCanWrite('update_frontmatter', paths);
+    const today = formatDate(new Date());
+    const touchesModified = operations.some(operation => operation.field === 'modified');
+    const updates: Array<{ path: string; raw: string; content: string }> = [];
+    const failures: string[] = [];
+
+    for (const path of paths) {
+      const raw = await this.readNoteForWrite(path, expectedVersions[path]).catch(error => {
+        if (error instanceof VersionConflictError) throw error;
+        return null;
+      });
+      if (raw === null) {
+        failures.push(`${path}: Note not found`);
+        continue;
+      }
+
+      try {
+        const data = applyFrontmatterOperations(matter(raw).data, operations);
+        if (!touchesModified) {
+          data.modified = today;
+        }
+        updates.push({ path, raw, content: replaceFrontmatter(raw, data) });
+      } catch (error) {
+        failures.push(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new Error(`No notes were updated:\n${failures.map(failure => `- ${failure}`).join('\n')}`);
+    }
+
+    for (const { path, content } of updates) {
+      await writeFileAtomic(join(this.config.vaultPath, path), content);
+    }
+    await this.recordChange('update_frontmatter', updates.map(({ path, raw, content }) => ({ path, before: raw, after: content })));
+
+    const results: Array<{ path: string; frontmatter: NoteFrontmatter; version?: string }> = [];
+    for (const { path } of updates) {
+      await this.reindexFile(path);
+      const note = await this.getNote(path);
+      if (note) {
+        results.push({ path, frontmatter: note.frontmatter, version: note.version });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Query markdown checkbox tasks across the vault
+   * @param query - Status, due date range, tag, path and priority filters
+   * @returns Matching tasks with their note path, by due date (undated last)
+   */
+  async queryTasks(query: TaskQuery = {}): Promise<IndexedTask[]> {
+    return this.storage.queryTasks(query);
+  }
+
+  /**
+   * Change the status or due date of a checkbox task and re-index its note
+   * @param path - Vault-relative path of the note
+   * @param line - 1-based line number of the task
+   * @param expectedText - The task's current text (after the checkbox), guarding against stale line numbers
+   * @param update - Status and/or due date changes
+   * @param expectedVersion - Version from getNote; the write is rejected if the file has changed since
+   * @param tool - Tool the write rules and journal entry are recorded under
+   * @returns The task as re-indexed after the change
+   * @throws {Error} If the note does not exist, the line is not a task, its text does not match,
+   *   or writes to the note are not allowed
+   * @throws {VersionConflictError} If the note is no longer at `expectedVersion`
+   */
+  async updateTask(
+    path: string,
+    line: number,
+    expectedText: string,
+    update: TaskUpdate,
+    expectedVersion?: string,
+    tool: 'update_task' | 'complete_task' = 'update_task'
+  ): Promise<IndexedTask> {
+    this.assertCanWrite(tool, [path]);
+    const raw = await this.readNoteForWrite(path, expectedVersion);
+
+    // Parse the file as the indexer does, so checkboxes in code blocks or frontmatter never match
+    const body = matter(raw).content;
+    const task = extractTasks(body, bodyLineOffset(raw, body)).find(candidate => candidate.line === line);
+    if (!task) {
+      throw new Error(`Line ${line} of ${path} is not a task`);
+    }
+    if (task.text !== expectedText.trim()) {
+      throw new Error(`Task text on line ${line} of ${path} does not match. Current text: ${task.text}`);
+    }
+
+    const lines = raw.split('\n');
+    const original = lines[line - 1];
+    const carriageReturn = original.endsWith('\r') ? '\r' : '';
+    lines[line - 1] = updateTaskLine(original.slice(0, original.length - carriageReturn.length), update) + carriageReturn;
+
+    const content = lines.join('\n');
+    await writeFileAtomic(join(this.config.vaultPath, path), content);
+    await this.recordChange(tool, [{ path, before: raw, after: content }]);
+    await this.reindexFile(path);
+
+    const updated = (await this.storage.getNote(path))?.tasks?.find(candidate => candidate.line === line);
+    if (!updated) {
+      throw new Error(`Task on line ${line} of ${path} could not be re-indexed`);
+    }
+    return { path, ...updated };
+  }
+
+  /**
+   * Rename tags across the vault in frontmatter arrays and inline #tags, then re-index the changed notes.
+   * Passing several tags in `from` merges them all into `to`.
+   * @param from - Normalized tags to rename
+   * @param to - Normalized new tag
+   * @param options - includeChildren (default: true) also renames hierarchical children;
+   *   dryRun (default: false) returns the per-file changes without writing anything
+   * @throws {Error} If any of the notes to change may not be written by rename_tag
+   */
+  async renameTag(
+    from: string[],
+    to: string,
+    options: { includeChildren?: boolean; dryRun?: boolean } = {}
+  ): Promise<TagRenameResult> {
+    const { includeChildren = true, dryRun = false } = options;
+    const rename = createTagRenamer(from, to, includeChildren);
+
+    const candidates = new Set<string>();
+    for (const tag of from) {
+      (await this.storage.getNotesByTag(tag)).forEach(note => candidates.add(note.path));
+    }
+
+    // Compute every rewrite before writing so a read failure cannot leave a half-renamed vault
+    const rewrites: Array<{ path: string; raw: string; content: string; file: TagRenameFileChange }> = [];
+    for (const path of Array.from(candidates).sort()) {
+      const raw = await readFile(join(this.config.vaultPath, path), 'utf-8').catch(() => null);
+      if (raw === null) continue;
+
+      const rewrite = rewriteTags(raw, rename);
+      if (rewrite.replacements > 0) {
+        rewrites.push({
+          path,
+          raw,
+          content: rewrite.content,
+          file: { path, replacements: rewrite.replacements, changes: rewrite.changes }
+        });
+      }
+    }
+
+    this.assertCanWrite('rename_tag', rewrites.map(({ path }) => path));
+    if (!dryRun) {
+      for (const { path, content } of rewrites) {
+        await writeFileAtomic(join(this.config.vaultPath, path), content);
+      }
+      await this.recordChange('rename_tag', rewrites.map(({ path, raw, content }) => ({ path, before: raw, after: content })));
+      for (const { path } of rewrites) {
+        await this.reindexFile(path);
+      }
+    }
+
+    return {
+      dryRun,
+      from,
+      to,
+      replacements: rewrites.reduce((total, { file }) => total + file.replacements, 0),
+      files: rewrites.map(({ file }) => file)
+    };
+  }
+
+  /**
+   * Move or rename a note, rewrite every link that pointed at it (or that would resolve
+   * differently afterwards), and update the index for all touched notes in one step
+   * @param from - Vault-relative path of an indexed note
+   * @param to - New vault-relative path ending in .md; must match the index patterns
+   * @param options - dryRun (default: false) returns the per-file changes without moving or writing anything;
+   *   expectedVersion rejects the move if the note has changed since it was read
+   * @throws {Error} If the note does not exist, the new path would not be indexed or is already taken,
+   *   or any file to move or rewrite may not be written
+   * @throws {VersionConflictError} If the note is no longer at `expectedVersion`
+   */
+  async moveNote(from: string, to: string, options: { dryRun?: boolean; expectedVersion?: string } = {}): Promise<MoveNoteResult> {
+    await this.readNoteForWrite(from, options.expectedVersion);
+    if (from === to) {
+      throw new Error(`Note is already at ${to}`);
+    }
+    if (!this.isIndexable(to)) {
+      throw new Error(`Path is not covered by the index patterns or is excluded: ${to}`);
+    }
+    // A case-only rename finds the note itself on case-insensitive file systems
+    if (from.toLowerCase() !== to.toLowerCase() && await this.fileExists(to)) {
+      throw new Error(`A file already exists at ${to}`);
+    }
+
+    return this.relocateNote(from, to, { tool: 'move_note', dryRun: options.dryRun ?? false });
+  }
+
+  /**
+   * Move a note into the Archive/ folder, keeping its subpath, and set `status: archived`.
+   * Links are rewritten as for moveNote. If Archive/ is excluded from the index, the note
+   * leaves the index; otherwise it stays indexed but is hidden from results unless includeArchive is set.
+   * @param path - Vault-relative path of an indexed note outside Archive/
+   * @param expectedVersion - Version from getNote; the note is not archived if it has changed since
+   * @returns The move, from the note's old path to its path under Archive/
+   * @throws {Error} If the note does not exist, is already archived or the archive path is taken,
+   *   or any file to move or rewrite may not be written
+   * @throws {VersionConflictError} If the note is no longer at `expectedVersion`
+   */
+  async archiveNote(path: string, expectedVersion?: string): Promise<MoveNoteResult> {
+    await this.readNoteForWrite(path, expectedVersion);
+    if (path.toLowerCase().startsWith(`archive${sep}`)) {
+      throw new Error(`Note is already archived: ${path}`);
+    }
+
+    const archivePath = join('Archive', path);
+    if (await this.fileExists(archivePath)) {
+      throw new Error(`A file already exists at ${archivePath}`);
+    }
+
+    const today = formatDate(new Date());
+    return this.relocateNote(path, archivePath, {
+      tool: 'archive_note',
+      dryRun: false,
+      transform: raw => replaceFrontmatter(raw, { ...matter(raw).data, status: 'archived', modified: today })
+    });
+  }
+
+  /**
+   * Move a note into the vault's .trash folder (as Obsidian does) and remove it from the index.
+   * Links to the note are left as they are.
+   * @param path - Vault-relative path of an indexed note
+   * @param expectedVersion - Version from getNote; the note is not deleted if it has changed since
+   * @returns The note's path inside .trash; a number is appended if that name is taken
+   * @throws {Error} If the note does not exist or may not be deleted
+   * @throws {VersionConflictError} If the note is no longer at `expectedVersion`
+   */
+  async deleteNote(path: string, expectedVersion?: string): Promise<{ path: string; trashPath: string }> {
+    this.assertCanWrite('delete_note', [path]);
+    const raw = await this.readNoteForWrite(path, expectedVersion);
+
+    const extension = path.endsWith('.md') ? '.md' : '';
+    const stem = join('.trash', extension ? path.slice(0, -extension.length) : path);
+    let trashPath = stem + extension;
+    for (let counter = 1; await this.fileExists(trashPath); counter++) {
+      trashPath = `${stem} ${counter}${extension}`;
+    }
+
+    const trashFullPath = join(this.config.vaultPath, trashPath);
+    await mkdir(dirname(trashFullPath), { recursive: true });
+    await rename(join(this.config.vaultPath, path), trashFullPath);
+    await this.recordChange('delete_note', [{ path, before: raw, after: null }, { path: trashPath, before: null, after: raw }]);
+    await this.storage.deleteNote(path);
+
+    return { path, trashPath };
+  }
+
+  private fileExists(relativePath: string): Promise<boolean> {
+    return stat(join(this.config.vaultPath, relativePath)).then(() => true, () => false);
+  }
+
+  /**
+   * List the changes made by write tools, newest first
+   * @param limit - Maximum number of entries to return
+   */
+  async listRecentChanges(limit: number = 20): Promise<JournalEntry[]> {
+    return this.storage.getJournalEntries(limit);
+  }
+
+  /**
+   * Revert a change made by a write tool, restoring every file it touched to its previous
+   * content (re-creating removed files and removing created ones). The undo is journaled
+   * as well, so it can be undone in turn.
+   * @param id - Journal entry id from listRecentChanges
+   * @returns The journal entry recorded for the undo
+   * @throws {Error} If the entry does not exist or was already undone, if any of its files
+   *   has been edited since the change, or if undo_change may not write them; nothing is restored in that case
+   */
+  async undoChange(id: number): Promise<JournalEntry> {
+    const entry = await this.storage.getJournalEntry(id);
+    if (!entry) {
+      throw new Error(`Change not found: ${id}`);
+    }
+    if (entry.undoneBy !== undefined) {
+      throw new Error(`Change ${id} was already undone by change ${entry.undoneBy}`);
+    }
+    this.assertCanWrite('undo_change', entry.files.map(file => file.path));
+
+    const edited: string[] = [];
+    for (const file of entry.files) {
+      const current = await readFile(join(this.config.vaultPath, file.path), 'utf-8').catch(() => null);
+      if (current !== file.after) {
+        edited.push(file.path);
+      }
+    }
+    if (edited.length > 0) {
+      throw new Error(`Cannot undo change ${id}; these files have been edited since:\n${edited.map(path => `- ${path}`).join('\n')}`);
+    }
+
+    for (const file of entry.files) {
+      const fullPath = join(this.config.vaultPath, file.path);
+      if (file.before === null) {
+        await unlink(fullPath);
+      } else {
+        await mkdir(dirname(fullPath), { recursive: true });
+        await writeFileAtomic(fullPath, file.before);
+      }
+    }
+
+    const undoId = await this.recordChange('undo_change', entry.files.map(file => ({ path: file.path, before: file.after, after: file.before })));
+    await this.storage.markJournalEntryUndone(id, undoId);
+
+    // Bring every touched path in line with the disk in one index update
+    const notes: Note[] = [];
+    const removed: string[] = [];
+    for (const { path, before } of entry.files) {
+      if (before !== null && this.isIndexable(path)) {
+        notes.push(await this.loadNote(join(this.config.vaultPath, path)));
+      } else {
+        removed.push(path);
+      }
+    }
+    await this.storage.replaceNotes(removed, notes);
+
+    return (await this.storage.getJournalEntry(undoId))!;
+  }
+
+  /**
+   * Record the files changed by a write tool in the journal
+   * @returns The id of the journal entry
+   */
+  private recordChange(tool: WriteTool, files: JournalFileChange[]): Promise<number> {
+    return this.storage.addJournalEntry({ tool, timestamp: new Date().toISOString(), files });
+  }
+
+  /**
+   * Check the read-only switch and write rules before a tool writes to the vault.
+   * The .trash folder is managed by delete_note and undo_change, so it is not subject to path rules.
+   * @throws {Error} If the tool may not write any of the paths
+   */
+  private assertCanWrite(tool: WriteTool, paths: string[]): void {
+    this.writePolicy.assertCanWrite(tool, paths.filter(path => !path.startsWith(`.trash${sep}`)));
+  }
+
+  /**
+   * Move a note, rewrite every link that would resolve differently afterwards,
+   * and update the index for all touched notes in one step
+   * @param options - tool is the name recorded in the journal; transform is applied to the moved
+   *   note's content after its links are rewritten
+   */
+  private async relocateNote(
+    from: string,
+    to: string,
+    options: { tool: WriteTool; dryRun: boolean; transform?: (raw: string) => string }
+  ): Promise<MoveNoteResult> {
+    const paths = await this.storage.getNotePaths();
+    const before = new LinkResolver(paths);
+    const after = new LinkResolver(paths.map(path => path === from ? to : path));
+
+    // Only links naming the old or new file (and the moved note's own links) can resolve differently
+    const candidates = new Set<string>([from]);
+    for (const name of new Set([linkTargetName(from), linkTargetName(to)])) {
+      (await this.storage.getLinks({ targetName: name })).forEach(link => candidates.add(link.source));
+    }
+
+    // Compute every rewrite before touching the vault so a read failure cannot leave links half-updated
+    const rewrites: Array<{ path: string; raw: string; content: string; file: MoveNoteFileChange }> = [];
+    for (const path of Array.from(candidates).sort()) {
+      const raw = await readFile(join(this.config.vaultPath, path), 'utf-8').catch(() => null);
+      if (raw === null) {
+        if (path === from) throw new Error(`Note not found: ${from}`);
+        continue;
+      }
+
+      const rewrite = rewriteLinksForMove(raw, path, from, to, before, after);
+      const content = path === from && options.transform ? options.transform(rewrite.content) : rewrite.content;
+      if (path === from || rewrite.replacements > 0) {
+        rewrites.push({
+          path,
+          raw,
+          content,
+          file: { path, replacements: rewrite.replacements, changes: rewrite.changes }
+        });
+      }
+    }
+
+    // Links rewritten in other notes are writes too, so every touched file must be writable
+    this.assertCanWrite(options.tool, [to, ...rewrites.map(({ path }) => path)]);
+    if (!options.dryRun) {
+      const toPath = join(this.config.vaultPath, to);
+      await mkdir(dirname(toPath), { recursive: true });
+      await rename(join(this.config.vaultPath, from), toPath);
+
+      const notes: Note[] = [];
+      const journal: JournalFileChange[] = [];
+      for (const { path, raw, content } of rewrites) {
+        const newPath = path === from ? to : path;
+        const fullPath = join(this.config.vaultPath, newPath);
+        if (content !== raw) {
+          await writeFileAtomic(fullPath, content);
+        }
+        if (this.isIndexable(newPath)) {
+          notes.push(await this.loadNote(fullPath));
+        }
+        journal.push(...(path === from
+          ? [{ path: from, before: raw, after: null }, { path: to, before: null, after: content }]
+          : [{ path, before: raw, after: content }]));
+      }
+      await this.recordChange(options.tool, journal);
+      await this.storage.replaceNotes([from], notes);
+    }
+
+    return {
+      dryRun: options.dryRun,
+      from,
+      to,
+      replacements: rewrites.reduce((total, { file }) => total + file.replacements, 0),
+      files: rewrites.map(({ file }) => file)
+    };
   }
 
   /**
@@ -198,4 +1086,145 @@ export class ObsidianVault {
   async getRecentNotes(limit: number = 10): Promise<Note[]> {
     return this.storage.getRecentNotes(limit);
   }
+
+  /**
+   * Get the links going out of a note, resolved against the indexed notes
+   * @param path - Relative path of the source note
+   * @returns Links in document order (unresolved ones have `resolved: null`), or null if the note is not indexed
+   */
+  async getOutgoingLinks(path: string): Promise<ResolvedLink[] | null> {
+    const note = await this.storage.getNote(path);
+    if (!note) return null;
+
+    const resolver = new LinkResolver(await this.storage.getNotePaths());
+    const links = await this.storage.getLinks({ source: path });
+    return links.map(link => ({ ...link, resolved: resolver.resolve(link, link.source) }));
+  }
+
+  /**
+   * Get the links from other notes that resolve to a note
+   * @param path - Relative path of the target note
+   * @returns Incoming links, or null if the note is not indexed
+   */
+  async getBacklinks(path: string): Promise<ResolvedLink[] | null> {
+    const note = await this.storage.getNote(path);
+    if (!note) return null;
+
+    const resolver = new LinkResolver(await this.storage.getNotePaths());
+    const candidates = await this.storage.getLinks({ targetName: linkTargetName(path) });
+    return candidates
+      .map(link => ({ ...link, resolved: resolver.resolve(link, link.source) }))
+      .filter(link => link.resolved === path);
+  }
+
+  /**
+   * List every link that does not resolve to an indexed note
+   * @param options - Only report links in notes matching these filters
+   * @returns Broken links with their source note and line number
+   */
+  async findBrokenLinks(options: SearchOptions = {}): Promise<IndexedLink[]> {
+    const inScope = new Set(await this.storage.getNotePaths(options));
+    return (await this.resolveAllLinks())
+      .filter(link => link.resolved === null && inScope.has(link.source))
+      .map(({ resolved: _resolved, ...link }) => link);
+  }
+
+  /**
+   * List notes that neither link to nor are linked from another note
+   * @param options - Only report notes matching these filters (links from any note count)
+   * @returns Orphaned notes sorted by path
+   */
+  async findOrphans(options: SearchOptions = {}): Promise<Note[]> {
+    const connected = new Set<string>();
+    for (const link of await this.resolveAllLinks()) {
+      if (link.resolved !== null && link.resolved !== link.source) {
+        connected.add(link.source);
+        connected.add(link.resolved);
+      }
+    }
+
+    const orphanPaths = (await this.storage.getNotePaths(options))
+      .filter(path => !connected.has(path))
+      .sort();
+    const orphans = await Promise.all(orphanPaths.map(path => this.storage.getNote(path)));
+    return orphans.filter((note): note is Note => note !== null);
+  }
+
+  /**
+   * Resolve every indexed link against the current set of notes
+   */
+  private async resolveAllLinks(): Promise<ResolvedLink[]> {
+    const resolver = new LinkResolver(await this.storage.getNotePaths());
+    const links = await this.storage.getLinks();
+    return links.map(link => ({ ...link, resolved: resolver.resolve(link, link.source) }));
+  }
+
+  /**
+   * Get the notes within a number of link hops of a note, like Obsidian's local graph
+   * @param path - Relative path of the central note
+   * @param options.depth - Maximum number of hops (default: 1)
+   * @param options.direction - Follow outgoing links, incoming links or both (default: both)
+   * @param options.tags - Only include (and traverse through) notes with one of these tags
+   * @param options.type - Only include (and traverse through) notes of this type
+   * @returns Nodes and edges of the neighborhood, or null if the note is not indexed
+   */
+  async getNoteNeighborhood(
+    path: string,
+    options: { depth?: number; direction?: LinkDirection; tags?: string[]; type?: NoteFrontmatter['type'] } = {}
+  ): Promise<NoteGraph | null> {
+    if (!await this.storage.getNote(path)) return null;
+
+    const graph = new LinkGraph(await this.resolveAllLinks());
+    const allowed = options.tags?.length || options.type
+      ? new Set(await this.storage.getNotePaths({ tags: options.tags, type: options.type, includeArchive: true }))
+      : null;
+
+    const distances = graph.neighborhood(
+      path,
+      options.depth ?? 1,
+      options.direction ?? 'both',
+      candidate => allowed === null || allowed.has(candidate)
+    );
+
+    return {
+      nodes: await this.toGraphNodes(Array.from(distances.entries())),
+      edges: graph.edgesBetween(new Set(distances.keys()))
+    };
+  }
+
+  /**
+   * Find the shortest chain of links connecting two notes
+   * @param from - Relative path of the first note
+   * @param to - Relative path of the last note
+   * @param direction - Follow links in either direction (default) or only as written ('outgoing')
+   * @returns The chain as ordered nodes and edges, an empty graph if unconnected, or null if a note is not indexed
+   */
+  async findPathBetweenNotes(from: string, to: string, direction: LinkDirection = 'both'): Promise<NoteGraph | null> {
+    if (!await this.storage.getNote(from) || !await this.storage.getNote(to)) return null;
+
+    const graph = new LinkGraph(await this.resolveAllLinks());
+    const chain = graph.shortestPath(from, to, direction);
+    if (!chain) return { nodes: [], edges: [] };
+
+    const edges: GraphEdge[] = [];
+    for (let i = 1; i < chain.length; i++) {
+      const edge = graph.edgeBetween(chain[i - 1], chain[i]);
+      if (edge) edges.push(edge);
+    }
+
+    return {
+      nodes: await this.toGraphNodes(chain.map((notePath, index) => [notePath, index])),
+      edges
+    };
+  }
+
+  private async toGraphNodes(entries: Array<[string, number]>): Promise<GraphNode[]> {
+    const nodes = await Promise.all(entries.map(async ([notePath, depth]): Promise<GraphNode | null> => {
+      const note = await this.storage.getNote(notePath);
+      return note
+        ? { path: note.path, title: note.title, type: note.frontmatter.type, tags: note.frontmatter.tags ?? [], depth }
+        : null;
+    }));
+    return nodes.filter((node): node is GraphNode => node !== null);
+  }
 }
@@ -0,0 +1,189 @@
+import { minimatch } from 'minimatch';
+import { sep } from 'path';
+import { WriteRule } from './types.js';
+
+/**
+ * Tools that change files in the vault; every other tool only reads
+ */
+export const WRITE_TOOLS = [
+  'create_note',
+  'create_note_from_template',
+  'append_to_note',
+  'update_frontmatter',
+  'complete_task',
+  'update_task',
+  'rename_tag',
+  'move_note',
+  'archive_note',
+  'delete_note',
+  'undo_change'
+] as const;
+
+export type WriteTool = typeof WRITE_TOOLS[number];
+
+/**
+ * Write settings shared by the config file, the CLI flags and VaultConfig
+ */
+export interface WritePermissions {
+  readOnly?: boolean;
+  writeRules?: Record<string, WriteRule>;
+}
+
+export function isWriteTool(name: string): name is WriteTool {
+  return (WRITE_TOOLS as readonly string[]).includes(name);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim() !== '');
+}
+
+function checkRuleKey(key: string): void {
+  if (key !== '*' && !isWriteTool(key)) {
+    throw new Error(`Unknown write tool "${key}". Must be "*" or one of: ${WRITE_TOOLS.join(', ')}`);
+  }
+}
+
+/**
+ * Validate the write settings of a parsed JSON config file
+ * @param value - Parsed file content; only `readOnly` and `writeRules` are recognised
+ * @throws {Error} Describing the first invalid setting
+ */
+export function parseWritePermissions(value: unknown): WritePermissions {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Config must be a JSON object');
+  }
+
+  const { readOnly, writeRules, ...unknown } = value as Record<string, unknown>;
+  const unknownKey = Object.keys(unknown)[0];
+  if (unknownKey !== undefined) {
+    throw new Error(`Unknown config key "${unknownKey}". Supported keys: readOnly, writeRules`);
+  }
+  if (readOnly !== undefined && typeof readOnly !== 'boolean') {
+    throw new Error('readOnly must be a boolean');
+  }
+  if (writeRules === undefined) {
+    return { readOnly };
+  }
+  if (typeof writeRules !== 'object' || writeRules === null || Array.isArray(writeRules)) {
+    throw new Error('writeRules must be an object keyed by tool name');
+  }
+
+  const rules: Record<string, WriteRule> = {};
+  for (const [tool, rule] of Object.entries(writeRules)) {
+    checkRuleKey(tool);
+    if (typeof rule !== 'object' || rule === null || Array.isArray(rule)) {
+      throw new Error(`writeRules.${tool} must be an object`);
+    }
+    const { enabled, allow, deny } = rule as Record<string, unknown>;
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      throw new Error(`writeRules.${tool}.enabled must be a boolean`);
+    }
+    if (allow !== undefined && !isStringArray(allow)) {
+      throw new Error(`writeRules.${tool}.allow must be an array of glob patterns`);
+    }
+    if (deny !== undefined && !isStringArray(deny)) {
+      throw new Error(`writeRules.${tool}.deny must be an array of glob patterns`);
+    }
+    rules[tool] = { enabled, allow, deny };
+  }
+
+  return { readOnly, writeRules: rules };
+}
+
+/**
+ * Build write rules from CLI values. Allow and deny patterns apply to every write tool,
+ * or to a single tool when written as "tool=pattern" (e.g. "create_note=Inbox/**").
+ * @param options - Values of --disable-tools, --write-allow and --write-deny, split on commas
+ * @throws {Error} If a tool name is not a write tool
+ */
+export function parseWriteRuleArgs(options: { disabledTools?: string[]; allow?: string[]; deny?: string[] }): Record<string, WriteRule> {
+  const rules: Record<string, WriteRule> = {};
+  const ruleFor = (tool: string) => {
+    checkRuleKey(tool);
+    return (rules[tool] ??= {});
+  };
+
+  for (const tool of options.disabledTools ?? []) {
+    ruleFor(tool).enabled = false;
+  }
+  for (const field of ['allow', 'deny'] as const) {
+    for (const entry of options[field] ?? []) {
+      const separator = entry.indexOf('=');
+      const tool = separator === -1 ? '*' : entry.slice(0, separator).trim();
+      const pattern = separator === -1 ? entry : entry.slice(separator + 1).trim();
+      const rule = ruleFor(tool);
+      rule[field] = [...(rule[field] ?? []), pattern];
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Combine two sets of write rules; for each tool, fields set in `override` replace those in `base`
+ */
+export function mergeWriteRules(base: Record<string, WriteRule> = {}, override: Record<string, WriteRule> = {}): Record<string, WriteRule> {
+  const merged: Record<string, WriteRule> = { ...base };
+  for (const [tool, rule] of Object.entries(override)) {
+    merged[tool] = { ...merged[tool] };
+    for (const [field, value] of Object.entries(rule)) {
+      if (value !== undefined) {
+        (merged[tool] as Record<string, unknown>)[field] = value;
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * Decides which write tools are available and which vault paths each of them may write.
+ * Rules under "*" and under the tool's own name both apply: a path must pass both.
+ */
+export class WritePolicy {
+  constructor(private readonly permissions: WritePermissions = {}) {}
+
+  private rulesFor(tool: WriteTool): WriteRule[] {
+    const rules = this.permissions.writeRules ?? {};
+    return [rules['*'], rules[tool]].filter((rule): rule is WriteRule => rule !== undefined);
+  }
+
+  /**
+   * Whether a tool may be listed and called; read-only tools are always enabled
+   */
+  isToolEnabled(tool: string): boolean {
+    if (!isWriteTool(tool)) return true;
+    if (this.permissions.readOnly) return false;
+    return this.rulesFor(tool).every(rule => rule.enabled !== false);
+  }
+
+  /**
+   * Paths, out of those given, that a tool may not write
+   * @param paths - Vault-relative paths
+   */
+  deniedPaths(tool: WriteTool, paths: string[]): string[] {
+    const rules = this.rulesFor(tool);
+    return paths.filter(path => {
+      const posixPath = path.split(sep).join('/');
+      return rules.some(rule =>
+        (rule.allow !== undefined && !rule.allow.some(pattern => minimatch(posixPath, pattern))) ||
+        (rule.deny ?? []).some(pattern => minimatch(posixPath, pattern))
+      );
+    });
+  }
+
+  /**
+   * @throws {Error} If the vault is read-only, the tool is disabled, or any of the paths is not writable by it
+   */
+  assertCanWrite(tool: WriteTool, paths: string[]): void {
+    if (this.permissions.readOnly) {
+      throw new Error('The vault is read-only');
+    }
+    if (!this.isToolEnabled(tool)) {
+      throw new Error(`${tool} is disabled`);
+    }
+    const denied = this.deniedPaths(tool, paths);
+    if (denied.length > 0) {
+      throw new Error(`${tool} is not allowed to write these paths:\n${denied.map(path => `- ${path}`).join('\n')}`);
+    }
+  }
+}